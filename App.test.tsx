@@ -3,6 +3,7 @@
  */
 
 import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
 import {
   SafeAreaView,
   Text,
@@ -83,4 +84,10 @@ const styles = StyleSheet.create({
   },
 });
 
-export default TestApp;
\ No newline at end of file
+test('renders the test app', async () => {
+  await ReactTestRenderer.act(() => {
+    ReactTestRenderer.create(<TestApp />);
+  });
+});
+
+export default TestApp;
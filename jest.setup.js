@@ -0,0 +1,49 @@
+/* eslint-env jest */
+/**
+ * Mocks for native modules that have no JS implementation under Jest
+ */
+
+// Gesture handler's own mocks, which the navigator's screens render through
+require('react-native-gesture-handler/jestSetup');
+
+jest.mock('@dr.pogodin/react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  CachesDirectoryPath: '/caches',
+  DownloadDirectoryPath: '/downloads',
+  ExternalDirectoryPath: '/external',
+  copyFile: jest.fn(() => Promise.resolve()),
+  exists: jest.fn(() => Promise.resolve(false)),
+  mkdir: jest.fn(() => Promise.resolve()),
+  readDir: jest.fn(() => Promise.resolve([])),
+  readFile: jest.fn(() => Promise.resolve('')),
+  unlink: jest.fn(() => Promise.resolve()),
+  writeFile: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('react-native-image-picker', () => ({
+  launchImageLibrary: jest.fn(() => Promise.resolve({ didCancel: true })),
+  launchCamera: jest.fn(() => Promise.resolve({ didCancel: true })),
+}));
+
+jest.mock('@react-native-community/geolocation', () => ({
+  getCurrentPosition: jest.fn((_success, error) =>
+    error({ code: 2, message: 'Position unavailable' }),
+  ),
+  requestAuthorization: jest.fn(),
+}));
+
+jest.mock('react-native-share', () => ({
+  open: jest.fn(() => Promise.resolve({ success: true, message: '' })),
+}));
+
+jest.mock('react-native-view-shot', () => ({
+  captureRef: jest.fn(() => Promise.resolve('file:///tmp/capture.png')),
+}));
+
+jest.mock('@react-native-documents/picker', () => ({
+  errorCodes: { OPERATION_CANCELED: 'OPERATION_CANCELED' },
+  isErrorWithCode: jest.fn(() => false),
+  keepLocalCopy: jest.fn(() => Promise.reject(new Error('No file picked'))),
+  pick: jest.fn(() => Promise.reject(new Error('No file picked'))),
+  types: { allFiles: '*/*', json: 'application/json', plainText: 'text/plain' },
+}));
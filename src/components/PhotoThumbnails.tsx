@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Image, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { Photo } from '../models/types';
+
+interface PhotoThumbnailsProps {
+  photos: Photo[];
+  getPhotoUri: (photo: Photo) => string;
+  maxVisible?: number;
+  size?: number;
+  onLongPressPhoto?: (photo: Photo) => void;
+}
+
+export function PhotoThumbnails({
+  photos,
+  getPhotoUri,
+  maxVisible = 3,
+  size = 36,
+  onLongPressPhoto,
+}: PhotoThumbnailsProps) {
+  const styles = useThemedStyles(createStyles);
+  if (photos.length === 0) {
+    return null;
+  }
+
+  const visible = photos.slice(0, maxVisible);
+  const hiddenCount = photos.length - visible.length;
+  const sizeStyle = { width: size, height: size };
+
+  return (
+    <View style={styles.container}>
+      {visible.map(photo => (
+        <TouchableOpacity
+          key={photo.id}
+          disabled={!onLongPressPhoto}
+          onLongPress={onLongPressPhoto ? () => onLongPressPhoto(photo) : undefined}
+        >
+          <Image source={{ uri: getPhotoUri(photo) }} style={[styles.thumbnail, sizeStyle]} />
+        </TouchableOpacity>
+      ))}
+      {hiddenCount > 0 && (
+        <View style={[styles.thumbnail, styles.more, sizeStyle]}>
+          <Text style={styles.moreText}>+{hiddenCount}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    thumbnail: {
+      borderRadius: 6,
+      marginRight: SPACING.xs,
+      backgroundColor: colors.border,
+    },
+    more: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    moreText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { PlayerScore } from '../models/types';
+import { getLeaders } from '../utils/scoreboard';
+
+interface ScoreboardProps {
+  scores: PlayerScore[];
+  selectedPlayerId?: string;
+  onSelectPlayer?: (playerId: string) => void;
+  showResult?: boolean;
+}
+
+/**
+ * Per-player totals in seating order. Pass onSelectPlayer to let the user pick
+ * who is calling the next plate; pass showResult to name the winner.
+ */
+export function Scoreboard({ scores, selectedPlayerId, onSelectPlayer, showResult = false }: ScoreboardProps) {
+  const styles = useThemedStyles(createStyles);
+  if (scores.length === 0) {
+    return null;
+  }
+
+  const leaders = getLeaders(scores);
+  const leaderIds = leaders.map(score => score.player.id);
+
+  const getResultText = () => {
+    if (leaders.length === 0) {
+      return 'No plates spotted yet';
+    }
+    if (leaders.length === 1) {
+      return `🏆 ${leaders[0].player.name} wins!`;
+    }
+    return `Tie between ${leaders.map(score => score.player.name).join(' & ')}`;
+  };
+
+  return (
+    <View>
+      <View style={styles.container}>
+        {scores.map(score => {
+          const isSelected = score.player.id === selectedPlayerId;
+          return (
+            <TouchableOpacity
+              key={score.player.id}
+              style={[styles.playerScore, isSelected && styles.playerScoreSelected]}
+              disabled={!onSelectPlayer}
+              onPress={onSelectPlayer ? () => onSelectPlayer(score.player.id) : undefined}
+              accessibilityLabel={`${score.player.name}: ${score.points} points, ${score.statesSpotted} states`}
+            >
+              <Text style={[styles.playerName, isSelected && styles.playerNameSelected]} numberOfLines={1}>
+                {leaderIds.includes(score.player.id) ? '👑 ' : ''}
+                {score.player.name}
+              </Text>
+              <Text style={[styles.points, isSelected && styles.playerNameSelected]}>
+                {score.points} pts
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {showResult && <Text style={styles.resultText}>{getResultText()}</Text>}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    playerScore: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingVertical: SPACING.xs,
+      paddingHorizontal: SPACING.md,
+      marginRight: SPACING.sm,
+      marginBottom: SPACING.sm,
+    },
+    playerScoreSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    playerName: {
+      fontSize: 14,
+      color: colors.text,
+      marginRight: SPACING.sm,
+      maxWidth: 120,
+    },
+    playerNameSelected: {
+      color: colors.onPrimary,
+    },
+    points: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      color: colors.primary,
+    },
+    resultText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import Svg, { G, Path, Text as SvgText } from 'react-native-svg';
+import { ThemeColors } from '../utils/theme';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { US_MAP_SHAPES, US_MAP_SIZE } from '../utils/usMap';
+
+interface StateMapProps {
+  spottedStateCodes: string[];
+  trackedStateCodes?: string[];
+  onPressState?: (stateCode: string) => void;
+}
+
+/**
+ * The 50 states with spotted ones filled in. States outside trackedStateCodes
+ * (a game's target list) are greyed out and can't be tapped; leave out
+ * onPressState to draw the map read-only.
+ */
+export function StateMap({ spottedStateCodes, trackedStateCodes, onPressState }: StateMapProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.container}>
+      <Svg width="100%" height="100%" viewBox={`0 0 ${US_MAP_SIZE.width} ${US_MAP_SIZE.height}`}>
+        {US_MAP_SHAPES.map(shape => {
+          const isTracked = !trackedStateCodes || trackedStateCodes.includes(shape.code);
+          const isSpotted = isTracked && spottedStateCodes.includes(shape.code);
+          const onPress = onPressState && isTracked ? () => onPressState(shape.code) : undefined;
+
+          return (
+            <G key={shape.code} onPress={onPress} opacity={isTracked ? 1 : 0.35}>
+              <Path
+                d={shape.path}
+                fill={isSpotted ? colors.primary : colors.surface}
+                stroke={colors.border}
+                strokeWidth={1.5}
+                strokeLinejoin="round"
+              />
+              {shape.showLabel && (
+                <SvgText
+                  x={shape.labelX}
+                  y={shape.labelY}
+                  fontSize={16}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  alignmentBaseline="middle"
+                  fill={isSpotted ? colors.onPrimary : colors.textSecondary}
+                >
+                  {shape.code}
+                </SvgText>
+              )}
+            </G>
+          );
+        })}
+      </Svg>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      width: '100%',
+      aspectRatio: US_MAP_SIZE.width / US_MAP_SIZE.height,
+      backgroundColor: colors.background,
+    },
+  });
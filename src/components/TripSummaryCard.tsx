@@ -0,0 +1,138 @@
+import React, { forwardRef } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { APP_CONFIG, SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { TripSummary } from '../models/types';
+import { formatTripDuration } from '../utils/tripSummary';
+
+interface TripSummaryCardProps {
+  summary: TripSummary;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+/**
+ * A game's summary laid out as a card. The ref points at the card's root view
+ * so it can be captured as an image; collapsable is off because Android
+ * can't capture views it has flattened away.
+ */
+export const TripSummaryCard = forwardRef<View, TripSummaryCardProps>(({ summary }, ref) => {
+  const styles = useThemedStyles(createStyles);
+
+  const rows: Array<{ label: string; value: string }> = [];
+  if (summary.duration !== null) {
+    rows.push({ label: '⏱️ Duration', value: formatTripDuration(summary.duration) });
+  }
+  if (summary.firstState) {
+    rows.push({ label: '🥇 First state', value: summary.firstState.name });
+  }
+  if (summary.lastState) {
+    rows.push({ label: '🏁 Last state', value: summary.lastState.name });
+  }
+  if (summary.rarestFind) {
+    rows.push({ label: '💎 Rarest find', value: summary.rarestFind.name });
+  }
+
+  return (
+    <View ref={ref} collapsable={false} style={styles.card}>
+      <Text style={styles.appName}>{APP_CONFIG.name}</Text>
+      <Text style={styles.gameName}>{summary.gameName}</Text>
+      <Text style={styles.dates}>
+        {formatDate(summary.startDate)}
+        {summary.endDate ? ` – ${formatDate(summary.endDate)}` : ' · in progress'}
+      </Text>
+
+      <View style={styles.progress}>
+        <Text style={styles.progressCount}>
+          {summary.found}/{summary.total}
+        </Text>
+        <Text style={styles.progressLabel}>states found</Text>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${summary.percentage}%` }]} />
+        </View>
+      </View>
+
+      {rows.map(row => (
+        <View key={row.label} style={styles.row}>
+          <Text style={styles.rowLabel}>{row.label}</Text>
+          <Text style={styles.rowValue}>{row.value}</Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: SPACING.lg,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    appName: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.primary,
+      textTransform: 'uppercase',
+      marginBottom: SPACING.sm,
+    },
+    gameName: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    dates: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginTop: SPACING.xs,
+    },
+    progress: {
+      alignItems: 'center',
+      marginVertical: SPACING.lg,
+    },
+    progressCount: {
+      fontSize: 48,
+      fontWeight: 'bold',
+      color: colors.primary,
+    },
+    progressLabel: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginBottom: SPACING.md,
+    },
+    progressBar: {
+      alignSelf: 'stretch',
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.border,
+      overflow: 'hidden',
+    },
+    progressFill: {
+      height: '100%',
+      backgroundColor: colors.success,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: SPACING.sm,
+      borderTopWidth: StyleSheet.hairlineWidth,
+      borderTopColor: colors.border,
+    },
+    rowLabel: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    rowValue: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
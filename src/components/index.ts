@@ -0,0 +1,4 @@
+export { PhotoThumbnails } from './PhotoThumbnails';
+export { Scoreboard } from './Scoreboard';
+export { TripSummaryCard } from './TripSummaryCard';
+export { StateMap } from './StateMap';
@@ -1,18 +1,97 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Game, SpottedState } from '../models/types';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import {
+  Achievement,
+  AchievementUnlock,
+  BackupPreview,
+  CreateGameOptions,
+  ExportDocument,
+  ExportFormat,
+  Game,
+  GameScore,
+  GameScoreSummary,
+  GameStatistics,
+  PersonalRecords,
+  Photo,
+  Player,
+  PlayerScore,
+  RestoreMode,
+  RestoreOutcome,
+  RestoreResult,
+  Sighting,
+  SpottedState,
+  StateInfo,
+  StateListView,
+  TargetTemplate,
+  TripSummary,
+} from '../models/types';
 import DatabaseService from '../services/DatabaseService';
+import { GameRepository } from '../repositories/GameRepository';
+import { SpottedStateRepository } from '../repositories/SpottedStateRepository';
+import { SightingRepository } from '../repositories/SightingRepository';
+import { PhotoRepository } from '../repositories/PhotoRepository';
+import { SettingsRepository, stateListViewSetting } from '../repositories/SettingsRepository';
+import { PlayerRepository } from '../repositories/PlayerRepository';
+import { AchievementRepository } from '../repositories/AchievementRepository';
+import { TargetTemplateRepository } from '../repositories/TargetTemplateRepository';
+import { PhotoService } from '../services/photos';
+import { ExportService } from '../services/export';
+import { BackupFile, BackupListing, ImportService } from '../services/import';
+import { LocationProvider, NativeLocationProvider } from '../services/location';
+import { stateLocator } from '../utils/StateLocator';
+import { calculatePlayerScores } from '../utils/scoreboard';
+import { ScoringEngine } from '../utils/ScoringEngine';
+import { achievementEngine } from '../utils/AchievementEngine';
+import { calculatePersonalRecords } from '../utils/records';
+import { buildTripSummary } from '../utils/tripSummary';
+import { parseStateListView } from '../utils/stateListView';
 
 export interface GameContextType {
   currentGame: Game | null;
   spottedStates: SpottedState[];
+  sightings: Sighting[];
+  sightingCounts: Record<string, number>;
+  photos: Photo[];
+  players: Player[];
+  playerScores: PlayerScore[];
+  scoringEngine: ScoringEngine;
+  gameScore: GameScore;
+  locationCaptureEnabled: boolean;
+  currentLocationState: StateInfo | null;
+  achievementUnlocks: AchievementUnlock[];
+  newAchievements: Achievement[];
   allGames: Game[];
   isLoading: boolean;
   error: string | null;
-  createGame: (name: string) => Promise<void>;
-  toggleState: (stateCode: string) => Promise<void>;
+  createGame: (name: string, options?: CreateGameOptions) => Promise<void>;
+  getTargetTemplates: () => Promise<TargetTemplate[]>;
+  saveTargetTemplate: (name: string, stateCodes: string[]) => Promise<TargetTemplate>;
+  deleteTargetTemplate: (templateId: string) => Promise<void>;
+  toggleState: (stateCode: string, playerId?: string) => Promise<void>;
+  recordSighting: (stateCode: string, playerId?: string) => Promise<void>;
+  removeSighting: (stateCode: string) => Promise<void>;
+  attachPhotos: (stateCode: string) => Promise<void>;
+  deletePhoto: (photoId: string) => Promise<void>;
+  getGamePhotos: (gameId: string) => Promise<Photo[]>;
+  getGameSpottedStates: (gameId: string) => Promise<SpottedState[]>;
+  getPhotoUri: (photo: Photo) => string;
+  getGameScores: (gameId: string) => Promise<GameScoreSummary>;
+  setLocationCaptureEnabled: (enabled: boolean) => Promise<void>;
+  getStateListView: (gameId: string) => Promise<StateListView>;
+  saveStateListView: (gameId: string, view: StateListView) => Promise<void>;
+  refreshCurrentLocation: () => Promise<void>;
   completeGame: () => Promise<void>;
+  dismissNewAchievements: () => void;
+  getPersonalRecords: () => Promise<PersonalRecords>;
+  getGameStatistics: () => Promise<GameStatistics>;
+  getTripSummary: (gameId: string) => Promise<TripSummary>;
+  exportGames: (format: ExportFormat, gameId?: string) => Promise<void>;
+  listBackups: () => Promise<BackupListing>;
+  pickBackup: () => Promise<BackupFile | null>;
+  previewBackup: (path: string) => Promise<BackupPreview>;
+  restoreBackup: (document: ExportDocument, mode: RestoreMode) => Promise<RestoreOutcome>;
   loadActiveGame: () => Promise<void>;
   loadAllGames: () => Promise<void>;
+  getGame: (gameId: string) => Promise<Game | null>;
   resumeGame: (gameId: string) => Promise<void>;
   deleteGame: (gameId: string) => Promise<void>;
 }
@@ -21,16 +100,80 @@ const GameContext = createContext<GameContextType | undefined>(undefined);
 
 interface GameProviderProps {
   children: ReactNode;
+  database?: DatabaseService;
+  photoService?: PhotoService;
+  locationProvider?: LocationProvider;
+  exportService?: ExportService;
+  importService?: ImportService;
 }
 
-export function GameProvider({ children }: GameProviderProps) {
+const LOCATION_CAPTURE_SETTING = 'locationCapture';
+
+export function GameProvider({
+  children,
+  database,
+  photoService: injectedPhotoService,
+  locationProvider: injectedLocationProvider,
+  exportService: injectedExportService,
+  importService: injectedImportService,
+}: GameProviderProps) {
   const [currentGame, setCurrentGame] = useState<Game | null>(null);
   const [spottedStates, setSpottedStates] = useState<SpottedState[]>([]);
+  const [sightings, setSightings] = useState<Sighting[]>([]);
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [scoringEngine, setScoringEngine] = useState(() => new ScoringEngine());
+  const [locationCaptureEnabled, setLocationCaptureState] = useState(true);
+  const [currentLocationState, setCurrentLocationState] = useState<StateInfo | null>(null);
+  const [achievementUnlocks, setAchievementUnlocks] = useState<AchievementUnlock[]>([]);
+  const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
   const [allGames, setAllGames] = useState<Game[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const db = DatabaseService.getInstance();
+  const db = database || DatabaseService.getInstance();
+  const gameRepository = useMemo(() => new GameRepository(db), [db]);
+  const spottedStateRepository = useMemo(() => new SpottedStateRepository(db), [db]);
+  const sightingRepository = useMemo(() => new SightingRepository(db), [db]);
+  const photoRepository = useMemo(() => new PhotoRepository(db), [db]);
+  const photoService = useMemo(
+    () => injectedPhotoService || new PhotoService(),
+    [injectedPhotoService],
+  );
+  const settingsRepository = useMemo(() => new SettingsRepository(db), [db]);
+  const playerRepository = useMemo(() => new PlayerRepository(db), [db]);
+  const achievementRepository = useMemo(() => new AchievementRepository(db), [db]);
+  const targetTemplateRepository = useMemo(() => new TargetTemplateRepository(db), [db]);
+  const exportService = useMemo(
+    () => injectedExportService || new ExportService(db),
+    [injectedExportService, db],
+  );
+  const importService = useMemo(
+    () => injectedImportService || new ImportService(db),
+    [injectedImportService, db],
+  );
+  const locationProvider = useMemo(
+    () => injectedLocationProvider || new NativeLocationProvider(),
+    [injectedLocationProvider],
+  );
+
+  const sightingCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    sightings.forEach(sighting => {
+      counts[sighting.stateCode] = (counts[sighting.stateCode] || 0) + 1;
+    });
+    return counts;
+  }, [sightings]);
+
+  const gameScore = useMemo(
+    () => scoringEngine.scoreStates(spottedStates.map(state => state.stateCode), currentGame),
+    [scoringEngine, spottedStates, currentGame],
+  );
+
+  const playerScores = useMemo(
+    () => calculatePlayerScores(players, spottedStates, sightings, scoringEngine, currentGame),
+    [players, spottedStates, sightings, scoringEngine, currentGame],
+  );
 
   useEffect(() => {
     initializeDatabase();
@@ -42,6 +185,9 @@ export function GameProvider({ children }: GameProviderProps) {
       setError(null);
       
       await db.initialize();
+      setLocationCaptureState(await settingsRepository.getBoolean(LOCATION_CAPTURE_SETTING, true));
+      await loadScoringEngine();
+      setAchievementUnlocks(await achievementRepository.getUnlockedAchievements());
       await loadAllGames();
       await loadActiveGame();
     } catch (err) {
@@ -52,16 +198,126 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   };
 
+  // Point values follow how often each state has turned up in past games
+  const loadScoringEngine = async () => {
+    try {
+      setScoringEngine(ScoringEngine.fromHistory(await spottedStateRepository.getGameStatistics()));
+    } catch (err) {
+      console.error('Failed to load scoring history:', err);
+    }
+  };
+
+  // Unlocks are stored as soon as they are earned; the UI announces newAchievements
+  const checkAchievements = async (game: Game, states: SpottedState[]) => {
+    try {
+      const earned = achievementEngine.evaluate(
+        game,
+        states,
+        achievementUnlocks.map(unlock => unlock.achievementId),
+      );
+      if (earned.length === 0) return;
+
+      const unlocks = await achievementRepository.unlockAchievements(
+        earned.map(achievement => achievement.id),
+        game.id,
+      );
+      setAchievementUnlocks(prev => [...prev, ...unlocks]);
+      setNewAchievements(prev => [...prev, ...earned]);
+    } catch (err) {
+      console.error('Failed to check achievements:', err);
+    }
+  };
+
+  const dismissNewAchievements = useCallback(() => {
+    setNewAchievements([]);
+  }, []);
+
+  const getPersonalRecords = useCallback(async (): Promise<PersonalRecords> => {
+    const [games, states] = await Promise.all([
+      gameRepository.getAllGames(),
+      spottedStateRepository.getAllSpottedStates(),
+    ]);
+    return calculatePersonalRecords(games, states);
+  }, [gameRepository, spottedStateRepository]);
+
+  const getGameStatistics = useCallback(
+    () => spottedStateRepository.getGameStatistics(),
+    [spottedStateRepository],
+  );
+
+  const getTripSummary = useCallback(
+    async (gameId: string): Promise<TripSummary> => {
+      const game = await gameRepository.getGameById(gameId);
+      if (!game) {
+        throw new Error(`Game ${gameId} not found`);
+      }
+      const [states, statistics] = await Promise.all([
+        spottedStateRepository.getSpottedStatesForGame(gameId),
+        spottedStateRepository.getGameStatistics(),
+      ]);
+      return buildTripSummary(game, states, statistics.stateSpottedCounts);
+    },
+    [gameRepository, spottedStateRepository],
+  );
+
+  // Exports one game, or the whole history when no id is given
+  const exportGames = useCallback(
+    async (format: ExportFormat, gameId?: string) => {
+      await exportService.exportGames(format, gameId);
+    },
+    [exportService],
+  );
+
+  const listBackups = useCallback(() => importService.listBackups(), [importService]);
+
+  const pickBackup = useCallback(() => importService.pickBackup(), [importService]);
+
+  const previewBackup = useCallback(
+    (path: string) => importService.previewBackup(path),
+    [importService],
+  );
+
+  // Throws only if the import itself fails, when nothing was changed. Once it
+  // has committed, failing to tidy up is reported in the outcome instead.
+  const restoreBackup = async (document: ExportDocument, mode: RestoreMode): Promise<RestoreOutcome> => {
+    let result: RestoreResult;
+    try {
+      setError(null);
+      result = await importService.restoreBackup(document, mode);
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      throw err;
+    }
+
+    try {
+      await photoService.deletePhotoFiles(result.removedPhotoFiles);
+      setAchievementUnlocks(await achievementRepository.getUnlockedAchievements());
+      await loadScoringEngine();
+      await loadAllGames();
+      await loadActiveGame();
+      return { ...result, cleanupFailed: false };
+    } catch (err) {
+      console.error('Failed to tidy up after restoring backup:', err);
+      return { ...result, cleanupFailed: true };
+    }
+  };
+
   const loadActiveGame = async () => {
     try {
-      const game = await db.getActiveGame();
+      const game = await gameRepository.getActiveGame();
       if (game) {
         setCurrentGame(game);
-        const states = await db.getSpottedStates(game.id);
+        const states = await spottedStateRepository.getSpottedStatesForGame(game.id);
         setSpottedStates(states);
+        setSightings(await sightingRepository.getSightingsForGame(game.id));
+        setPhotos(await photoRepository.getPhotosForGame(game.id));
+        setPlayers(await playerRepository.getPlayersForGame(game.id));
       } else {
         setCurrentGame(null);
         setSpottedStates([]);
+        setSightings([]);
+        setPhotos([]);
+        setPlayers([]);
       }
     } catch (err) {
       console.error('Failed to load active game:', err);
@@ -69,34 +325,81 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   };
 
-  const createGame = async (name: string) => {
+  const createGame = async (name: string, options: CreateGameOptions = {}) => {
     try {
       setError(null);
       
-      // Deactivate current game if exists
-      if (currentGame) {
-        await db.updateGame({ ...currentGame, isComplete: true });
-      }
-
-      const newGame: Omit<Game, 'id'> = {
-        name,
-        startDate: new Date().toISOString(),
-        startLocation: '',
-        destination: '',
-        isComplete: false,
-        createdAt: new Date().toISOString(),
-      };
-
-      const game = await db.createGame(newGame);
+      // Swap the active game atomically so we never end up with zero or two
+      const { game, gamePlayers } = await db.runInTransaction(async tx => {
+        const games = new GameRepository(tx);
+        await games.deactivateActiveGames();
+        const newGame = await games.createGame({
+          name,
+          startDate: options.startDate || new Date().toISOString(),
+          startLocation: options.startLocation || '',
+          destination: options.destination || '',
+          isComplete: false,
+          jurisdictionSets: options.jurisdictionSets,
+          targetName: options.targetName,
+          targetStateCodes: options.targetStateCodes,
+        });
+        return {
+          game: newGame,
+          gamePlayers: await new PlayerRepository(tx).addPlayers(newGame.id, options.players || []),
+        };
+      });
       setCurrentGame(game);
       setSpottedStates([]);
+      setSightings([]);
+      setPhotos([]);
+      setPlayers(gamePlayers);
     } catch (err) {
       console.error('Failed to create game:', err);
       setError('Failed to create game');
     }
   };
 
-  const toggleState = async (stateCode: string) => {
+  const getTargetTemplates = useCallback(
+    () => targetTemplateRepository.getTemplates(),
+    [targetTemplateRepository],
+  );
+
+  const saveTargetTemplate = useCallback(
+    (name: string, stateCodes: string[]) => targetTemplateRepository.saveTemplate(name, stateCodes),
+    [targetTemplateRepository],
+  );
+
+  const deleteTargetTemplate = useCallback(
+    (templateId: string) => targetTemplateRepository.deleteTemplate(templateId),
+    [targetTemplateRepository],
+  );
+
+  // Runs after the sighting is saved so a slow or missing fix never blocks a tap
+  const captureLocation = async (sightingId: string) => {
+    if (!locationCaptureEnabled) return;
+
+    try {
+      const location = await locationProvider.getCurrentLocation();
+      if (!location) return;
+
+      const locatedIn = stateLocator.findStateAt(location);
+      setCurrentLocationState(locatedIn);
+
+      await sightingRepository.setSightingLocation(sightingId, location, locatedIn?.code ?? null);
+      const coordinates = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        accuracy: location.accuracy ?? undefined,
+        currentStateCode: locatedIn?.code,
+      };
+      setSightings(prev => prev.map(s => (s.id === sightingId ? { ...s, ...coordinates } : s)));
+      setSpottedStates(prev => prev.map(s => (s.id === sightingId ? { ...s, ...coordinates } : s)));
+    } catch (err) {
+      console.error('Failed to capture location:', err);
+    }
+  };
+
+  const toggleState = async (stateCode: string, playerId?: string) => {
     if (!currentGame) return;
 
     try {
@@ -105,19 +408,33 @@ export function GameProvider({ children }: GameProviderProps) {
       const existingState = spottedStates.find(s => s.stateCode === stateCode);
       
       if (existingState) {
-        // Remove spotted state
-        await db.removeSpottedState(currentGame.id, stateCode);
+        // Remove spotted state; its photo rows go with its sightings
+        const photoFiles = await db.runInTransaction(async tx => {
+          const statePhotos = await new PhotoRepository(tx).getPhotosForState(currentGame.id, stateCode);
+          await new SpottedStateRepository(tx).removeSpottedState(currentGame.id, stateCode);
+          return statePhotos.map(photo => photo.filePath);
+        });
         setSpottedStates(prev => prev.filter(s => s.stateCode !== stateCode));
+        setSightings(prev => prev.filter(s => s.stateCode !== stateCode));
+        setPhotos(prev => prev.filter(photo => photo.stateCode !== stateCode));
+        await photoService.deletePhotoFiles(photoFiles);
       } else {
         // Add spotted state
-        const spottedState: Omit<SpottedState, 'id'> = {
-          gameId: currentGame.id,
+        const newSpottedState = await spottedStateRepository.addSpottedState(
+          currentGame.id,
           stateCode,
-          spottedAt: new Date().toISOString(),
-        };
-        
-        const newSpottedState = await db.addSpottedState(spottedState);
+          playerId,
+        );
         setSpottedStates(prev => [...prev, newSpottedState]);
+        setSightings(prev => [...prev, {
+          id: newSpottedState.id,
+          gameId: newSpottedState.gameId,
+          stateCode,
+          sightedAt: newSpottedState.spottedAt,
+          playerId,
+        }]);
+        captureLocation(newSpottedState.id);
+        await checkAchievements(currentGame, [...spottedStates, newSpottedState]);
       }
     } catch (err) {
       console.error('Failed to toggle state:', err);
@@ -125,6 +442,201 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   };
 
+  const recordSighting = async (stateCode: string, playerId?: string) => {
+    if (!currentGame) return;
+
+    try {
+      setError(null);
+
+      const sighting = await sightingRepository.recordSighting(currentGame.id, stateCode, playerId);
+      setSightings(prev => [...prev, sighting]);
+
+      // The first sighting of a state also marks it as spotted
+      captureLocation(sighting.id);
+      if (!spottedStates.some(s => s.stateCode === stateCode)) {
+        const newSpottedState: SpottedState = {
+          id: sighting.id,
+          gameId: sighting.gameId,
+          stateCode,
+          spottedAt: sighting.sightedAt,
+          playerId,
+        };
+        setSpottedStates(prev => [...prev, newSpottedState]);
+        await checkAchievements(currentGame, [...spottedStates, newSpottedState]);
+      }
+    } catch (err) {
+      console.error('Failed to record sighting:', err);
+      setError('Failed to record sighting');
+    }
+  };
+
+  const removeSighting = async (stateCode: string) => {
+    if (!currentGame) return;
+
+    try {
+      setError(null);
+
+      const removed = await db.runInTransaction(async tx => {
+        const sightingsInTx = new SightingRepository(tx);
+        const latest = await sightingsInTx.getLatestSighting(currentGame.id, stateCode);
+        if (!latest) {
+          return null;
+        }
+
+        const sightingPhotos = await new PhotoRepository(tx).getPhotosForSighting(latest.id);
+        await sightingsInTx.deleteSighting(latest.id);
+        return { sighting: latest, photoFiles: sightingPhotos.map(photo => photo.filePath) };
+      });
+      if (!removed) return;
+
+      const remaining = sightings.filter(s => s.id !== removed.sighting.id);
+      setSightings(remaining);
+      setPhotos(prev => prev.filter(photo => photo.sightingId !== removed.sighting.id));
+      await photoService.deletePhotoFiles(removed.photoFiles);
+
+      // Removing the last sighting un-spots the state
+      if (!remaining.some(s => s.stateCode === stateCode)) {
+        setSpottedStates(prev => prev.filter(s => s.stateCode !== stateCode));
+      }
+    } catch (err) {
+      console.error('Failed to remove sighting:', err);
+      setError('Failed to remove sighting');
+    }
+  };
+
+  const attachPhotos = async (stateCode: string) => {
+    if (!currentGame) return;
+
+    // Photos belong to the most recent sighting of the state
+    const sighting = [...sightings].reverse().find(s => s.stateCode === stateCode);
+    if (!sighting) return;
+
+    try {
+      setError(null);
+
+      const fileNames = await photoService.pickAndSavePhotos();
+      if (fileNames.length === 0) return;
+
+      try {
+        const newPhotos = await photoRepository.runInTransaction(async repository => {
+          const added: Photo[] = [];
+          for (const fileName of fileNames) {
+            added.push(await repository.addPhoto(sighting, fileName));
+          }
+          return added;
+        });
+        setPhotos(prev => [...prev, ...newPhotos]);
+      } catch (err) {
+        await photoService.deletePhotoFiles(fileNames);
+        throw err;
+      }
+    } catch (err) {
+      console.error('Failed to attach photos:', err);
+      setError('Failed to attach photos');
+    }
+  };
+
+  const deletePhoto = async (photoId: string) => {
+    const photo = photos.find(p => p.id === photoId);
+    if (!photo) return;
+
+    try {
+      setError(null);
+
+      await photoRepository.deletePhoto(photoId);
+      setPhotos(prev => prev.filter(p => p.id !== photoId));
+      await photoService.deletePhotoFiles([photo.filePath]);
+    } catch (err) {
+      console.error('Failed to delete photo:', err);
+      setError('Failed to delete photo');
+    }
+  };
+
+  // Stable identity so screens can load photos from effects
+  const getGamePhotos = useCallback(async (gameId: string) => {
+    try {
+      return await photoRepository.getPhotosForGame(gameId);
+    } catch (err) {
+      console.error('Failed to load photos:', err);
+      return [];
+    }
+  }, [photoRepository]);
+
+  const getGameSpottedStates = useCallback(async (gameId: string) => {
+    try {
+      return await spottedStateRepository.getSpottedStatesForGame(gameId);
+    } catch (err) {
+      console.error('Failed to load spotted states:', err);
+      return [];
+    }
+  }, [spottedStateRepository]);
+
+  const getPhotoUri = (photo: Photo) => photoService.getPhotoUri(photo.filePath);
+
+  // Completed games report the scores they were frozen with
+  const getGameScores = useCallback(async (gameId: string): Promise<GameScoreSummary> => {
+    try {
+      const [game, gamePlayers, states, gameSightings] = await Promise.all([
+        gameRepository.getGameById(gameId),
+        playerRepository.getPlayersForGame(gameId),
+        spottedStateRepository.getSpottedStatesForGame(gameId),
+        sightingRepository.getSightingsForGame(gameId),
+      ]);
+      const liveScore = scoringEngine.scoreStates(states.map(state => state.stateCode), game);
+      const scores = calculatePlayerScores(gamePlayers, states, gameSightings, scoringEngine, game);
+      return {
+        gameScore: { ...liveScore, total: game?.finalScore ?? liveScore.total },
+        playerScores: scores.map(score => ({
+          ...score,
+          points: score.player.finalPoints ?? score.points,
+        })),
+      };
+    } catch (err) {
+      console.error('Failed to load game scores:', err);
+      return { gameScore: scoringEngine.scoreStates([]), playerScores: [] };
+    }
+  }, [gameRepository, playerRepository, spottedStateRepository, sightingRepository, scoringEngine]);
+
+  const setLocationCaptureEnabled = async (enabled: boolean) => {
+    try {
+      setError(null);
+
+      await settingsRepository.setBoolean(LOCATION_CAPTURE_SETTING, enabled);
+      setLocationCaptureState(enabled);
+      if (!enabled) {
+        setCurrentLocationState(null);
+      }
+    } catch (err) {
+      console.error('Failed to update location setting:', err);
+      setError('Failed to update location setting');
+    }
+  };
+
+  const getStateListView = useCallback(
+    async (gameId: string) => parseStateListView(await settingsRepository.getValue(stateListViewSetting(gameId))),
+    [settingsRepository],
+  );
+
+  const saveStateListView = useCallback(
+    (gameId: string, view: StateListView) =>
+      settingsRepository.setValue(stateListViewSetting(gameId), JSON.stringify(view)),
+    [settingsRepository],
+  );
+
+  // Works offline: the lookup runs against the bundled state boundaries
+  const refreshCurrentLocation = useCallback(async () => {
+    if (!locationCaptureEnabled) return;
+
+    try {
+      const location = await locationProvider.getCurrentLocation();
+      if (!location) return;
+
+      setCurrentLocationState(stateLocator.findStateAt(location));
+    } catch (err) {
+      console.error('Failed to look up current state:', err);
+    }
+  }, [locationCaptureEnabled, locationProvider]);
+
   const completeGame = async () => {
     if (!currentGame) return;
 
@@ -135,11 +647,31 @@ export function GameProvider({ children }: GameProviderProps) {
         ...currentGame,
         endDate: new Date().toISOString(),
         isComplete: true,
+        finalScore: gameScore.total,
       };
 
-      await db.updateGame(completedGame);
+      // Freeze the scores so later games can't re-rate this one
+      await db.runInTransaction(async tx => {
+        await new GameRepository(tx).updateGame(currentGame.id, {
+          endDate: completedGame.endDate,
+          isComplete: true,
+          finalScore: completedGame.finalScore,
+        });
+        const playersInTx = new PlayerRepository(tx);
+        for (const score of playerScores) {
+          await playersInTx.setFinalPoints(score.player.id, score.points);
+        }
+      });
       setCurrentGame(completedGame);
+      setPlayers(prev =>
+        prev.map(player => ({
+          ...player,
+          finalPoints: playerScores.find(score => score.player.id === player.id)?.points,
+        })),
+      );
       await loadAllGames(); // Refresh the games list
+      await loadScoringEngine();
+      await checkAchievements(completedGame, spottedStates);
     } catch (err) {
       console.error('Failed to complete game:', err);
       setError('Failed to complete game');
@@ -148,7 +680,7 @@ export function GameProvider({ children }: GameProviderProps) {
 
   const loadAllGames = async () => {
     try {
-      const games = await db.getAllGames();
+      const games = await gameRepository.getAllGames();
       setAllGames(games);
     } catch (err) {
       console.error('Failed to load all games:', err);
@@ -156,29 +688,48 @@ export function GameProvider({ children }: GameProviderProps) {
     }
   };
 
+  const getGame = useCallback((gameId: string) => gameRepository.getGameById(gameId), [gameRepository]);
+
   const resumeGame = async (gameId: string) => {
     try {
       setError(null);
       
-      // Deactivate current game if exists
-      if (currentGame) {
-        await db.updateGame({ ...currentGame, isComplete: true });
-      }
+      const {
+        resumedGame,
+        states,
+        gameSightings,
+        gamePhotos,
+        gamePlayers,
+      } = await db.runInTransaction(async tx => {
+        const games = new GameRepository(tx);
 
-      // Find the game to resume
-      const gameToResume = allGames.find(game => game.id === gameId);
-      if (!gameToResume) {
-        throw new Error('Game not found');
-      }
+        // Find the game to resume
+        const gameToResume = await games.getGameById(gameId);
+        if (!gameToResume) {
+          throw new Error('Game not found');
+        }
 
-      // Activate the selected game
-      const resumedGame = { ...gameToResume, isComplete: false };
-      await db.updateGame(resumedGame);
+        // Deactivate current game and activate the selected one. Its frozen
+        // scores go with it, or a resumed game would keep showing them.
+        await games.deactivateActiveGames();
+        await games.reopenGame(gameId);
+        await new PlayerRepository(tx).clearFinalPoints(gameId);
+
+        return {
+          resumedGame: { ...gameToResume, isComplete: false, endDate: undefined, finalScore: undefined },
+          states: await new SpottedStateRepository(tx).getSpottedStatesForGame(gameId),
+          gameSightings: await new SightingRepository(tx).getSightingsForGame(gameId),
+          gamePhotos: await new PhotoRepository(tx).getPhotosForGame(gameId),
+          gamePlayers: await new PlayerRepository(tx).getPlayersForGame(gameId),
+        };
+      });
       
       // Load the game and its states
       setCurrentGame(resumedGame);
-      const states = await db.getSpottedStates(gameId);
       setSpottedStates(states);
+      setSightings(gameSightings);
+      setPhotos(gamePhotos);
+      setPlayers(gamePlayers);
       
       await loadAllGames(); // Refresh the games list
     } catch (err) {
@@ -191,12 +742,21 @@ export function GameProvider({ children }: GameProviderProps) {
     try {
       setError(null);
       
-      await db.deleteGame(gameId);
+      const photoFiles = await db.runInTransaction(async tx => {
+        const gamePhotos = await new PhotoRepository(tx).getPhotosForGame(gameId);
+        await new GameRepository(tx).deleteGame(gameId);
+        await new SettingsRepository(tx).deleteValue(stateListViewSetting(gameId));
+        return gamePhotos.map(photo => photo.filePath);
+      });
+      await photoService.deletePhotoFiles(photoFiles);
       
       // If we're deleting the current game, clear it
       if (currentGame && currentGame.id === gameId) {
         setCurrentGame(null);
         setSpottedStates([]);
+        setSightings([]);
+        setPhotos([]);
+        setPlayers([]);
       }
       
       await loadAllGames(); // Refresh the games list
@@ -209,14 +769,50 @@ export function GameProvider({ children }: GameProviderProps) {
   const value: GameContextType = {
     currentGame,
     spottedStates,
+    sightings,
+    sightingCounts,
+    photos,
+    players,
+    playerScores,
+    scoringEngine,
+    gameScore,
+    locationCaptureEnabled,
+    currentLocationState,
+    achievementUnlocks,
+    newAchievements,
     allGames,
     isLoading,
     error,
     createGame,
+    getTargetTemplates,
+    saveTargetTemplate,
+    deleteTargetTemplate,
     toggleState,
+    recordSighting,
+    removeSighting,
+    attachPhotos,
+    deletePhoto,
+    getGamePhotos,
+    getGameSpottedStates,
+    getPhotoUri,
+    getGameScores,
+    setLocationCaptureEnabled,
+    getStateListView,
+    saveStateListView,
+    refreshCurrentLocation,
     completeGame,
+    dismissNewAchievements,
+    getPersonalRecords,
+    getGameStatistics,
+    getTripSummary,
+    exportGames,
+    listBackups,
+    pickBackup,
+    previewBackup,
+    restoreBackup,
     loadActiveGame,
     loadAllGames,
+    getGame,
     resumeGame,
     deleteGame,
   };
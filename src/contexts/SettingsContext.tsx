@@ -0,0 +1,79 @@
+import React, { createContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
+import { UserSettings } from '../models/types';
+import DatabaseService from '../services/DatabaseService';
+import { DEFAULT_USER_SETTINGS, SettingsRepository } from '../repositories/SettingsRepository';
+
+export interface SettingsContextType {
+  settings: UserSettings;
+  updateSettings: (changes: Partial<UserSettings>) => Promise<void>;
+}
+
+export const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+interface SettingsProviderProps {
+  children: ReactNode;
+  database?: DatabaseService;
+}
+
+/**
+ * Loads the user's settings before rendering its children, so no screen ever
+ * draws with the defaults and then flips to the stored values.
+ */
+export function SettingsProvider({ children, database }: SettingsProviderProps) {
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const db = database || DatabaseService.getInstance();
+  const settingsRepository = useMemo(() => new SettingsRepository(db), [db]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadSettings = async () => {
+      try {
+        await db.initialize();
+        const storedSettings = await settingsRepository.getSettings();
+        if (!cancelled) {
+          setSettings(storedSettings);
+        }
+      } catch (err) {
+        // Fall back to the defaults rather than blocking the app
+        console.error('Failed to load settings:', err);
+      } finally {
+        if (!cancelled) {
+          setIsLoaded(true);
+        }
+      }
+    };
+    loadSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [db, settingsRepository]);
+
+  const updateSettings = useCallback(
+    async (changes: Partial<UserSettings>) => {
+      const previous = settings;
+      setSettings({ ...settings, ...changes });
+      try {
+        setSettings(await settingsRepository.updateSettings(changes));
+      } catch (err) {
+        console.error('Failed to save settings:', err);
+        setSettings(previous);
+        throw err;
+      }
+    },
+    [settings, settingsRepository],
+  );
+
+  const value = useMemo(() => ({ settings, updateSettings }), [settings, updateSettings]);
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
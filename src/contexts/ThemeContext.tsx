@@ -0,0 +1,34 @@
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { useColorScheme } from 'react-native';
+import { useSettings } from '../hooks';
+import { resolveTheme, Theme, ThemeColors, THEMES } from '../utils/theme';
+
+const ThemeContext = createContext<Theme>(THEMES.light);
+
+/**
+ * Provides the theme picked in settings, following the system appearance
+ * until the user chooses one. Must be used within a SettingsProvider.
+ */
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const { settings } = useSettings();
+  const systemScheme = useColorScheme();
+  const theme = useMemo(() => resolveTheme(settings.theme, systemScheme), [settings.theme, systemScheme]);
+
+  return (
+    <ThemeContext.Provider value={theme}>
+      {children}
+    </ThemeContext.Provider>
+  );
+}
+
+export function useTheme() {
+  return useContext(ThemeContext);
+}
+
+/**
+ * Build a component's styles from the active palette, once per theme change
+ */
+export function useThemedStyles<T>(createStyles: (colors: ThemeColors) => T): T {
+  const { colors } = useTheme();
+  return useMemo(() => createStyles(colors), [createStyles, colors]);
+}
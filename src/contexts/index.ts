@@ -2,4 +2,7 @@ export {
   GameProvider, 
   useGame 
 } from './GameContext';
-export type { GameContextType } from './GameContext';
\ No newline at end of file
+export type { GameContextType } from './GameContext';
+export { SettingsProvider } from './SettingsContext';
+export type { SettingsContextType } from './SettingsContext';
+export { ThemeProvider, useTheme, useThemedStyles } from './ThemeContext';
\ No newline at end of file
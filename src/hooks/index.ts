@@ -1,2 +1,14 @@
-// Hooks are now integrated into GameContext
-// This file is kept for future hook exports if needed
\ No newline at end of file
+import { useContext } from 'react';
+import { SettingsContext } from '../contexts/SettingsContext';
+
+/**
+ * The user's settings and a setter that persists changes.
+ * Must be used within a SettingsProvider.
+ */
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
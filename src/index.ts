@@ -5,30 +5,80 @@
 
 // Contexts
 export { GameProvider, useGame } from './contexts';
-export type { GameContextType } from './contexts';
+export { SettingsProvider, ThemeProvider, useTheme } from './contexts';
+export type { GameContextType, SettingsContextType } from './contexts';
+
+// Hooks
+export { useSettings } from './hooks';
 
 // Models
 export type { 
   Game, 
   SpottedState, 
+  Player,
+  PlayerScore,
+  GameScore,
+  Achievement,
+  AchievementUnlock,
+  PersonalRecords,
+  GameStatistics,
   UserSettings, 
+  ThemePreference,
+  ExportDocument,
+  ExportFormat,
+  TripSummary,
   GameProgress, 
-  StateInfo 
+  StateInfo,
+  JurisdictionSet,
+  Country,
+  TargetTemplate,
+  StateListView
 } from './models/types';
 
 // Utils
-export { stateListManager } from './utils/StateListManager';
+export { stateListManager, jurisdictionCatalog, getStateListManager, getGameStateList } from './utils/StateListManager';
 export type { StateListManager, StateStatistics } from './utils/StateListManager';
-export { StateRegion } from './utils/StateListManager';
+export { StateRegion, REGION_NAMES } from './utils/StateListManager';
+export { JURISDICTIONS, JURISDICTION_SETS, DEFAULT_JURISDICTION_SETS } from './utils/jurisdictions';
+export type { Jurisdiction, JurisdictionSetInfo } from './utils/jurisdictions';
+export { getLower48Target, getRegionTarget, getTemplateTarget, LOWER_48_NAME } from './utils/gameTargets';
+export type { GameTarget } from './utils/gameTargets';
+export { buildStateSections, DEFAULT_STATE_LIST_VIEW } from './utils/stateListView';
+export type { StateSection } from './utils/stateListView';
+export { US_MAP_SHAPES, US_MAP_SIZE, isOnUsMap } from './utils/usMap';
+export type { MapShape } from './utils/usMap';
+export { StateSearchIndex } from './utils/stateSearch';
+export type { StateSearchMatch } from './utils/stateSearch';
+export { stateLocator } from './utils/StateLocator';
+export type { StateLocator } from './utils/StateLocator';
+export { scoringEngine, ScoringEngine, RarityTier } from './utils/ScoringEngine';
+export { achievementEngine, AchievementEngine } from './utils/AchievementEngine';
+export { buildTripSummary, formatTripSummary } from './utils/tripSummary';
+export { THEMES, resolveTheme } from './utils/theme';
+export type { Theme, ThemeColors } from './utils/theme';
 export { US_STATES, COLORS, SPACING, APP_CONFIG, DATABASE_CONFIG } from './utils/constants';
 
+// Navigation
+export { RootNavigator, buildGameLink, parseDeepLink } from './navigation';
+export type { DeepLink, RootStackParamList, RootStackScreenProps } from './navigation';
+
 // Database
 export { default as DatabaseService } from './services/DatabaseService';
 
+// Export
+export { ExportService, EXPORT_FORMAT_VERSION } from './services/export';
+export { ImportService, parseBackup } from './services/import';
+
 // Screens
 export { 
   MainMenuScreen, 
   CreateGameScreen, 
   ActiveGameScreen, 
-  GameHistoryScreen 
+  GameHistoryScreen,
+  AchievementsScreen,
+  StatisticsScreen,
+  SettingsScreen,
+  OnboardingScreen,
+  RestoreBackupScreen,
+  TripSummaryScreen
 } from './screens';
\ No newline at end of file
@@ -3,6 +3,11 @@
  * This extends the main tsconfig.json with additional paths and settings
  */
 
+// Groups of plate-issuing jurisdictions a game can track
+export type JurisdictionSet = 'us-states' | 'dc' | 'us-territories' | 'canada' | 'mexico';
+
+export type Country = 'US' | 'CA' | 'MX';
+
 export interface Game {
   id: string;
   name: string;
@@ -12,18 +17,220 @@ export interface Game {
   destination: string;
   isComplete: boolean;
   createdAt: string;
+  finalScore?: number; // Points the game ended with
+  jurisdictionSets?: JurisdictionSet[]; // Chosen at creation; the 50 states if unset
+  targetName?: string; // e.g. 'Lower 48', a region or a template's name
+  targetStateCodes?: string[]; // States the game is played for; every state in its sets if unset
+}
+
+export type CreateGameOptions = Partial<
+  Pick<Game, 'startDate' | 'startLocation' | 'destination' | 'jurisdictionSets' | 'targetName' | 'targetStateCodes'>
+> & {
+  players?: string[]; // Player names in seating order
+};
+
+// A hand-picked target list saved for reuse
+export interface TargetTemplate {
+  id: string;
+  name: string;
+  stateCodes: string[];
+  createdAt: string;
+}
+
+export interface Player {
+  id: string;
+  gameId: string;
+  name: string;
+  position: number; // Order players were added in
+  finalPoints?: number; // Points the player ended the game with
+}
+
+export interface PlayerScore {
+  player: Player;
+  statesSpotted: number; // States this player saw first
+  sightings: number; // Every plate this player called, repeats included
+  points: number; // Score of the states this player saw first
+}
+
+export interface ScoreBonus {
+  id: string;
+  label: string;
+  multiplier: number;
+}
+
+export interface GameScore {
+  basePoints: number; // Sum of each spotted state's points
+  bonuses: ScoreBonus[];
+  multiplier: number; // Product of every bonus multiplier
+  total: number;
+}
+
+export interface GameScoreSummary {
+  gameScore: GameScore;
+  playerScores: PlayerScore[];
 }
 
 export interface SpottedState {
   id: string;
   gameId: string;
-  stateCode: string; // Two-letter state code (e.g., 'CA')
+  stateCode: string; // Jurisdiction code (e.g., 'CA', 'ON', 'JAL')
   spottedAt: string; // ISO timestamp
+  photoPath?: string; // First photo attached to the state, if any
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number; // Meters
+  currentStateCode?: string; // State the player was in when spotting it
+  playerId?: string; // Who saw it first
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null; // Meters
+}
+
+export interface Sighting {
+  id: string;
+  gameId: string;
+  stateCode: string;
+  sightedAt: string; // ISO timestamp
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number; // Meters
+  currentStateCode?: string; // State the player was in when sighting it
+  playerId?: string; // Who called it
+}
+
+export interface Photo {
+  id: string;
+  sightingId: string;
+  gameId: string;
+  stateCode: string;
+  filePath: string; // File name inside the app's photo directory
+  createdAt: string;
+}
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+}
+
+export interface AchievementUnlock {
+  achievementId: string;
+  gameId?: string; // Game that earned it; cleared if the game is deleted
+  unlockedAt: string; // ISO timestamp
 }
 
+export interface GameRecord {
+  gameId: string;
+  gameName: string;
+  value: number;
+  date?: string; // Day the record was set, for per-day records
+}
+
+export interface PersonalRecords {
+  fastestCompletion: GameRecord | null; // Milliseconds from start to the last state
+  mostStatesInADay: GameRecord | null;
+  mostStatesInAGame: GameRecord | null;
+}
+
+export interface StateCount {
+  stateCode: string;
+  count: number;
+}
+
+export interface RegionCompletion {
+  region: string;
+  name: string;
+  spotted: number; // Spottings of the region's states, summed over every game
+  total: number; // Region size times the number of games
+  percentage: number;
+}
+
+export interface GameStatistics {
+  totalGames: number;
+  completedGames: number;
+  totalStatesSpotted: number;
+  totalSightings: number;
+  uniqueStatesSpotted: number; // Distinct target states ever seen, across all games
+  trackedStateCodes: string[]; // Every state some game has targeted
+  bestCompletionPercentage: number;
+  averageCompletionTime: number | null; // Milliseconds from start to end of completed games
+  mostSpottedStates: StateCount[];
+  rarestStates: StateCount[];
+  stateSpottedCounts: Record<string, number>; // Games each state was spotted in
+  regionCompletion: RegionCompletion[];
+}
+
+export interface SummaryState {
+  stateCode: string;
+  name: string;
+  spottedAt: string; // ISO timestamp
+}
+
+export interface TripSummary {
+  gameName: string;
+  startDate: string;
+  endDate?: string;
+  found: number;
+  total: number;
+  percentage: number;
+  duration: number | null; // Milliseconds from the start to the end, or to the latest new state
+  firstState: SummaryState | null;
+  lastState: SummaryState | null;
+  rarestFind: SummaryState | null; // Spotted state seen in the fewest games overall
+}
+
+export type ExportFormat = 'json' | 'csv';
+
+export interface ExportedGame extends Game {
+  players: Player[];
+  spottedStates: SpottedState[];
+  sightings: Sighting[];
+  photos: Photo[]; // Metadata only; image files stay on the device
+}
+
+/**
+ * Versioned JSON backup of one game or the whole history.
+ * The format is documented in src/docs/EXPORT_FORMAT.md.
+ */
+export interface ExportDocument {
+  format: 'state-game-export';
+  formatVersion: number;
+  exportedAt: string; // ISO timestamp
+  app: { name: string; version: string };
+  games: ExportedGame[];
+  achievements: AchievementUnlock[];
+}
+
+// How games already on the device are handled when a backup contains them too
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupPreview {
+  document: ExportDocument;
+  sightingCount: number;
+  collisions: Game[]; // Games in the backup that are already on the device
+}
+
+export interface RestoreResult {
+  gamesAdded: number;
+  gamesMerged: number;
+  gamesReplaced: number;
+  removedPhotoFiles: string[]; // Photos of replaced games, to delete from storage
+}
+
+// A restore once the app has tidied up after it
+export interface RestoreOutcome extends RestoreResult {
+  cleanupFailed: boolean; // The backup is in, but old photos or the reload after it failed
+}
+
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+export type ThemePreference = 'system' | ThemeName;
+
 export interface UserSettings {
-  darkMode: boolean;
-  notifications: boolean;
+  theme: ThemePreference;
   tutorialCompleted: boolean;
 }
 
@@ -33,6 +240,18 @@ export interface GameProgress {
   percentage: number;
 }
 
+export type StateGrouping = 'none' | 'region' | 'letter';
+
+export type StateSortOrder = 'name' | 'code' | 'spotted' | 'spottedAt';
+
+// How a game's state list is laid out; remembered per game
+export interface StateListView {
+  groupBy: StateGrouping;
+  sortBy: StateSortOrder;
+  remainingOnly: boolean;
+  collapsedSections: string[]; // Keys of the sections folded away
+}
+
 export interface StateInfo {
   code: string;
   name: string;
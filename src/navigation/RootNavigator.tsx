@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { NavigationContainer, DarkTheme, DefaultTheme } from '@react-navigation/native';
+import { createStackNavigator } from '@react-navigation/stack';
+import { useSettings } from '../hooks';
+import { useTheme } from '../contexts/ThemeContext';
+import { MainMenuScreen } from '../screens/MainMenuScreen';
+import { OnboardingScreen } from '../screens/OnboardingScreen';
+import { CreateGameScreen } from '../screens/CreateGameScreen';
+import { ActiveGameScreen } from '../screens/ActiveGameScreen';
+import { GameHistoryScreen } from '../screens/GameHistoryScreen';
+import { AchievementsScreen } from '../screens/AchievementsScreen';
+import { StatisticsScreen } from '../screens/StatisticsScreen';
+import { SettingsScreen } from '../screens/SettingsScreen';
+import { RestoreBackupScreen } from '../screens/RestoreBackupScreen';
+import { TripSummaryScreen } from '../screens/TripSummaryScreen';
+import { RootStackParamList } from './types';
+import { linking } from './linking';
+
+const Stack = createStackNavigator<RootStackParamList>();
+
+/**
+ * The app's screens. Each screen draws its own header, so the stack only
+ * supplies transitions, swipe-back and the Android back button. App and
+ * universal links are routed through ./linking.
+ */
+export function RootNavigator() {
+  const { settings } = useSettings();
+  const theme = useTheme();
+
+  const navigationTheme = useMemo(() => {
+    const base = theme.name === 'dark' ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: theme.colors.primary,
+        background: theme.colors.background,
+        card: theme.colors.surface,
+        text: theme.colors.text,
+        border: theme.colors.border,
+      },
+    };
+  }, [theme]);
+
+  return (
+    <NavigationContainer theme={navigationTheme} linking={linking}>
+      <Stack.Navigator
+        initialRouteName={settings.tutorialCompleted ? 'MainMenu' : 'Onboarding'}
+        screenOptions={{ headerShown: false, gestureEnabled: true }}
+      >
+        <Stack.Screen name="Onboarding" component={OnboardingScreen} />
+        <Stack.Screen name="MainMenu" component={MainMenuScreen} />
+        <Stack.Screen name="CreateGame" component={CreateGameScreen} />
+        <Stack.Screen name="ActiveGame" component={ActiveGameScreen} />
+        <Stack.Screen name="GameHistory" component={GameHistoryScreen} />
+        <Stack.Screen name="TripSummary" component={TripSummaryScreen} />
+        <Stack.Screen name="Achievements" component={AchievementsScreen} />
+        <Stack.Screen name="Statistics" component={StatisticsScreen} />
+        <Stack.Screen name="Settings" component={SettingsScreen} />
+        <Stack.Screen name="RestoreBackup" component={RestoreBackupScreen} />
+      </Stack.Navigator>
+    </NavigationContainer>
+  );
+}
@@ -0,0 +1,4 @@
+export { RootNavigator } from './RootNavigator';
+export { buildGameLink, parseDeepLink, LINK_PREFIXES } from './linking';
+export type { DeepLink } from './linking';
+export type { RootStackParamList, RootStackScreenProps } from './types';
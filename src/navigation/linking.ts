@@ -0,0 +1,89 @@
+import { LinkingOptions } from '@react-navigation/native';
+import { jurisdictionCatalog } from '../utils/StateListManager';
+import { RootStackParamList } from './types';
+
+export const URL_SCHEME = 'stategame';
+
+// Universal links need apple-app-site-association and assetlinks.json served
+// from this host; see the associated domains entitlement and AndroidManifest.xml
+export const UNIVERSAL_LINK_HOST = 'stategame.app';
+
+export const LINK_PREFIXES = [`${URL_SCHEME}://`, `https://${UNIVERSAL_LINK_HOST}`];
+
+export interface DeepLink {
+  gameId: string;
+  stateCode?: string; // State to offer to mark as spotted
+}
+
+// Ids are generated as prefix_timestamp_random; anything else can't be ours
+const GAME_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Parse a link path such as "game/<id>" or "game/<id>/spot/TX".
+ * Returns null for anything that isn't a well-formed game link.
+ */
+export function parseDeepLinkPath(path: string): DeepLink | null {
+  const segments = path
+    .split(/[?#]/)[0]
+    .split('/')
+    .filter(segment => segment.length > 0)
+    .map(segment => {
+      try {
+        return decodeURIComponent(segment);
+      } catch (error) {
+        return '';
+      }
+    });
+
+  if (segments[0] !== 'game' || !GAME_ID_PATTERN.test(segments[1] ?? '')) {
+    return null;
+  }
+  const gameId = segments[1];
+
+  if (segments.length === 2) {
+    return { gameId };
+  }
+  if (segments.length === 4 && segments[2] === 'spot') {
+    const stateCode = segments[3].toUpperCase();
+    return jurisdictionCatalog.isValidStateCode(stateCode) ? { gameId, stateCode } : null;
+  }
+  return null;
+}
+
+/**
+ * Parse a full app or universal link; null if it isn't one of ours
+ */
+export function parseDeepLink(url: string): DeepLink | null {
+  const prefix = LINK_PREFIXES.find(candidate => url.toLowerCase().startsWith(candidate));
+  return prefix ? parseDeepLinkPath(url.slice(prefix.length)) : null;
+}
+
+/**
+ * Build a link that opens a game, optionally offering to mark a state
+ */
+export function buildGameLink(gameId: string, stateCode?: string, universal = false): string {
+  const prefix = universal ? `https://${UNIVERSAL_LINK_HOST}/` : `${URL_SCHEME}://`;
+  const path = `game/${encodeURIComponent(gameId)}`;
+  return stateCode ? `${prefix}${path}/spot/${stateCode}` : `${prefix}${path}`;
+}
+
+/**
+ * Deep link handling for the navigator. A valid link opens the game on top of
+ * the main menu, so back leads somewhere sensible; anything else is ignored.
+ * Whether the game exists is checked by the game screen once it opens.
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: LINK_PREFIXES,
+  getStateFromPath: path => {
+    const link = parseDeepLinkPath(path);
+    if (!link) {
+      return undefined;
+    }
+    return {
+      routes: [
+        { name: 'MainMenu' },
+        { name: 'ActiveGame', params: { gameId: link.gameId, spotStateCode: link.stateCode } },
+      ],
+    };
+  },
+};
@@ -0,0 +1,20 @@
+import { StackScreenProps } from '@react-navigation/stack';
+
+export type RootStackParamList = {
+  Onboarding: undefined;
+  MainMenu: undefined;
+  CreateGame: undefined;
+  // Offers to switch to gameId when it isn't the current game, then to mark spotStateCode
+  ActiveGame: { gameId?: string; spotStateCode?: string } | undefined;
+  GameHistory: undefined;
+  TripSummary: { gameId: string };
+  Achievements: undefined;
+  Statistics: undefined;
+  Settings: undefined;
+  RestoreBackup: undefined;
+};
+
+export type RootStackScreenProps<RouteName extends keyof RootStackParamList> = StackScreenProps<
+  RootStackParamList,
+  RouteName
+>;
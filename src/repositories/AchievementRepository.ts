@@ -0,0 +1,60 @@
+import DatabaseService from '../services/DatabaseService';
+import { AchievementUnlock } from '../models/types';
+
+export class AchievementRepository {
+  private dbService: DatabaseService;
+
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
+  }
+
+  /**
+   * Store achievement unlocks; ones already unlocked keep their original timestamp
+   */
+  public async unlockAchievements(
+    achievementIds: string[],
+    gameId?: string,
+    unlockedAt: string = new Date().toISOString()
+  ): Promise<AchievementUnlock[]> {
+    const sql = `
+      INSERT OR IGNORE INTO achievement_unlocks (achievement_id, game_id, unlocked_at)
+      VALUES (?, ?, ?)
+    `;
+
+    const unlocks: AchievementUnlock[] = [];
+    for (const achievementId of achievementIds) {
+      const result = await this.dbService.executeQuery(sql, [achievementId, gameId ?? null, unlockedAt]);
+      if (result.rowsAffected > 0) {
+        unlocks.push({ achievementId, gameId, unlockedAt });
+      }
+    }
+
+    return unlocks;
+  }
+
+  /**
+   * Get every unlocked achievement, oldest first
+   */
+  public async getUnlockedAchievements(): Promise<AchievementUnlock[]> {
+    const sql = 'SELECT * FROM achievement_unlocks ORDER BY unlocked_at ASC, rowid ASC';
+    const result = await this.dbService.executeQuery(sql);
+
+    const unlocks: AchievementUnlock[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      unlocks.push(this.mapRowToUnlock(result.rows.item(i)));
+    }
+
+    return unlocks;
+  }
+
+  /**
+   * Map database row to AchievementUnlock object
+   */
+  private mapRowToUnlock(row: any): AchievementUnlock {
+    return {
+      achievementId: row.achievement_id,
+      gameId: row.game_id ?? undefined,
+      unlockedAt: row.unlocked_at,
+    };
+  }
+}
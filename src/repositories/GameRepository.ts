@@ -1,11 +1,23 @@
 import DatabaseService from '../services/DatabaseService';
 import { Game } from '../models/types';
+import { normalizeJurisdictionSets } from '../utils/jurisdictions';
+
+// Game fields that may be updated, mapped to their column names
+const UPDATABLE_COLUMNS: Partial<Record<keyof Game, string>> = {
+  name: 'name',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  startLocation: 'start_location',
+  destination: 'destination',
+  isComplete: 'is_complete',
+  finalScore: 'final_score',
+};
 
 export class GameRepository {
   private dbService: DatabaseService;
 
-  constructor() {
-    this.dbService = DatabaseService.getInstance();
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
   }
 
   /**
@@ -14,16 +26,24 @@ export class GameRepository {
   public async createGame(gameData: Omit<Game, 'id' | 'createdAt'>): Promise<Game> {
     const id = this.generateId();
     const createdAt = new Date().toISOString();
+    const jurisdictionSets = normalizeJurisdictionSets(gameData.jurisdictionSets);
+    const targetStateCodes = gameData.targetStateCodes?.length ? [...gameData.targetStateCodes] : undefined;
     
     const game: Game = {
       id,
       createdAt,
       ...gameData,
+      jurisdictionSets,
+      targetName: targetStateCodes ? gameData.targetName : undefined,
+      targetStateCodes,
     };
 
     const sql = `
-      INSERT INTO games (id, name, startDate, endDate, startLocation, destination, isComplete, createdAt)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO games (
+        id, name, start_date, end_date, start_location, destination, is_complete, created_at, final_score,
+        jurisdiction_sets, target_name, target_state_codes
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -35,12 +55,44 @@ export class GameRepository {
       game.destination,
       game.isComplete ? 1 : 0,
       game.createdAt,
+      game.finalScore ?? null,
+      jurisdictionSets.join(','),
+      game.targetName ?? null,
+      targetStateCodes ? targetStateCodes.join(',') : null,
     ];
 
     await this.dbService.executeQuery(sql, params);
     return game;
   }
 
+  /**
+   * Insert a game from a backup, keeping its id
+   */
+  public async restoreGame(game: Game): Promise<void> {
+    const sql = `
+      INSERT INTO games (
+        id, name, start_date, end_date, start_location, destination, is_complete, created_at, final_score,
+        jurisdiction_sets, target_name, target_state_codes
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.dbService.executeQuery(sql, [
+      game.id,
+      game.name,
+      game.startDate,
+      game.endDate || null,
+      game.startLocation,
+      game.destination,
+      game.isComplete ? 1 : 0,
+      game.createdAt,
+      game.finalScore ?? null,
+      normalizeJurisdictionSets(game.jurisdictionSets).join(','),
+      game.targetStateCodes?.length ? game.targetName ?? null : null,
+      game.targetStateCodes?.length ? game.targetStateCodes.join(',') : null,
+    ]);
+  }
+
   /**
    * Get a game by ID
    */
@@ -59,7 +111,7 @@ export class GameRepository {
    * Get all games
    */
   public async getAllGames(): Promise<Game[]> {
-    const sql = 'SELECT * FROM games ORDER BY createdAt DESC';
+    const sql = 'SELECT * FROM games ORDER BY created_at DESC';
     const result = await this.dbService.executeQuery(sql);
 
     const games: Game[] = [];
@@ -74,13 +126,13 @@ export class GameRepository {
    * Update a game
    */
   public async updateGame(id: string, updates: Partial<Game>): Promise<void> {
-    const allowedFields = ['name', 'startDate', 'endDate', 'startLocation', 'destination', 'isComplete'];
     const updateFields: string[] = [];
     const params: any[] = [];
 
     for (const [key, value] of Object.entries(updates)) {
-      if (allowedFields.includes(key) && value !== undefined) {
-        updateFields.push(`${key} = ?`);
+      const column = UPDATABLE_COLUMNS[key as keyof Game];
+      if (column && value !== undefined) {
+        updateFields.push(`${column} = ?`);
         params.push(key === 'isComplete' ? (value ? 1 : 0) : value);
       }
     }
@@ -109,8 +161,8 @@ export class GameRepository {
   public async getActiveGame(): Promise<Game | null> {
     const sql = `
       SELECT * FROM games 
-      WHERE isComplete = 0 
-      ORDER BY createdAt DESC 
+      WHERE is_complete = 0 
+      ORDER BY created_at DESC 
       LIMIT 1
     `;
     const result = await this.dbService.executeQuery(sql);
@@ -126,7 +178,15 @@ export class GameRepository {
    * Mark a game as complete
    */
   public async markGameComplete(id: string): Promise<void> {
-    const sql = 'UPDATE games SET isComplete = 1 WHERE id = ?';
+    const sql = 'UPDATE games SET is_complete = 1 WHERE id = ?';
+    await this.dbService.executeQuery(sql, [id]);
+  }
+
+  /**
+   * Make a finished game active again, dropping the end date and score it was finished with
+   */
+  public async reopenGame(id: string): Promise<void> {
+    const sql = 'UPDATE games SET is_complete = 0, end_date = NULL, final_score = NULL WHERE id = ?';
     await this.dbService.executeQuery(sql, [id]);
   }
 
@@ -134,7 +194,7 @@ export class GameRepository {
    * Get games by completion status
    */
   public async getGamesByStatus(isComplete: boolean): Promise<Game[]> {
-    const sql = 'SELECT * FROM games WHERE isComplete = ? ORDER BY createdAt DESC';
+    const sql = 'SELECT * FROM games WHERE is_complete = ? ORDER BY created_at DESC';
     const result = await this.dbService.executeQuery(sql, [isComplete ? 1 : 0]);
 
     const games: Game[] = [];
@@ -145,6 +205,21 @@ export class GameRepository {
     return games;
   }
 
+  /**
+   * Deactivate every active game so another one can take its place
+   */
+  public async deactivateActiveGames(): Promise<void> {
+    const sql = 'UPDATE games SET is_complete = 1 WHERE is_complete = 0';
+    await this.dbService.executeQuery(sql);
+  }
+
+  /**
+   * Run work against a transaction-scoped repository; it commits only if the work resolves
+   */
+  public runInTransaction<T>(work: (repository: GameRepository) => Promise<T>): Promise<T> {
+    return this.dbService.runInTransaction(tx => work(new GameRepository(tx)));
+  }
+
   /**
    * Map database row to Game object
    */
@@ -152,12 +227,16 @@ export class GameRepository {
     return {
       id: row.id,
       name: row.name,
-      startDate: row.startDate,
-      endDate: row.endDate,
-      startLocation: row.startLocation,
+      startDate: row.start_date,
+      endDate: row.end_date ?? undefined,
+      startLocation: row.start_location,
       destination: row.destination,
-      isComplete: Boolean(row.isComplete),
-      createdAt: row.createdAt,
+      isComplete: Boolean(row.is_complete),
+      createdAt: row.created_at,
+      finalScore: row.final_score ?? undefined,
+      jurisdictionSets: normalizeJurisdictionSets(String(row.jurisdiction_sets ?? '').split(',')),
+      targetName: row.target_name ?? undefined,
+      targetStateCodes: row.target_state_codes ? row.target_state_codes.split(',') : undefined,
     };
   }
 
@@ -0,0 +1,124 @@
+import DatabaseService from '../services/DatabaseService';
+import { Photo, Sighting } from '../models/types';
+
+const PHOTO_COLUMNS = `
+  p.id, p.sighting_id, p.file_path, p.created_at, s.game_id, s.state_code
+`;
+
+export class PhotoRepository {
+  private dbService: DatabaseService;
+
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
+  }
+
+  /**
+   * Attach a stored photo file to a sighting
+   */
+  public async addPhoto(sighting: Sighting, filePath: string): Promise<Photo> {
+    const photo: Photo = {
+      id: this.generateId(),
+      sightingId: sighting.id,
+      gameId: sighting.gameId,
+      stateCode: sighting.stateCode,
+      filePath,
+      createdAt: new Date().toISOString(),
+    };
+
+    const sql = `
+      INSERT INTO photos (id, sighting_id, file_path, created_at)
+      VALUES (?, ?, ?, ?)
+    `;
+
+    await this.dbService.executeQuery(sql, [photo.id, sighting.id, filePath, photo.createdAt]);
+    return photo;
+  }
+
+  /**
+   * Get all photos for a game
+   */
+  public async getPhotosForGame(gameId: string): Promise<Photo[]> {
+    const sql = `
+      SELECT ${PHOTO_COLUMNS}
+      FROM photos p
+      JOIN sightings s ON s.id = p.sighting_id
+      WHERE s.game_id = ?
+      ORDER BY p.created_at ASC
+    `;
+    return this.queryPhotos(sql, [gameId]);
+  }
+
+  /**
+   * Get all photos of a state in a game, across its sightings
+   */
+  public async getPhotosForState(gameId: string, stateCode: string): Promise<Photo[]> {
+    const sql = `
+      SELECT ${PHOTO_COLUMNS}
+      FROM photos p
+      JOIN sightings s ON s.id = p.sighting_id
+      WHERE s.game_id = ? AND s.state_code = ?
+      ORDER BY p.created_at ASC
+    `;
+    return this.queryPhotos(sql, [gameId, stateCode]);
+  }
+
+  /**
+   * Get the photos attached to one sighting
+   */
+  public async getPhotosForSighting(sightingId: string): Promise<Photo[]> {
+    const sql = `
+      SELECT ${PHOTO_COLUMNS}
+      FROM photos p
+      JOIN sightings s ON s.id = p.sighting_id
+      WHERE p.sighting_id = ?
+      ORDER BY p.created_at ASC
+    `;
+    return this.queryPhotos(sql, [sightingId]);
+  }
+
+  /**
+   * Delete a photo row (the caller removes the file)
+   */
+  public async deletePhoto(id: string): Promise<void> {
+    await this.dbService.executeQuery('DELETE FROM photos WHERE id = ?', [id]);
+  }
+
+  /**
+   * Run work against a transaction-scoped repository; it commits only if the work resolves
+   */
+  public runInTransaction<T>(work: (repository: PhotoRepository) => Promise<T>): Promise<T> {
+    return this.dbService.runInTransaction(tx => work(new PhotoRepository(tx)));
+  }
+
+  private async queryPhotos(sql: string, params: any[]): Promise<Photo[]> {
+    const result = await this.dbService.executeQuery(sql, params);
+
+    const photos: Photo[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      photos.push(this.mapRowToPhoto(result.rows.item(i)));
+    }
+
+    return photos;
+  }
+
+  /**
+   * Map database row to Photo object
+   */
+  private mapRowToPhoto(row: any): Photo {
+    return {
+      id: row.id,
+      sightingId: row.sighting_id,
+      gameId: row.game_id,
+      stateCode: row.state_code,
+      filePath: row.file_path,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Generate a unique ID
+   */
+  private generateId(): string {
+    return `photo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,99 @@
+import DatabaseService from '../services/DatabaseService';
+import { Player } from '../models/types';
+
+export class PlayerRepository {
+  private dbService: DatabaseService;
+
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
+  }
+
+  /**
+   * Add players to a game in the given order; blank names are skipped
+   */
+  public async addPlayers(gameId: string, names: string[]): Promise<Player[]> {
+    const existing = await this.getPlayersForGame(gameId);
+    const players: Player[] = names
+      .map(name => name.trim())
+      .filter(name => name.length > 0)
+      .map((name, index) => ({
+        id: this.generateId(),
+        gameId,
+        name,
+        position: existing.length + index,
+      }));
+
+    const sql = 'INSERT INTO players (id, game_id, name, position) VALUES (?, ?, ?, ?)';
+    for (const player of players) {
+      await this.dbService.executeQuery(sql, [player.id, gameId, player.name, player.position]);
+    }
+
+    return players;
+  }
+
+  /**
+   * Insert a player from a backup, keeping its id; existing players are left as they are
+   */
+  public async restorePlayer(player: Player): Promise<void> {
+    const sql = `
+      INSERT OR IGNORE INTO players (id, game_id, name, position, final_points)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+    await this.dbService.executeQuery(sql, [
+      player.id,
+      player.gameId,
+      player.name,
+      player.position,
+      player.finalPoints ?? null,
+    ]);
+  }
+
+  /**
+   * Get the players of a game in seating order
+   */
+  public async getPlayersForGame(gameId: string): Promise<Player[]> {
+    const sql = 'SELECT * FROM players WHERE game_id = ? ORDER BY position ASC';
+    const result = await this.dbService.executeQuery(sql, [gameId]);
+
+    const players: Player[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      players.push(this.mapRowToPlayer(result.rows.item(i)));
+    }
+
+    return players;
+  }
+
+  /**
+   * Record the points a player finished a game with
+   */
+  public async setFinalPoints(playerId: string, points: number): Promise<void> {
+    await this.dbService.executeQuery('UPDATE players SET final_points = ? WHERE id = ?', [points, playerId]);
+  }
+
+  /**
+   * Forget the points a game's players finished with, so they score live again
+   */
+  public async clearFinalPoints(gameId: string): Promise<void> {
+    await this.dbService.executeQuery('UPDATE players SET final_points = NULL WHERE game_id = ?', [gameId]);
+  }
+
+  /**
+   * Map database row to Player object
+   */
+  private mapRowToPlayer(row: any): Player {
+    return {
+      id: row.id,
+      gameId: row.game_id,
+      name: row.name,
+      position: row.position,
+      finalPoints: row.final_points ?? undefined,
+    };
+  }
+
+  /**
+   * Generate a unique ID
+   */
+  private generateId(): string {
+    return `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,108 @@
+import DatabaseService from '../services/DatabaseService';
+import { ThemePreference, UserSettings } from '../models/types';
+import { isThemePreference } from '../utils/theme';
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  theme: 'system',
+  tutorialCompleted: false,
+};
+
+// Each game remembers how its state list was grouped, sorted and filtered
+export const stateListViewSetting = (gameId: string) => `stateListView:${gameId}`;
+
+export class SettingsRepository {
+  private dbService: DatabaseService;
+
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
+  }
+
+  /**
+   * Get a stored setting value, or null if it was never set
+   */
+  public async getValue(key: string): Promise<string | null> {
+    const result = await this.dbService.executeQuery('SELECT value FROM settings WHERE key = ?', [key]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return result.rows.item(0).value;
+  }
+
+  /**
+   * Store a setting value, replacing any previous one
+   */
+  public async setValue(key: string, value: string): Promise<void> {
+    await this.dbService.executeQuery(
+      'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+      [key, value]
+    );
+  }
+
+  /**
+   * Forget a stored setting value
+   */
+  public async deleteValue(key: string): Promise<void> {
+    await this.dbService.executeQuery('DELETE FROM settings WHERE key = ?', [key]);
+  }
+
+  /**
+   * Get a boolean setting, falling back to a default when unset
+   */
+  public async getBoolean(key: string, defaultValue: boolean): Promise<boolean> {
+    const value = await this.getValue(key);
+    return value === null ? defaultValue : value === 'true';
+  }
+
+  /**
+   * Store a boolean setting
+   */
+  public async setBoolean(key: string, value: boolean): Promise<void> {
+    await this.setValue(key, value ? 'true' : 'false');
+  }
+
+  /**
+   * Get the user's settings; each one is stored under its own key
+   */
+  public async getSettings(): Promise<UserSettings> {
+    return {
+      theme: await this.getTheme(),
+      tutorialCompleted: await this.getBoolean('tutorialCompleted', DEFAULT_USER_SETTINGS.tutorialCompleted),
+    };
+  }
+
+  /**
+   * Get the theme preference. Unknown values fall back to the default; before
+   * themes there was only a dark mode switch, which is carried over.
+   */
+  private async getTheme(): Promise<ThemePreference> {
+    const theme = await this.getValue('theme');
+    if (isThemePreference(theme)) {
+      return theme;
+    }
+
+    const darkMode = await this.getValue('darkMode');
+    if (darkMode !== null) {
+      return darkMode === 'true' ? 'dark' : 'light';
+    }
+    return DEFAULT_USER_SETTINGS.theme;
+  }
+
+  /**
+   * Store changed user settings in one transaction and return the full set
+   */
+  public async updateSettings(changes: Partial<UserSettings>): Promise<UserSettings> {
+    return this.dbService.runInTransaction(async tx => {
+      const settings = new SettingsRepository(tx);
+      for (const [key, value] of Object.entries(changes)) {
+        if (typeof value === 'boolean') {
+          await settings.setBoolean(key, value);
+        } else if (value !== undefined) {
+          await settings.setValue(key, value);
+        }
+      }
+      return settings.getSettings();
+    });
+  }
+}
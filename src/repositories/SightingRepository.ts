@@ -0,0 +1,159 @@
+import DatabaseService from '../services/DatabaseService';
+import { GeoLocation, Sighting } from '../models/types';
+
+export class SightingRepository {
+  private dbService: DatabaseService;
+
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
+  }
+
+  /**
+   * Record a sighting of a state's plate; every call adds a new event
+   */
+  public async recordSighting(gameId: string, stateCode: string, playerId?: string): Promise<Sighting> {
+    const sighting: Sighting = {
+      id: this.generateId(),
+      gameId,
+      stateCode,
+      sightedAt: new Date().toISOString(),
+      playerId,
+    };
+
+    const sql = `
+      INSERT INTO sightings (id, game_id, state_code, sighted_at, player_id)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+
+    await this.dbService.executeQuery(sql, [
+      sighting.id,
+      gameId,
+      stateCode,
+      sighting.sightedAt,
+      playerId ?? null,
+    ]);
+    return sighting;
+  }
+
+  /**
+   * Insert a sighting from a backup, keeping its id; existing sightings are left as they are
+   */
+  public async restoreSighting(sighting: Sighting): Promise<void> {
+    const sql = `
+      INSERT OR IGNORE INTO sightings (
+        id, game_id, state_code, sighted_at, latitude, longitude, accuracy, current_state_code, player_id
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    await this.dbService.executeQuery(sql, [
+      sighting.id,
+      sighting.gameId,
+      sighting.stateCode,
+      sighting.sightedAt,
+      sighting.latitude ?? null,
+      sighting.longitude ?? null,
+      sighting.accuracy ?? null,
+      sighting.currentStateCode ?? null,
+      sighting.playerId ?? null,
+    ]);
+  }
+
+  /**
+   * Store where a sighting happened, and which state that was, once a location fix is available
+   */
+  public async setSightingLocation(
+    id: string,
+    location: GeoLocation,
+    currentStateCode: string | null = null
+  ): Promise<void> {
+    const sql = `
+      UPDATE sightings
+      SET latitude = ?, longitude = ?, accuracy = ?, current_state_code = ?
+      WHERE id = ?
+    `;
+    await this.dbService.executeQuery(sql, [
+      location.latitude,
+      location.longitude,
+      location.accuracy,
+      currentStateCode,
+      id,
+    ]);
+  }
+
+  /**
+   * Get the most recent sighting of a state in a game
+   */
+  public async getLatestSighting(gameId: string, stateCode: string): Promise<Sighting | null> {
+    const sql = `
+      SELECT * FROM sightings
+      WHERE game_id = ? AND state_code = ?
+      ORDER BY sighted_at DESC, rowid DESC
+      LIMIT 1
+    `;
+    const result = await this.dbService.executeQuery(sql, [gameId, stateCode]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToSighting(result.rows.item(0));
+  }
+
+  /**
+   * Delete a single sighting
+   */
+  public async deleteSighting(id: string): Promise<void> {
+    await this.dbService.executeQuery('DELETE FROM sightings WHERE id = ?', [id]);
+  }
+
+  /**
+   * Remove every sighting of a state in a game
+   */
+  public async removeAllSightings(gameId: string, stateCode: string): Promise<void> {
+    const sql = 'DELETE FROM sightings WHERE game_id = ? AND state_code = ?';
+    await this.dbService.executeQuery(sql, [gameId, stateCode]);
+  }
+
+  /**
+   * Get all sightings for a game in the order they happened
+   */
+  public async getSightingsForGame(gameId: string): Promise<Sighting[]> {
+    const sql = `
+      SELECT * FROM sightings 
+      WHERE game_id = ? 
+      ORDER BY sighted_at ASC, rowid ASC
+    `;
+    const result = await this.dbService.executeQuery(sql, [gameId]);
+
+    const sightings: Sighting[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      sightings.push(this.mapRowToSighting(result.rows.item(i)));
+    }
+
+    return sightings;
+  }
+
+  /**
+   * Map database row to Sighting object
+   */
+  private mapRowToSighting(row: any): Sighting {
+    return {
+      id: row.id,
+      gameId: row.game_id,
+      stateCode: row.state_code,
+      sightedAt: row.sighted_at,
+      latitude: row.latitude ?? undefined,
+      longitude: row.longitude ?? undefined,
+      accuracy: row.accuracy ?? undefined,
+      currentStateCode: row.current_state_code ?? undefined,
+      playerId: row.player_id ?? undefined,
+    };
+  }
+
+  /**
+   * Generate a unique ID
+   */
+  private generateId(): string {
+    return `sighting_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -1,44 +1,65 @@
 import DatabaseService from '../services/DatabaseService';
-import { SpottedState, GameProgress } from '../models/types';
+import { SpottedState, GameProgress, GameStatistics, StateCount } from '../models/types';
+import { SightingRepository } from './SightingRepository';
+import { GameRepository } from './GameRepository';
+import {
+  getGameStateList,
+  jurisdictionCatalog,
+  REGION_NAMES,
+  StateListManagerImpl,
+  StateRegion,
+} from '../utils/StateListManager';
+import { JURISDICTIONS, normalizeJurisdictionSets } from '../utils/jurisdictions';
+
+// Spotted states that are on their game's list: in one of its jurisdiction sets
+// and, when it has one, its target. Both are stored comma-separated.
+const ON_LIST_SPOTTED_STATES = `
+  WITH jurisdictions (code, jurisdiction_set, region) AS (
+    VALUES ${JURISDICTIONS.map(() => '(?, ?, ?)').join(', ')}
+  ),
+  on_list AS (
+    SELECT s.game_id, s.state_code, j.region
+    FROM spotted_states s
+    JOIN games g ON g.id = s.game_id
+    JOIN jurisdictions j ON j.code = s.state_code
+    WHERE ',' || g.jurisdiction_sets || ',' LIKE '%,' || j.jurisdiction_set || ',%'
+      AND (g.target_state_codes IS NULL OR ',' || g.target_state_codes || ',' LIKE '%,' || s.state_code || ',%')
+  )
+`;
+const ON_LIST_PARAMS = JURISDICTIONS.flatMap(jurisdiction => [jurisdiction.code, jurisdiction.set, jurisdiction.region]);
 
 export class SpottedStateRepository {
   private dbService: DatabaseService;
 
-  constructor() {
-    this.dbService = DatabaseService.getInstance();
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
   }
 
   /**
-   * Add a spotted state to a game
+   * Add a spotted state to a game (its first sighting)
    */
-  public async addSpottedState(gameId: string, stateCode: string): Promise<void> {
-    const id = this.generateId();
-    const spottedAt = new Date().toISOString();
-
-    const sql = `
-      INSERT INTO spotted_states (id, gameId, stateCode, spottedAt)
-      VALUES (?, ?, ?, ?)
-    `;
-
-    const params = [id, gameId, stateCode, spottedAt];
-
-    try {
-      await this.dbService.executeQuery(sql, params);
-    } catch (error) {
-      // Handle unique constraint violation (state already spotted)
-      if (error.message && error.message.includes('UNIQUE constraint failed')) {
+  public async addSpottedState(gameId: string, stateCode: string, playerId?: string): Promise<SpottedState> {
+    return this.dbService.runInTransaction(async tx => {
+      if (await new SpottedStateRepository(tx).isStateSpotted(gameId, stateCode)) {
         throw new Error(`State ${stateCode} has already been spotted in this game`);
       }
-      throw error;
-    }
+
+      const sighting = await new SightingRepository(tx).recordSighting(gameId, stateCode, playerId);
+      return {
+        id: sighting.id,
+        gameId,
+        stateCode,
+        spottedAt: sighting.sightedAt,
+        playerId,
+      };
+    });
   }
 
   /**
-   * Remove a spotted state from a game
+   * Remove a spotted state from a game, along with all of its sightings
    */
   public async removeSpottedState(gameId: string, stateCode: string): Promise<void> {
-    const sql = 'DELETE FROM spotted_states WHERE gameId = ? AND stateCode = ?';
-    await this.dbService.executeQuery(sql, [gameId, stateCode]);
+    await new SightingRepository(this.dbService).removeAllSightings(gameId, stateCode);
   }
 
   /**
@@ -46,9 +67,16 @@ export class SpottedStateRepository {
    */
   public async getSpottedStatesForGame(gameId: string): Promise<SpottedState[]> {
     const sql = `
-      SELECT * FROM spotted_states 
-      WHERE gameId = ? 
-      ORDER BY spottedAt ASC
+      SELECT ss.*, (
+        SELECT p.file_path FROM photos p
+        JOIN sightings s ON s.id = p.sighting_id
+        WHERE s.game_id = ss.game_id AND s.state_code = ss.state_code
+        ORDER BY p.created_at ASC
+        LIMIT 1
+      ) as photo_path
+      FROM spotted_states ss
+      WHERE ss.game_id = ? 
+      ORDER BY ss.spotted_at ASC
     `;
     const result = await this.dbService.executeQuery(sql, [gameId]);
 
@@ -61,19 +89,27 @@ export class SpottedStateRepository {
   }
 
   /**
-   * Get game progress (found/total states)
+   * Get game progress (found/total states in the game's target list)
    */
   public async getGameProgress(gameId: string): Promise<GameProgress> {
-    const sql = 'SELECT COUNT(*) as found FROM spotted_states WHERE gameId = ?';
+    const game = await new GameRepository(this.dbService).getGameById(gameId);
+    const stateList = getGameStateList(game);
+
+    const sql = 'SELECT state_code FROM spotted_states WHERE game_id = ?';
     const result = await this.dbService.executeQuery(sql, [gameId]);
-    
-    const found = result.rows.item(0).found;
-    const total = 50; // Total US states
+
+    let found = 0;
+    for (let i = 0; i < result.rows.length; i++) {
+      if (stateList.isValidStateCode(result.rows.item(i).state_code)) {
+        found++;
+      }
+    }
+    const total = stateList.getAllStates().length;
     
     return {
       found,
       total,
-      percentage: Math.round((found / total) * 100),
+      percentage: total > 0 ? Math.round((found / total) * 100) : 0,
     };
   }
 
@@ -81,7 +117,7 @@ export class SpottedStateRepository {
    * Check if a state has been spotted in a game
    */
   public async isStateSpotted(gameId: string, stateCode: string): Promise<boolean> {
-    const sql = 'SELECT COUNT(*) as count FROM spotted_states WHERE gameId = ? AND stateCode = ?';
+    const sql = 'SELECT COUNT(*) as count FROM spotted_states WHERE game_id = ? AND state_code = ?';
     const result = await this.dbService.executeQuery(sql, [gameId, stateCode]);
     
     return result.rows.item(0).count > 0;
@@ -93,8 +129,8 @@ export class SpottedStateRepository {
   public async getSpottedStatesByStateCode(stateCode: string): Promise<SpottedState[]> {
     const sql = `
       SELECT * FROM spotted_states 
-      WHERE stateCode = ? 
-      ORDER BY spottedAt DESC
+      WHERE state_code = ? 
+      ORDER BY spotted_at DESC
     `;
     const result = await this.dbService.executeQuery(sql, [stateCode]);
 
@@ -106,104 +142,229 @@ export class SpottedStateRepository {
     return spottedStates;
   }
 
+  /**
+   * Get spotted states across all games, oldest first
+   */
+  public async getAllSpottedStates(): Promise<SpottedState[]> {
+    const sql = 'SELECT * FROM spotted_states ORDER BY spotted_at ASC';
+    const result = await this.dbService.executeQuery(sql);
+
+    const spottedStates: SpottedState[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      spottedStates.push(this.mapRowToSpottedState(result.rows.item(i)));
+    }
+
+    return spottedStates;
+  }
+
   /**
    * Get statistics for all games
    */
-  public async getGameStatistics(): Promise<{
-    totalGames: number;
-    completedGames: number;
-    totalStatesSpotted: number;
-    mostSpottedStates: Array<{stateCode: string, count: number}>;
-    rarestStates: Array<{stateCode: string, count: number}>;
-  }> {
+  public async getGameStatistics(): Promise<GameStatistics> {
     // Get total games count
     const totalGamesResult = await this.dbService.executeQuery('SELECT COUNT(*) as count FROM games');
     const totalGames = totalGamesResult.rows.item(0).count;
 
-    // Get completed games count
-    const completedGamesResult = await this.dbService.executeQuery('SELECT COUNT(*) as count FROM games WHERE isComplete = 1');
+    // Get completed games count; games set aside for another one have no end date and don't count
+    const completedGamesResult = await this.dbService.executeQuery(
+      'SELECT COUNT(*) as count FROM games WHERE is_complete = 1 AND end_date IS NOT NULL',
+    );
     const completedGames = completedGamesResult.rows.item(0).count;
 
     // Get total states spotted
     const totalStatesResult = await this.dbService.executeQuery('SELECT COUNT(*) as count FROM spotted_states');
     const totalStatesSpotted = totalStatesResult.rows.item(0).count;
 
+    // Get total sightings, counting repeat plates
+    const totalSightingsResult = await this.dbService.executeQuery('SELECT COUNT(*) as count FROM sightings');
+    const totalSightings = totalSightingsResult.rows.item(0).count;
+
+    // Get how many different states have been seen, counting only those on their game's list
+    const uniqueStatesResult = await this.dbService.executeQuery(
+      `${ON_LIST_SPOTTED_STATES} SELECT COUNT(DISTINCT state_code) as count FROM on_list`,
+      ON_LIST_PARAMS,
+    );
+    const uniqueStatesSpotted = uniqueStatesResult.rows.item(0).count;
+
+    // Get the games playing each list, and the most states one of them has found
+    const gameListsResult = await this.dbService.executeQuery(`
+      ${ON_LIST_SPOTTED_STATES}
+      SELECT jurisdiction_sets, target_state_codes, COUNT(*) as games, MAX(spotted) as best_spotted
+      FROM (
+        SELECT g.jurisdiction_sets, g.target_state_codes, COUNT(o.state_code) as spotted
+        FROM games g
+        LEFT JOIN on_list o ON o.game_id = g.id
+        GROUP BY g.id
+      )
+      GROUP BY jurisdiction_sets, target_state_codes
+    `, ON_LIST_PARAMS);
+    const gameLists: Array<{ stateList: StateListManagerImpl; games: number; bestSpotted: number }> = [];
+    for (let i = 0; i < gameListsResult.rows.length; i++) {
+      const row = gameListsResult.rows.item(i);
+      gameLists.push({
+        stateList: getGameStateList({
+          jurisdictionSets: normalizeJurisdictionSets(String(row.jurisdiction_sets).split(',')),
+          targetStateCodes: row.target_state_codes ? row.target_state_codes.split(',') : undefined,
+        }),
+        games: row.games,
+        bestSpotted: row.best_spotted,
+      });
+    }
+
+    // Get every state some game has targeted, in catalog order
+    const tracked = new Set(
+      (gameLists.length > 0 ? gameLists.map(({ stateList }) => stateList) : [getGameStateList()])
+        .flatMap(stateList => stateList.getAllStates().map(state => state.code)),
+    );
+    const trackedStateCodes = jurisdictionCatalog.getAllStates()
+      .map(state => state.code)
+      .filter(code => tracked.has(code));
+
+    // Get the best completion of a single game
+    const bestCompletionPercentage = gameLists.reduce((best, { stateList, bestSpotted }) => {
+      const total = stateList.getAllStates().length;
+      return Math.max(best, total > 0 ? Math.round((bestSpotted / total) * 100) : 0);
+    }, 0);
+
+    // Get the average time from start to end of completed games
+    const averageTimeResult = await this.dbService.executeQuery(`
+      SELECT AVG((julianday(end_date) - julianday(start_date)) * 86400000) as average
+      FROM games
+      WHERE is_complete = 1 AND end_date IS NOT NULL
+    `);
+    const averageTime = averageTimeResult.rows.item(0).average;
+    const averageCompletionTime = averageTime === null ? null : Math.round(averageTime);
+
     // Get most spotted states
     const mostSpottedResult = await this.dbService.executeQuery(`
-      SELECT stateCode, COUNT(*) as count 
+      SELECT state_code, COUNT(*) as count 
       FROM spotted_states 
-      GROUP BY stateCode 
+      GROUP BY state_code 
       ORDER BY count DESC 
       LIMIT 10
     `);
     
-    const mostSpottedStates: Array<{stateCode: string, count: number}> = [];
+    const mostSpottedStates: StateCount[] = [];
     for (let i = 0; i < mostSpottedResult.rows.length; i++) {
       const row = mostSpottedResult.rows.item(i);
       mostSpottedStates.push({
-        stateCode: row.stateCode,
+        stateCode: row.state_code,
         count: row.count,
       });
     }
 
     // Get rarest states
     const rarestResult = await this.dbService.executeQuery(`
-      SELECT stateCode, COUNT(*) as count 
+      SELECT state_code, COUNT(*) as count 
       FROM spotted_states 
-      GROUP BY stateCode 
+      GROUP BY state_code 
       ORDER BY count ASC 
       LIMIT 10
     `);
     
-    const rarestStates: Array<{stateCode: string, count: number}> = [];
+    const rarestStates: StateCount[] = [];
     for (let i = 0; i < rarestResult.rows.length; i++) {
       const row = rarestResult.rows.item(i);
       rarestStates.push({
-        stateCode: row.stateCode,
+        stateCode: row.state_code,
         count: row.count,
       });
     }
 
+    // Get how many games each state has been spotted in
+    const stateCountsResult = await this.dbService.executeQuery(`
+      SELECT state_code, COUNT(*) as count 
+      FROM spotted_states 
+      GROUP BY state_code
+    `);
+
+    const stateSpottedCounts: Record<string, number> = {};
+    for (let i = 0; i < stateCountsResult.rows.length; i++) {
+      const row = stateCountsResult.rows.item(i);
+      stateSpottedCounts[row.state_code] = row.count;
+    }
+
+    // Get how much of each region the average game covered, over the games tracking it
+    const regionSpottedResult = await this.dbService.executeQuery(
+      `${ON_LIST_SPOTTED_STATES} SELECT region, COUNT(*) as count FROM on_list GROUP BY region`,
+      ON_LIST_PARAMS,
+    );
+    const regionSpotted: Record<string, number> = {};
+    for (let i = 0; i < regionSpottedResult.rows.length; i++) {
+      const row = regionSpottedResult.rows.item(i);
+      regionSpotted[row.region] = row.count;
+    }
+
+    const regionCompletion = Object.values(StateRegion)
+      .map(region => {
+        const spotted = regionSpotted[region] || 0;
+        const total = gameLists.reduce(
+          (sum, { stateList, games }) => sum + games * stateList.getStatesByRegion(region).length,
+          0,
+        );
+        return {
+          region,
+          name: REGION_NAMES[region],
+          spotted,
+          total,
+          percentage: total > 0 ? Math.round((spotted / total) * 100) : 0,
+        };
+      })
+      .filter(region => region.total > 0);
+
     return {
       totalGames,
       completedGames,
       totalStatesSpotted,
+      totalSightings,
+      uniqueStatesSpotted,
+      trackedStateCodes,
+      bestCompletionPercentage,
+      averageCompletionTime,
       mostSpottedStates,
       rarestStates,
+      stateSpottedCounts,
+      regionCompletion,
     };
   }
 
   /**
    * Toggle state spotted status (add if not spotted, remove if spotted)
    */
-  public async toggleStateSpotted(gameId: string, stateCode: string): Promise<boolean> {
+  public async toggleStateSpotted(gameId: string, stateCode: string, playerId?: string): Promise<boolean> {
     const isSpotted = await this.isStateSpotted(gameId, stateCode);
     
     if (isSpotted) {
       await this.removeSpottedState(gameId, stateCode);
       return false; // State was removed
     } else {
-      await this.addSpottedState(gameId, stateCode);
+      await this.addSpottedState(gameId, stateCode, playerId);
       return true; // State was added
     }
   }
 
+  /**
+   * Run work against a transaction-scoped repository; it commits only if the work resolves
+   */
+  public runInTransaction<T>(work: (repository: SpottedStateRepository) => Promise<T>): Promise<T> {
+    return this.dbService.runInTransaction(tx => work(new SpottedStateRepository(tx)));
+  }
+
   /**
    * Map database row to SpottedState object
    */
   private mapRowToSpottedState(row: any): SpottedState {
     return {
       id: row.id,
-      gameId: row.gameId,
-      stateCode: row.stateCode,
-      spottedAt: row.spottedAt,
+      gameId: row.game_id,
+      stateCode: row.state_code,
+      spottedAt: row.spotted_at,
+      photoPath: row.photo_path ?? undefined,
+      latitude: row.latitude ?? undefined,
+      longitude: row.longitude ?? undefined,
+      accuracy: row.accuracy ?? undefined,
+      currentStateCode: row.current_state_code ?? undefined,
+      playerId: row.player_id ?? undefined,
     };
   }
-
-  /**
-   * Generate a unique ID
-   */
-  private generateId(): string {
-    return `spotted_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
 }
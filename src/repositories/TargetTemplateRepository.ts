@@ -0,0 +1,82 @@
+import DatabaseService from '../services/DatabaseService';
+import { TargetTemplate } from '../models/types';
+
+export class TargetTemplateRepository {
+  private dbService: DatabaseService;
+
+  constructor(dbService: DatabaseService = DatabaseService.getInstance()) {
+    this.dbService = dbService;
+  }
+
+  /**
+   * Save a target list for reuse in later games
+   */
+  public async saveTemplate(name: string, stateCodes: string[]): Promise<TargetTemplate> {
+    const trimmedName = name.trim();
+    if (trimmedName.length === 0) {
+      throw new Error('A template needs a name');
+    }
+    if (stateCodes.length === 0) {
+      throw new Error('A template needs at least one state');
+    }
+
+    const template: TargetTemplate = {
+      id: this.generateId(),
+      name: trimmedName,
+      stateCodes: [...new Set(stateCodes)],
+      createdAt: new Date().toISOString(),
+    };
+
+    const sql = 'INSERT INTO target_templates (id, name, state_codes, created_at) VALUES (?, ?, ?, ?)';
+    await this.dbService.executeQuery(sql, [
+      template.id,
+      template.name,
+      template.stateCodes.join(','),
+      template.createdAt,
+    ]);
+
+    return template;
+  }
+
+  /**
+   * Get every saved template, by name
+   */
+  public async getTemplates(): Promise<TargetTemplate[]> {
+    const sql = 'SELECT * FROM target_templates ORDER BY name COLLATE NOCASE ASC, created_at ASC';
+    const result = await this.dbService.executeQuery(sql);
+
+    const templates: TargetTemplate[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      templates.push(this.mapRowToTemplate(result.rows.item(i)));
+    }
+
+    return templates;
+  }
+
+  /**
+   * Delete a template; games created from it keep their own copy of the list
+   */
+  public async deleteTemplate(id: string): Promise<void> {
+    const sql = 'DELETE FROM target_templates WHERE id = ?';
+    await this.dbService.executeQuery(sql, [id]);
+  }
+
+  /**
+   * Map database row to TargetTemplate object
+   */
+  private mapRowToTemplate(row: any): TargetTemplate {
+    return {
+      id: row.id,
+      name: row.name,
+      stateCodes: row.state_codes.split(','),
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Generate a unique ID
+   */
+  private generateId(): string {
+    return `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useGame } from '../contexts/GameContext';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { GameRecord, PersonalRecords } from '../models/types';
+import { achievementEngine } from '../utils/AchievementEngine';
+import { RootStackScreenProps } from '../navigation/types';
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const formatDuration = (ms: number) => {
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  if (hours < 48) {
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${Math.round(hours / 24)} days`;
+};
+
+export function AchievementsScreen({ navigation }: RootStackScreenProps<'Achievements'>) {
+  const styles = useThemedStyles(createStyles);
+  const { achievementUnlocks, getPersonalRecords } = useGame();
+  const [records, setRecords] = useState<PersonalRecords | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPersonalRecords()
+      .then(personalRecords => {
+        if (!cancelled) {
+          setRecords(personalRecords);
+        }
+      })
+      .catch(err => console.error('Failed to load personal records:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [getPersonalRecords, achievementUnlocks]);
+
+  const achievements = achievementEngine.getAchievements();
+  const unlockedCount = achievements.filter(achievement =>
+    achievementUnlocks.some(unlock => unlock.achievementId === achievement.id),
+  ).length;
+
+  const renderRecord = (label: string, record: GameRecord | null, formatValue: (value: number) => string) => (
+    <View style={styles.recordRow}>
+      <Text style={styles.recordLabel}>{label}</Text>
+      {record ? (
+        <View style={styles.recordValueContainer}>
+          <Text style={styles.recordValue}>{formatValue(record.value)}</Text>
+          <Text style={styles.recordGame} numberOfLines={1}>
+            {record.gameName}
+            {record.date ? ` · ${formatDate(`${record.date}T12:00:00`)}` : ''}
+          </Text>
+        </View>
+      ) : (
+        <Text style={styles.recordEmpty}>Not yet</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Achievements</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Personal Records</Text>
+        <View style={styles.recordsContainer}>
+          {renderRecord('Fastest full 50', records?.fastestCompletion ?? null, formatDuration)}
+          {renderRecord('Most states in a day', records?.mostStatesInADay ?? null, value => `${value}`)}
+          {renderRecord('Most states in a game', records?.mostStatesInAGame ?? null, value => `${value}`)}
+        </View>
+
+        <Text style={styles.sectionTitle}>
+          Badges ({unlockedCount}/{achievements.length})
+        </Text>
+        {achievements.map(achievement => {
+          const unlock = achievementUnlocks.find(u => u.achievementId === achievement.id);
+          return (
+            <View
+              key={achievement.id}
+              style={[styles.badge, !unlock && styles.badgeLocked]}
+              accessibilityLabel={`${achievement.title}: ${unlock ? 'unlocked' : 'locked'}`}
+            >
+              <Text style={[styles.badgeIcon, !unlock && styles.badgeIconLocked]}>
+                {unlock ? achievement.icon : '🔒'}
+              </Text>
+              <View style={styles.badgeInfo}>
+                <Text style={[styles.badgeTitle, !unlock && styles.badgeTextLocked]}>
+                  {achievement.title}
+                </Text>
+                <Text style={styles.badgeDescription}>{achievement.description}</Text>
+                {unlock && (
+                  <Text style={styles.badgeUnlocked}>Unlocked {formatDate(unlock.unlockedAt)}</Text>
+                )}
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    content: {
+      padding: SPACING.lg,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: SPACING.sm,
+    },
+    recordsContainer: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: SPACING.md,
+      marginBottom: SPACING.lg,
+    },
+    recordRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingVertical: SPACING.sm,
+    },
+    recordLabel: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    recordValueContainer: {
+      alignItems: 'flex-end',
+      flexShrink: 1,
+      marginLeft: SPACING.md,
+    },
+    recordValue: {
+      fontSize: 16,
+      fontWeight: 'bold',
+      color: colors.primary,
+    },
+    recordGame: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    recordEmpty: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      fontStyle: 'italic',
+    },
+    badge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: SPACING.md,
+      marginBottom: SPACING.sm,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    badgeLocked: {
+      borderColor: colors.border,
+    },
+    badgeIcon: {
+      fontSize: 32,
+      marginRight: SPACING.md,
+    },
+    badgeIconLocked: {
+      opacity: 0.5,
+    },
+    badgeInfo: {
+      flex: 1,
+    },
+    badgeTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    badgeTextLocked: {
+      color: colors.textSecondary,
+    },
+    badgeDescription: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginTop: SPACING.xs,
+    },
+    badgeUnlocked: {
+      fontSize: 12,
+      color: colors.primary,
+      marginTop: SPACING.xs,
+    },
+  });
@@ -1,68 +1,228 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
-  StatusBar,
-  FlatList,
+  SectionList,
   TextInput,
   Alert,
   Platform,
+  Switch,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { COLORS, SPACING, US_STATES } from '../utils/constants';
+import { SPACING } from '../utils/constants';
+import { getGameStateList, jurisdictionCatalog } from '../utils/StateListManager';
+import {
+  buildSearchSection,
+  buildStateSections,
+  DEFAULT_STATE_LIST_VIEW,
+  STATE_GROUPINGS,
+  STATE_SORT_ORDERS,
+  StateSection,
+  toggleSectionCollapsed,
+} from '../utils/stateListView';
+import { ThemeColors } from '../utils/theme';
 import { useGame } from '../contexts/GameContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { PhotoThumbnails } from '../components/PhotoThumbnails';
+import { Scoreboard } from '../components/Scoreboard';
+import { StateMap } from '../components/StateMap';
+import { isOnUsMap } from '../utils/usMap';
+import { Photo, StateListView } from '../models/types';
+import { RootStackScreenProps } from '../navigation/types';
 
-interface ActiveGameScreenProps {
-  onBack: () => void;
-}
+const CURRENT_STATE_REFRESH_MS = 60000;
 
 interface StateItem {
   code: string;
   name: string;
   isSpotted: boolean;
+  spottedAt?: string;
+  sightingCount: number;
+  spottedBy?: string;
+  points: number;
 }
 
-export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
+export function ActiveGameScreen({ navigation, route }: RootStackScreenProps<'ActiveGame'>) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [searchQuery, setSearchQuery] = useState('');
-  const { currentGame, spottedStates, toggleState, isLoading, error, completeGame } = useGame();
+  const [countMode, setCountMode] = useState(false);
+  const [spotterId, setSpotterId] = useState<string | undefined>();
+  const [listView, setListView] = useState<StateListView>(DEFAULT_STATE_LIST_VIEW);
+  const [showMap, setShowMap] = useState(false);
+  const {
+    currentGame,
+    spottedStates,
+    sightingCounts,
+    toggleState,
+    recordSighting,
+    removeSighting,
+    photos,
+    players,
+    playerScores,
+    scoringEngine,
+    gameScore,
+    attachPhotos,
+    deletePhoto,
+    getPhotoUri,
+    locationCaptureEnabled,
+    setLocationCaptureEnabled,
+    currentLocationState,
+    refreshCurrentLocation,
+    isLoading,
+    error,
+    completeGame,
+    newAchievements,
+    dismissNewAchievements,
+    getGame,
+    resumeGame,
+    getStateListView,
+    saveStateListView,
+  } = useGame();
   const insets = useSafeAreaInsets();
+  const requestedGameId = route.params?.gameId;
+  const requestedStateCode = route.params?.spotStateCode;
+  const resumedGameId = useRef<string | undefined>(undefined);
+  const handledSpotLink = useRef<string | undefined>(undefined);
+  const promptedCompletion = useRef<string | undefined>(undefined);
+
+  // Plates are credited to the selected player, the first one by default
+  const activeSpotter = players.find(player => player.id === spotterId) || players[0];
 
-  const states: StateItem[] = US_STATES.map(state => ({
-    ...state,
-    isSpotted: spottedStates.some(s => s.stateCode === state.code),
-  }));
+  // Only the states on this game's target list count towards it
+  const stateList = getGameStateList(currentGame);
+  const states: StateItem[] = stateList.getAllStates().map(state => {
+    const spotted = spottedStates.find(s => s.stateCode === state.code);
+    return {
+      ...state,
+      isSpotted: !!spotted,
+      spottedAt: spotted?.spottedAt,
+      sightingCount: sightingCounts[state.code] || 0,
+      spottedBy: players.find(player => player.id === spotted?.playerId)?.name,
+      points: scoringEngine.getStatePoints(state.code),
+    };
+  });
 
   const handleToggleState = async (stateCode: string) => {
     try {
-      await toggleState(stateCode);
+      if (countMode) {
+        await recordSighting(stateCode, activeSpotter?.id);
+      } else {
+        await toggleState(stateCode, activeSpotter?.id);
+      }
     } catch (err) {
       Alert.alert('Error', 'Failed to update state. Please try again.');
     }
   };
 
-  const filteredStates = states.filter(state =>
-    state.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    state.code.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // The map always marks or unmarks a state, whatever the count mode
+  const handleMapPress = async (stateCode: string) => {
+    try {
+      await toggleState(stateCode, activeSpotter?.id);
+    } catch (err) {
+      Alert.alert('Error', 'Failed to update state. Please try again.');
+    }
+  };
+
+  const handleRemoveSighting = async (stateCode: string) => {
+    try {
+      await removeSighting(stateCode);
+    } catch (err) {
+      Alert.alert('Error', 'Failed to update state. Please try again.');
+    }
+  };
+
+  const handleAttachPhotos = async (stateCode: string) => {
+    try {
+      await attachPhotos(stateCode);
+    } catch (err) {
+      Alert.alert('Error', 'Failed to attach photos. Please try again.');
+    }
+  };
+
+  const handleDeletePhoto = (photo: Photo) => {
+    Alert.alert(
+      'Delete Photo',
+      'Remove this photo from the sighting?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deletePhoto(photo.id) },
+      ]
+    );
+  };
+
+  // While searching, matches replace the sections, best first; rows found by a
+  // nickname or slogan say which one, so "Lone Star" visibly lands on Texas
+  const searchMatches = searchQuery.trim() ? stateList.rankStates(searchQuery) : null;
+  const matchedAliases: Record<string, string> = {};
+  searchMatches?.forEach(match => {
+    if (match.matchedKind !== 'name' && match.matchedKind !== 'code') {
+      matchedAliases[match.state.code] = match.matchedText;
+    }
+  });
+  const sections = searchMatches
+    ? buildSearchSection(states, searchMatches.map(match => match.state), listView)
+    : buildStateSections(states, stateList, listView);
+  const offMapCount = states.filter(state => !isOnUsMap(state.code)).length;
+
+  // Changes show straight away; saving them is best-effort
+  const updateListView = (view: StateListView) => {
+    setListView(view);
+    if (currentGame) {
+      saveStateListView(currentGame.id, view).catch(err => console.error('Failed to save list view:', err));
+    }
+  };
 
   const spottedCount = states.filter(state => state.isSpotted).length;
   const totalCount = states.length;
   const progressPercentage = Math.round((spottedCount / totalCount) * 100);
 
-  // Auto-complete game when all states are spotted
+  // Each game opens with the grouping, sort and filter it was last left with
+  const currentGameId = currentGame?.id;
   useEffect(() => {
-    if (spottedCount === totalCount && currentGame && !currentGame.endDate) {
+    if (!currentGameId) return;
+
+    let cancelled = false;
+    setListView(DEFAULT_STATE_LIST_VIEW);
+    getStateListView(currentGameId)
+      .then(view => {
+        if (!cancelled) setListView(view);
+      })
+      .catch(err => console.error('Failed to load list view:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentGameId, getStateListView]);
+
+  // Keep the "You're in" line current while location capture is on
+  useEffect(() => {
+    if (!locationCaptureEnabled) return;
+
+    refreshCurrentLocation();
+    const interval = setInterval(refreshCurrentLocation, CURRENT_STATE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [locationCaptureEnabled, refreshCurrentLocation]);
+
+  // Auto-complete game when all states are spotted. The provider re-renders on
+  // every location refresh, so offer it once per game rather than on every run.
+  useEffect(() => {
+    if (totalCount > 0 && spottedCount === totalCount && currentGame && !currentGame.endDate) {
+      if (promptedCompletion.current === currentGame.id) return;
+      promptedCompletion.current = currentGame.id;
+
       Alert.alert(
         '🎉 Congratulations!',
-        'You found all 50 state license plates! Your game has been completed.',
+        `You found all ${totalCount} license plates on your list! Your game has been completed.`,
         [
           {
             text: 'Complete Game',
             onPress: async () => {
+              const gameId = currentGame.id;
               try {
                 await completeGame();
+                navigation.navigate('TripSummary', { gameId });
               } catch (err) {
                 Alert.alert('Error', 'Failed to complete game. Please try again.');
               }
@@ -71,7 +231,81 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
         ]
       );
     }
-  }, [spottedCount, totalCount, currentGame, completeGame]);
+  }, [spottedCount, totalCount, currentGame, completeGame, navigation]);
+
+  // Opened for a specific game from a link: offer to make it the current one, once.
+  // Anyone can send a link, so switching games waits for the user to agree.
+  // Finished games open their summary instead of being reopened.
+  useEffect(() => {
+    if (isLoading || !requestedGameId || resumedGameId.current === requestedGameId) return;
+
+    resumedGameId.current = requestedGameId;
+    if (currentGame?.id === requestedGameId) return;
+
+    getGame(requestedGameId)
+      .then(game => {
+        if (!game) {
+          Alert.alert('Game Not Found', 'That game isn\'t on this device.', [
+            { text: 'OK', onPress: () => navigation.goBack() },
+          ]);
+        } else if (game.endDate) {
+          navigation.replace('TripSummary', { gameId: game.id });
+        } else {
+          const replacing = currentGame ? ` in place of "${currentGame.name}"` : '';
+          Alert.alert('Switch Games?', `Make "${game.name}" your active game${replacing}?`, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Switch', onPress: () => resumeGame(game.id) },
+          ]);
+        }
+      })
+      .catch(err => console.error('Failed to open game:', err));
+  }, [isLoading, requestedGameId, currentGame, getGame, resumeGame, navigation]);
+
+  // A link can ask to mark a state; anyone can send one, so confirm first
+  useEffect(() => {
+    if (!requestedStateCode || !currentGame || currentGame.id !== requestedGameId) return;
+    if (!jurisdictionCatalog.isValidStateCode(requestedStateCode)) return;
+
+    const linkKey = `${currentGame.id}/${requestedStateCode}`;
+    if (handledSpotLink.current === linkKey) return;
+    handledSpotLink.current = linkKey;
+
+    const stateName = jurisdictionCatalog.getStateByCode(requestedStateCode)?.name;
+    if (!stateList.isValidStateCode(requestedStateCode)) {
+      Alert.alert('Not in This Game', `"${currentGame.name}" doesn't track ${stateName} plates.`);
+      return;
+    }
+    if (spottedStates.some(state => state.stateCode === requestedStateCode)) {
+      Alert.alert('Already Spotted', `${stateName} is already marked in "${currentGame.name}".`);
+      return;
+    }
+    Alert.alert('Mark State?', `Mark ${stateName} as spotted in "${currentGame.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Mark Spotted',
+        onPress: async () => {
+          try {
+            await toggleState(requestedStateCode, activeSpotter?.id);
+          } catch (err) {
+            Alert.alert('Error', 'Failed to update state. Please try again.');
+          }
+        },
+      },
+    ]);
+  }, [requestedStateCode, requestedGameId, currentGame, stateList, spottedStates, toggleState, activeSpotter]);
+
+  // Announce badges as soon as they are unlocked
+  useEffect(() => {
+    if (newAchievements.length === 0) return;
+
+    Alert.alert(
+      newAchievements.length === 1 ? '🏅 Achievement Unlocked!' : '🏅 Achievements Unlocked!',
+      newAchievements
+        .map(achievement => `${achievement.icon} ${achievement.title}: ${achievement.description}`)
+        .join('\n'),
+    );
+    dismissNewAchievements();
+  }, [newAchievements, dismissNewAchievements]);
 
   const renderStateItem = ({ item }: { item: StateItem }) => (
     <TouchableOpacity
@@ -80,6 +314,7 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
         item.isSpotted && styles.stateItemSpotted,
       ]}
       onPress={() => handleToggleState(item.code)}
+      onLongPress={countMode && item.isSpotted ? () => handleRemoveSighting(item.code) : undefined}
       activeOpacity={0.7}
     >
       <View style={styles.stateItemContent}>
@@ -96,7 +331,37 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
           ]}>
             {item.name}
           </Text>
+          {matchedAliases[item.code] && (
+            <Text style={styles.matchedAliasText}>“{matchedAliases[item.code]}”</Text>
+          )}
+          {item.spottedBy && (
+            <Text style={styles.spottedByText}>Spotted by {item.spottedBy}</Text>
+          )}
         </View>
+        {item.isSpotted && (
+          <View style={styles.photoActions}>
+            <PhotoThumbnails
+              photos={photos.filter(photo => photo.stateCode === item.code)}
+              getPhotoUri={getPhotoUri}
+              onLongPressPhoto={handleDeletePhoto}
+            />
+            <TouchableOpacity
+              style={styles.photoButton}
+              onPress={() => handleAttachPhotos(item.code)}
+              accessibilityLabel={`Attach photo for ${item.name}`}
+            >
+              <Text style={styles.photoButtonText}>📷</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <Text style={[styles.pointsText, item.isSpotted && styles.pointsTextSpotted]}>
+          {item.points} pt{item.points === 1 ? '' : 's'}
+        </Text>
+        {(item.sightingCount > 1 || (countMode && item.isSpotted)) && (
+          <View style={styles.countBadge}>
+            <Text style={styles.countBadgeText}>×{item.sightingCount}</Text>
+          </View>
+        )}
         <View style={[
           styles.checkbox,
           item.isSpotted && styles.checkboxChecked,
@@ -107,10 +372,48 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
     </TouchableOpacity>
   );
 
+  const renderSectionHeader = ({ section }: { section: StateSection<StateItem> }) => {
+    if (!section.title) return null;
+
+    const sectionPercentage = Math.round((section.spottedCount / section.totalCount) * 100);
+    return (
+      <TouchableOpacity
+        style={styles.sectionHeader}
+        onPress={() => updateListView(toggleSectionCollapsed(listView, section.key))}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: !section.isCollapsed }}
+        activeOpacity={0.7}
+      >
+        <View style={styles.sectionHeaderRow}>
+          <Text style={styles.sectionTitle}>
+            {section.isCollapsed ? '▸' : '▾'} {section.title}
+          </Text>
+          <Text style={styles.sectionCount}>
+            {section.spottedCount}/{section.totalCount}
+          </Text>
+        </View>
+        <View style={styles.sectionProgressBar}>
+          <View style={[styles.sectionProgressFill, { width: `${sectionPercentage}%` }]} />
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderViewOption = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.viewChip, selected && styles.viewChipSelected]}
+      onPress={onPress}
+      accessibilityRole="radio"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.viewChipText, selected && styles.viewChipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
         <View style={styles.loadingContainer}>
           <Text style={styles.loadingText}>Loading game...</Text>
         </View>
@@ -121,10 +424,9 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
   if (error) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>Error: {error}</Text>
-          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
             <Text style={styles.backButtonText}>← Back</Text>
           </TouchableOpacity>
         </View>
@@ -135,10 +437,9 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
   if (!currentGame) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
         <View style={styles.noGameContainer}>
           <Text style={styles.noGameText}>No active game found</Text>
-          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
             <Text style={styles.backButtonText}>← Back</Text>
           </TouchableOpacity>
         </View>
@@ -148,13 +449,11 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
-      
       <View style={[styles.header, { 
         paddingTop: Platform.OS === 'ios' ? insets.top - 40 : insets.top - 10,
         marginTop: Platform.OS === 'ios' ? -40 : -10
       }]}>
-        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Text style={styles.backButtonText}>← Back</Text>
         </TouchableOpacity>
         <Text style={styles.title}>{currentGame.name}</Text>
@@ -162,7 +461,7 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
 
       <View style={styles.progressContainer}>
         <View style={styles.progressHeader}>
-          <Text style={styles.progressTitle}>Progress</Text>
+          <Text style={styles.progressTitle}>{currentGame.targetName ?? 'Progress'}</Text>
           <Text style={styles.progressText}>
             {spottedCount}/{totalCount} states found
           </Text>
@@ -176,218 +475,485 @@ export function ActiveGameScreen({ onBack }: ActiveGameScreenProps) {
           />
         </View>
         <Text style={styles.progressPercentage}>{progressPercentage}%</Text>
+        <Text style={styles.scoreText}>
+          Score: {gameScore.total} pts
+          {gameScore.bonuses.length > 0 && ` (×${gameScore.multiplier.toFixed(2)})`}
+        </Text>
+        {gameScore.bonuses.map(bonus => (
+          <Text key={bonus.id} style={styles.bonusText}>
+            ×{bonus.multiplier} {bonus.label}
+          </Text>
+        ))}
+        {playerScores.length > 0 && (
+          <View style={styles.scoreboardContainer}>
+            <Text style={styles.scoreboardHint}>
+              Who spotted it? Tap a player, then the state
+            </Text>
+            <Scoreboard
+              scores={playerScores}
+              selectedPlayerId={activeSpotter?.id}
+              onSelectPlayer={setSpotterId}
+            />
+          </View>
+        )}
+        {locationCaptureEnabled && currentLocationState && (
+          <Text style={styles.currentStateText}>
+            📍 You're in {currentLocationState.name}
+          </Text>
+        )}
       </View>
 
       <View style={styles.searchContainer}>
-        <TextInput
-          style={styles.searchInput}
-          value={searchQuery}
-          onChangeText={setSearchQuery}
-          placeholder="Search states..."
-          placeholderTextColor={COLORS.textSecondary}
-        />
+        <View style={styles.viewOptionsRow}>
+          <Text style={styles.viewOptionsLabel}>Show</Text>
+          {renderViewOption('List', !showMap, () => setShowMap(false))}
+          {renderViewOption('Map', showMap, () => setShowMap(true))}
+        </View>
+        {!showMap && (
+          <>
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search by name, code or nickname..."
+              autoCorrect={false}
+              placeholderTextColor={colors.textSecondary}
+            />
+            <View style={styles.viewOptionsRow}>
+              <Text style={styles.viewOptionsLabel}>Group</Text>
+              {STATE_GROUPINGS.map(grouping =>
+                renderViewOption(grouping.label, listView.groupBy === grouping.id, () =>
+                  updateListView({ ...listView, groupBy: grouping.id }),
+                ),
+              )}
+            </View>
+            <View style={styles.viewOptionsRow}>
+              <Text style={styles.viewOptionsLabel}>Sort</Text>
+              {STATE_SORT_ORDERS.map(sortOrder =>
+                renderViewOption(sortOrder.label, listView.sortBy === sortOrder.id, () =>
+                  updateListView({ ...listView, sortBy: sortOrder.id }),
+                ),
+              )}
+            </View>
+            <View style={styles.countModeRow}>
+              <View style={styles.countModeInfo}>
+                <Text style={styles.countModeLabel}>Remaining only</Text>
+                <Text style={styles.countModeHint}>
+                  {listView.remainingOnly ? 'Hiding states you have found' : 'Showing every state'}
+                </Text>
+              </View>
+              <Switch
+                value={listView.remainingOnly}
+                onValueChange={remainingOnly => updateListView({ ...listView, remainingOnly })}
+              />
+            </View>
+          </>
+        )}
+        <View style={styles.countModeRow}>
+          <View style={styles.countModeInfo}>
+            <Text style={styles.countModeLabel}>Count every plate</Text>
+            <Text style={styles.countModeHint}>
+              {countMode ? 'Tap to add a sighting, long-press to undo' : 'Tap marks a state as found'}
+            </Text>
+          </View>
+          <Switch value={countMode} onValueChange={setCountMode} />
+        </View>
+        <View style={styles.countModeRow}>
+          <View style={styles.countModeInfo}>
+            <Text style={styles.countModeLabel}>Save sighting locations</Text>
+            <Text style={styles.countModeHint}>
+              {locationCaptureEnabled ? 'Records where each plate was seen' : 'Location capture is off'}
+            </Text>
+          </View>
+          <Switch value={locationCaptureEnabled} onValueChange={setLocationCaptureEnabled} />
+        </View>
       </View>
 
-      <FlatList
-        data={filteredStates}
-        renderItem={renderStateItem}
-        keyExtractor={(item) => item.code}
-        style={styles.statesList}
-        showsVerticalScrollIndicator={false}
-      />
+      {showMap ? (
+        <View style={styles.mapContainer}>
+          <StateMap
+            spottedStateCodes={spottedStates.map(state => state.stateCode)}
+            trackedStateCodes={states.map(state => state.code)}
+            onPressState={handleMapPress}
+          />
+          {offMapCount > 0 && (
+            <Text style={styles.mapHint}>
+              {offMapCount} of your plates can only be marked from the list
+            </Text>
+          )}
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          renderItem={renderStateItem}
+          renderSectionHeader={renderSectionHeader}
+          keyExtractor={(item) => item.code}
+          style={styles.statesList}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={<Text style={styles.emptyListText}>No states match</Text>}
+        />
+      )}
 
-      {spottedCount === totalCount && (
+      {totalCount > 0 && spottedCount === totalCount && (
         <View style={styles.completionContainer}>
           <Text style={styles.completionText}>🎉 Congratulations!</Text>
-          <Text style={styles.completionSubtext}>You found all 50 states!</Text>
+          <Text style={styles.completionSubtext}>You found all {totalCount} plates!</Text>
         </View>
       )}
     </SafeAreaView>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: COLORS.background,
-  },
-  header: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: SPACING.lg,
-    paddingBottom: SPACING.lg,
-    borderBottomWidth: 1,
-    borderBottomColor: COLORS.border,
-  },
-  backButton: {
-    marginRight: SPACING.md,
-  },
-  backButtonText: {
-    fontSize: 16,
-    color: COLORS.primary,
-  },
-  title: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: COLORS.text,
-  },
-  progressContainer: {
-    padding: SPACING.lg,
-    backgroundColor: COLORS.surface,
-    margin: SPACING.lg,
-    borderRadius: 12,
-  },
-  progressHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: SPACING.sm,
-  },
-  progressTitle: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: COLORS.text,
-  },
-  progressText: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
-  },
-  progressBar: {
-    height: 8,
-    backgroundColor: COLORS.border,
-    borderRadius: 4,
-    marginBottom: SPACING.sm,
-  },
-  progressFill: {
-    height: '100%',
-    backgroundColor: COLORS.primary,
-    borderRadius: 4,
-  },
-  progressPercentage: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-  },
-  searchContainer: {
-    paddingHorizontal: SPACING.lg,
-    marginBottom: SPACING.md,
-  },
-  searchInput: {
-    backgroundColor: COLORS.surface,
-    borderRadius: 8,
-    paddingHorizontal: SPACING.md,
-    paddingVertical: SPACING.sm,
-    fontSize: 16,
-    color: COLORS.text,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-  },
-  statesList: {
-    flex: 1,
-    paddingHorizontal: SPACING.lg,
-  },
-  stateItem: {
-    backgroundColor: COLORS.surface,
-    borderRadius: 8,
-    marginBottom: SPACING.sm,
-    padding: SPACING.md,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-  },
-  stateItemSpotted: {
-    backgroundColor: COLORS.primary + '20',
-    borderColor: COLORS.primary,
-  },
-  stateItemContent: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-  },
-  stateInfo: {
-    flex: 1,
-  },
-  stateCode: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: COLORS.text,
-    marginBottom: 2,
-  },
-  stateCodeSpotted: {
-    color: COLORS.primary,
-  },
-  stateName: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-  },
-  stateNameSpotted: {
-    color: COLORS.primary,
-  },
-  checkbox: {
-    width: 24,
-    height: 24,
-    borderRadius: 12,
-    borderWidth: 2,
-    borderColor: COLORS.border,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  checkboxChecked: {
-    backgroundColor: COLORS.primary,
-    borderColor: COLORS.primary,
-  },
-  checkmark: {
-    color: COLORS.background,
-    fontSize: 16,
-    fontWeight: 'bold',
-  },
-  completionContainer: {
-    backgroundColor: COLORS.primary,
-    margin: SPACING.lg,
-    padding: SPACING.lg,
-    borderRadius: 12,
-    alignItems: 'center',
-  },
-  completionText: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: COLORS.background,
-    marginBottom: SPACING.sm,
-  },
-  completionSubtext: {
-    fontSize: 16,
-    color: COLORS.background,
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  loadingText: {
-    fontSize: 18,
-    color: COLORS.textSecondary,
-  },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: SPACING.lg,
-  },
-  errorText: {
-    fontSize: 16,
-    color: COLORS.error || '#FF3B30',
-    textAlign: 'center',
-    marginBottom: SPACING.lg,
-  },
-  noGameContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: SPACING.lg,
-  },
-  noGameText: {
-    fontSize: 18,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-    marginBottom: SPACING.lg,
-  },
-});
\ No newline at end of file
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    progressContainer: {
+      padding: SPACING.lg,
+      backgroundColor: colors.surface,
+      margin: SPACING.lg,
+      borderRadius: 12,
+    },
+    progressHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: SPACING.sm,
+    },
+    progressTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    progressText: {
+      fontSize: 16,
+      color: colors.textSecondary,
+    },
+    progressBar: {
+      height: 8,
+      backgroundColor: colors.border,
+      borderRadius: 4,
+      marginBottom: SPACING.sm,
+    },
+    progressFill: {
+      height: '100%',
+      backgroundColor: colors.primary,
+      borderRadius: 4,
+    },
+    progressPercentage: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    scoreText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      textAlign: 'center',
+      marginTop: SPACING.sm,
+    },
+    bonusText: {
+      fontSize: 12,
+      color: colors.success,
+      textAlign: 'center',
+    },
+    scoreboardContainer: {
+      marginTop: SPACING.md,
+    },
+    scoreboardHint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginBottom: SPACING.sm,
+    },
+    currentStateText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+      textAlign: 'center',
+      marginTop: SPACING.sm,
+    },
+    searchContainer: {
+      paddingHorizontal: SPACING.lg,
+      marginBottom: SPACING.md,
+    },
+    searchInput: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: SPACING.md,
+      paddingVertical: SPACING.sm,
+      fontSize: 16,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    countModeRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginTop: SPACING.sm,
+    },
+    countModeInfo: {
+      flex: 1,
+    },
+    countModeLabel: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    countModeHint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    viewOptionsRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      marginTop: SPACING.sm,
+    },
+    viewOptionsLabel: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+      width: 48,
+    },
+    viewChip: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      paddingVertical: 2,
+      paddingHorizontal: SPACING.sm,
+      marginRight: SPACING.xs,
+      marginBottom: SPACING.xs,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    viewChipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    viewChipText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    viewChipTextSelected: {
+      color: colors.onPrimary,
+    },
+    statesList: {
+      flex: 1,
+      paddingHorizontal: SPACING.lg,
+    },
+    sectionHeader: {
+      backgroundColor: colors.background,
+      paddingVertical: SPACING.sm,
+    },
+    sectionHeaderRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: SPACING.xs,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    sectionCount: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    sectionProgressBar: {
+      height: 4,
+      backgroundColor: colors.border,
+      borderRadius: 2,
+    },
+    sectionProgressFill: {
+      height: '100%',
+      backgroundColor: colors.primary,
+      borderRadius: 2,
+    },
+    mapContainer: {
+      flex: 1,
+      paddingHorizontal: SPACING.lg,
+    },
+    mapHint: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: SPACING.sm,
+    },
+    emptyListText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: SPACING.lg,
+    },
+    stateItem: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      marginBottom: SPACING.sm,
+      padding: SPACING.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    stateItemSpotted: {
+      backgroundColor: colors.primary + '20',
+      borderColor: colors.primary,
+    },
+    stateItemContent: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    stateInfo: {
+      flex: 1,
+    },
+    stateCode: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 2,
+    },
+    stateCodeSpotted: {
+      color: colors.primary,
+    },
+    stateName: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    stateNameSpotted: {
+      color: colors.primary,
+    },
+    pointsText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginRight: SPACING.sm,
+    },
+    pointsTextSpotted: {
+      color: colors.success,
+    },
+    matchedAliasText: {
+      fontSize: 12,
+      fontStyle: 'italic',
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    spottedByText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    photoActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginRight: SPACING.sm,
+    },
+    photoButton: {
+      padding: SPACING.xs,
+    },
+    photoButtonText: {
+      fontSize: 20,
+    },
+    countBadge: {
+      backgroundColor: colors.secondary,
+      borderRadius: 10,
+      paddingHorizontal: SPACING.sm,
+      paddingVertical: 2,
+      marginRight: SPACING.sm,
+    },
+    countBadgeText: {
+      fontSize: 12,
+      fontWeight: 'bold',
+      color: colors.onPrimary,
+    },
+    checkbox: {
+      width: 24,
+      height: 24,
+      borderRadius: 12,
+      borderWidth: 2,
+      borderColor: colors.border,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    checkboxChecked: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    checkmark: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+    completionContainer: {
+      backgroundColor: colors.primary,
+      margin: SPACING.lg,
+      padding: SPACING.lg,
+      borderRadius: 12,
+      alignItems: 'center',
+    },
+    completionText: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.onPrimary,
+      marginBottom: SPACING.sm,
+    },
+    completionSubtext: {
+      fontSize: 16,
+      color: colors.onPrimary,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    loadingText: {
+      fontSize: 18,
+      color: colors.textSecondary,
+    },
+    errorContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: SPACING.lg,
+    },
+    errorText: {
+      fontSize: 16,
+      color: colors.error,
+      textAlign: 'center',
+      marginBottom: SPACING.lg,
+    },
+    noGameContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: SPACING.lg,
+    },
+    noGameText: {
+      fontSize: 18,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: SPACING.lg,
+    },
+  });
\ No newline at end of file
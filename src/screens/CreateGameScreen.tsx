@@ -1,43 +1,210 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
-  StatusBar,
   TextInput,
   Alert,
   Platform,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { COLORS, SPACING } from '../utils/constants';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
 import { useGame } from '../contexts/GameContext';
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { RootStackScreenProps } from '../navigation/types';
+import { JurisdictionSet, TargetTemplate } from '../models/types';
+import { DEFAULT_JURISDICTION_SETS, JURISDICTION_SETS, REGION_NAMES, StateRegion } from '../utils/jurisdictions';
+import { getStateListManager } from '../utils/StateListManager';
+import {
+  GameTarget,
+  getJurisdictionSetsFor,
+  getLower48Target,
+  getRegionTarget,
+  getTemplateTarget,
+  LOWER_48_NAME,
+} from '../utils/gameTargets';
 
-interface CreateGameScreenProps {
-  onBack: () => void;
-  onCreateGame: () => void;
-}
+const MAX_PLAYERS = 8;
+
+const CUSTOM_TARGET_NAME = 'Custom list';
 
-export function CreateGameScreen({ onBack, onCreateGame }: CreateGameScreenProps) {
+type TargetChoice =
+  | { kind: 'all' }
+  | { kind: 'lower48' }
+  | { kind: 'region'; region: StateRegion }
+  | { kind: 'template'; templateId: string }
+  | { kind: 'custom' };
+
+export function CreateGameScreen({ navigation }: RootStackScreenProps<'CreateGame'>) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [gameName, setGameName] = useState('');
-  const { createGame } = useGame();
+  const [startLocation, setStartLocation] = useState('');
+  const [destination, setDestination] = useState('');
+  const [players, setPlayers] = useState<string[]>([]);
+  const [playerName, setPlayerName] = useState('');
+  const [jurisdictionSets, setJurisdictionSets] = useState<JurisdictionSet[]>(DEFAULT_JURISDICTION_SETS);
+  const [targetChoice, setTargetChoice] = useState<TargetChoice>({ kind: 'all' });
+  const [customCodes, setCustomCodes] = useState<string[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [templates, setTemplates] = useState<TargetTemplate[]>([]);
+  const { createGame, getTargetTemplates, saveTargetTemplate, deleteTargetTemplate } = useGame();
   const insets = useSafeAreaInsets();
 
+  useEffect(() => {
+    getTargetTemplates()
+      .then(setTemplates)
+      .catch(err => console.error('Failed to load target templates:', err));
+  }, [getTargetTemplates]);
+
+  const handleAddPlayer = () => {
+    const name = playerName.trim();
+    if (!name) return;
+
+    if (players.some(player => player.toLowerCase() === name.toLowerCase())) {
+      Alert.alert('Error', `${name} is already playing`);
+      return;
+    }
+
+    setPlayers(prev => [...prev, name]);
+    setPlayerName('');
+  };
+
+  const handleRemovePlayer = (name: string) => {
+    setPlayers(prev => prev.filter(player => player !== name));
+  };
+
+  // A game has to track something, so the last set can't be turned off
+  const handleToggleSet = (set: JurisdictionSet) => {
+    setJurisdictionSets(prev => {
+      if (!prev.includes(set)) return [...prev, set];
+      return prev.length > 1 ? prev.filter(selected => selected !== set) : prev;
+    });
+  };
+
+  const availableStates = getStateListManager(jurisdictionSets);
+
+  const resolveTarget = (): GameTarget | null => {
+    switch (targetChoice.kind) {
+      case 'lower48':
+        return getLower48Target();
+      case 'region':
+        return getRegionTarget(targetChoice.region, jurisdictionSets);
+      case 'template': {
+        const template = templates.find(t => t.id === targetChoice.templateId);
+        return template ? getTemplateTarget(template) : null;
+      }
+      case 'custom':
+        return { name: templateName.trim() || CUSTOM_TARGET_NAME, stateCodes: customCodes };
+      default:
+        return null;
+    }
+  };
+
+  // The target only counts states the chosen sets include
+  const target = resolveTarget();
+  const targetStates = target
+    ? availableStates.getAllStates().filter(state => target.stateCodes.includes(state.code))
+    : availableStates.getAllStates();
+  const plateCount = targetStates.length;
+  const canCreate = gameName.trim().length > 0 && plateCount > 0;
+
+  const handleChooseTarget = (choice: TargetChoice, requiredSets: JurisdictionSet[] = []) => {
+    setTargetChoice(choice);
+    if (requiredSets.length > 0) {
+      setJurisdictionSets(prev => [...new Set([...prev, ...requiredSets])]);
+    }
+  };
+
+  const handleToggleCustomState = (code: string) => {
+    setCustomCodes(prev => (prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]));
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name || customCodes.length === 0) {
+      Alert.alert('Error', 'Name the list and pick at least one state to save it');
+      return;
+    }
+
+    try {
+      const template = await saveTargetTemplate(name, customCodes);
+      setTemplates(prev => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setTargetChoice({ kind: 'template', templateId: template.id });
+    } catch (err) {
+      Alert.alert('Error', 'Failed to save the list. Please try again.');
+    }
+  };
+
+  const handleDeleteTemplate = (template: TargetTemplate) => {
+    Alert.alert('Delete List', `Delete the saved list "${template.name}"? Games using it keep their targets.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteTargetTemplate(template.id);
+            setTemplates(prev => prev.filter(t => t.id !== template.id));
+            if (targetChoice.kind === 'template' && targetChoice.templateId === template.id) {
+              setTargetChoice({ kind: 'all' });
+            }
+          } catch (err) {
+            Alert.alert('Error', 'Failed to delete the list. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderTargetOption = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    onLongPress?: () => void,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.targetChip, selected && styles.targetChipSelected]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      accessibilityRole="radio"
+      accessibilityState={{ selected }}
+    >
+      <Text style={[styles.targetChipText, selected && styles.targetChipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   const handleCreateGame = async () => {
     if (!gameName.trim()) {
       Alert.alert('Error', 'Please enter a game name');
       return;
     }
+    if (plateCount === 0) {
+      Alert.alert('Error', 'Pick at least one state to look for');
+      return;
+    }
 
     try {
-      await createGame(gameName.trim());
+      await createGame(gameName.trim(), {
+        startLocation: startLocation.trim(),
+        destination: destination.trim(),
+        players,
+        jurisdictionSets,
+        targetName: target?.name,
+        targetStateCodes: target ? targetStates.map(state => state.code) : undefined,
+      });
       Alert.alert(
         'Game Created!',
         `"${gameName}" game has been created. Start tracking those license plates!`,
         [
           {
             text: 'Start Playing',
-            onPress: onCreateGame,
+            onPress: () => navigation.replace('ActiveGame'),
           },
         ]
       );
@@ -48,21 +215,23 @@ export function CreateGameScreen({ onBack, onCreateGame }: CreateGameScreenProps
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
-      
       <View style={[styles.header, { 
         paddingTop: Platform.OS === 'ios' ? insets.top - 40 : insets.top - 10,
         marginTop: Platform.OS === 'ios' ? -40 : -10
       }]}>
-        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Text style={styles.backButtonText}>← Back</Text>
         </TouchableOpacity>
         <Text style={styles.title}>Create New Game</Text>
       </View>
 
-      <View style={styles.content}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+      >
         <Text style={styles.description}>
-          Create a new game to start tracking license plates from all 50 US states.
+          Create a new game to start tracking license plates on your trip.
         </Text>
 
         <View style={styles.inputContainer}>
@@ -72,7 +241,7 @@ export function CreateGameScreen({ onBack, onCreateGame }: CreateGameScreenProps
             value={gameName}
             onChangeText={setGameName}
             placeholder="Enter a name for your game..."
-            placeholderTextColor={COLORS.textSecondary}
+            placeholderTextColor={colors.textSecondary}
             maxLength={50}
           />
           <Text style={styles.inputHint}>
@@ -80,12 +249,184 @@ export function CreateGameScreen({ onBack, onCreateGame }: CreateGameScreenProps
           </Text>
         </View>
 
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Start Location (optional)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={startLocation}
+            onChangeText={setStartLocation}
+            placeholder="Where does the trip start?"
+            placeholderTextColor={colors.textSecondary}
+            maxLength={100}
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Destination (optional)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={destination}
+            onChangeText={setDestination}
+            placeholder="Where are you headed?"
+            placeholderTextColor={colors.textSecondary}
+            maxLength={100}
+          />
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Plates to Track</Text>
+          {JURISDICTION_SETS.map(set => {
+            const selected = jurisdictionSets.includes(set.id);
+            return (
+              <TouchableOpacity
+                key={set.id}
+                style={[styles.setOption, selected && styles.setOptionSelected]}
+                onPress={() => handleToggleSet(set.id)}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: selected }}
+              >
+                <View style={styles.setOptionInfo}>
+                  <Text style={styles.setOptionName}>{set.name}</Text>
+                  <Text style={styles.setOptionDescription}>{set.description}</Text>
+                </View>
+                <View style={[styles.checkbox, selected && styles.checkboxChecked]}>
+                  {selected && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Target</Text>
+          <View style={styles.targetOptions}>
+            {renderTargetOption('all', 'Everything', targetChoice.kind === 'all', () =>
+              handleChooseTarget({ kind: 'all' }),
+            )}
+            {renderTargetOption('lower48', LOWER_48_NAME, targetChoice.kind === 'lower48', () =>
+              handleChooseTarget({ kind: 'lower48' }, ['us-states']),
+            )}
+            {availableStates.getRegions().map(region =>
+              renderTargetOption(
+                `region_${region}`,
+                REGION_NAMES[region],
+                targetChoice.kind === 'region' && targetChoice.region === region,
+                () => handleChooseTarget({ kind: 'region', region }),
+              ),
+            )}
+            {templates.map(template =>
+              renderTargetOption(
+                template.id,
+                `★ ${template.name}`,
+                targetChoice.kind === 'template' && targetChoice.templateId === template.id,
+                () =>
+                  handleChooseTarget(
+                    { kind: 'template', templateId: template.id },
+                    getJurisdictionSetsFor(template.stateCodes),
+                  ),
+                () => handleDeleteTemplate(template),
+              ),
+            )}
+            {renderTargetOption('custom', 'Custom…', targetChoice.kind === 'custom', () =>
+              handleChooseTarget({ kind: 'custom' }),
+            )}
+          </View>
+
+          {targetChoice.kind === 'custom' && (
+            <>
+              <View style={styles.targetOptions}>
+                {availableStates.getAllStates().map(state => {
+                  const selected = customCodes.includes(state.code);
+                  return (
+                    <TouchableOpacity
+                      key={state.code}
+                      style={[styles.stateChip, selected && styles.targetChipSelected]}
+                      onPress={() => handleToggleCustomState(state.code)}
+                      accessibilityLabel={state.name}
+                      accessibilityState={{ selected }}
+                    >
+                      <Text style={[styles.targetChipText, selected && styles.targetChipTextSelected]}>
+                        {state.code}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <View style={styles.playerInputRow}>
+                <TextInput
+                  style={[styles.textInput, styles.playerInput]}
+                  value={templateName}
+                  onChangeText={setTemplateName}
+                  placeholder="Name this list..."
+                  placeholderTextColor={colors.textSecondary}
+                  maxLength={40}
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.addPlayerButton,
+                    (!templateName.trim() || customCodes.length === 0) && styles.primaryButtonDisabled,
+                  ]}
+                  onPress={handleSaveTemplate}
+                  disabled={!templateName.trim() || customCodes.length === 0}
+                >
+                  <Text style={styles.addPlayerButtonText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+
+          <Text style={styles.inputHint}>
+            {plateCount > 0 ? `${plateCount} plates to find` : 'No plates on this list yet'}
+            {templates.length > 0 && ' · Long-press a saved list to delete it'}
+          </Text>
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Players (optional)</Text>
+          <View style={styles.playerInputRow}>
+            <TextInput
+              style={[styles.textInput, styles.playerInput]}
+              value={playerName}
+              onChangeText={setPlayerName}
+              onSubmitEditing={handleAddPlayer}
+              placeholder="Add a player..."
+              placeholderTextColor={colors.textSecondary}
+              maxLength={30}
+              returnKeyType="done"
+              editable={players.length < MAX_PLAYERS}
+            />
+            <TouchableOpacity
+              style={[styles.addPlayerButton, !playerName.trim() && styles.primaryButtonDisabled]}
+              onPress={handleAddPlayer}
+              disabled={!playerName.trim()}
+            >
+              <Text style={styles.addPlayerButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          {players.length > 0 && (
+            <View style={styles.playerList}>
+              {players.map(player => (
+                <TouchableOpacity
+                  key={player}
+                  style={styles.playerChip}
+                  onPress={() => handleRemovePlayer(player)}
+                >
+                  <Text style={styles.playerChipText}>{player} ✕</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <Text style={styles.inputHint}>
+            Add everyone in the car to keep score of who spots each plate first
+          </Text>
+        </View>
+
         <TouchableOpacity
-          style={[styles.primaryButton, !gameName.trim() && styles.primaryButtonDisabled]}
+          style={[styles.primaryButton, !canCreate && styles.primaryButtonDisabled]}
           onPress={handleCreateGame}
-          disabled={!gameName.trim()}
+          disabled={!canCreate}
         >
-          <Text style={[styles.primaryButtonText, !gameName.trim() && styles.primaryButtonTextDisabled]}>
+          <Text style={[styles.primaryButtonText, !canCreate && styles.primaryButtonTextDisabled]}>
             Create Game
           </Text>
         </TouchableOpacity>
@@ -93,113 +434,235 @@ export function CreateGameScreen({ onBack, onCreateGame }: CreateGameScreenProps
         <View style={styles.infoContainer}>
           <Text style={styles.infoTitle}>How to Play:</Text>
           <Text style={styles.infoText}>
-            • Look for license plates from all 50 US states{'\n'}
+            • Look for license plates from every state on your list{'\n'}
             • Tap on a state when you spot its license plate{'\n'}
             • Track your progress as you find more states{'\n'}
-            • Complete the game when you find all 50!
+            • Complete the game when you find them all!
           </Text>
         </View>
-      </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: COLORS.background,
-  },
-  header: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: SPACING.lg,
-    paddingBottom: SPACING.lg,
-    borderBottomWidth: 1,
-    borderBottomColor: COLORS.border,
-  },
-  backButton: {
-    marginRight: SPACING.md,
-  },
-  backButtonText: {
-    fontSize: 16,
-    color: COLORS.primary,
-  },
-  title: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: COLORS.text,
-  },
-  content: {
-    flex: 1,
-    padding: SPACING.lg,
-  },
-  description: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-    marginBottom: SPACING.xl,
-    lineHeight: 24,
-  },
-  inputContainer: {
-    marginBottom: SPACING.xl,
-  },
-  inputLabel: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: COLORS.text,
-    marginBottom: SPACING.sm,
-  },
-  textInput: {
-    backgroundColor: COLORS.surface,
-    borderRadius: 8,
-    paddingHorizontal: SPACING.md,
-    paddingVertical: SPACING.sm,
-    fontSize: 16,
-    color: COLORS.text,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-    marginBottom: SPACING.sm,
-  },
-  inputHint: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    fontStyle: 'italic',
-  },
-  primaryButton: {
-    backgroundColor: COLORS.primary,
-    borderRadius: 8,
-    paddingVertical: SPACING.md,
-    paddingHorizontal: SPACING.lg,
-    alignItems: 'center',
-    marginBottom: SPACING.xl,
-  },
-  primaryButtonDisabled: {
-    backgroundColor: COLORS.border,
-  },
-  primaryButtonText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: COLORS.background,
-  },
-  primaryButtonTextDisabled: {
-    color: COLORS.textSecondary,
-  },
-  infoContainer: {
-    backgroundColor: COLORS.surface,
-    borderRadius: 8,
-    padding: SPACING.lg,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-  },
-  infoTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: COLORS.text,
-    marginBottom: SPACING.sm,
-  },
-  infoText: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    lineHeight: 20,
-  },
-});
\ No newline at end of file
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    content: {
+      padding: SPACING.lg,
+    },
+    description: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: SPACING.xl,
+      lineHeight: 24,
+    },
+    inputContainer: {
+      marginBottom: SPACING.xl,
+    },
+    inputLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: SPACING.sm,
+    },
+    textInput: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: SPACING.md,
+      paddingVertical: SPACING.sm,
+      fontSize: 16,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: SPACING.sm,
+    },
+    inputHint: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      fontStyle: 'italic',
+    },
+    setOption: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: SPACING.md,
+      marginBottom: SPACING.sm,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    setOptionSelected: {
+      borderColor: colors.primary,
+    },
+    setOptionInfo: {
+      flex: 1,
+    },
+    setOptionName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    setOptionDescription: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    checkbox: {
+      width: 24,
+      height: 24,
+      borderRadius: 12,
+      borderWidth: 2,
+      borderColor: colors.border,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginLeft: SPACING.md,
+    },
+    checkboxChecked: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    checkmark: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      color: colors.onPrimary,
+    },
+    targetOptions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginBottom: SPACING.sm,
+    },
+    targetChip: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      paddingVertical: SPACING.xs,
+      paddingHorizontal: SPACING.md,
+      marginRight: SPACING.sm,
+      marginBottom: SPACING.sm,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    stateChip: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingVertical: SPACING.xs,
+      width: 52,
+      alignItems: 'center',
+      marginRight: SPACING.xs,
+      marginBottom: SPACING.xs,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    targetChipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    targetChipText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    targetChipTextSelected: {
+      color: colors.onPrimary,
+    },
+    playerInputRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+    },
+    playerInput: {
+      flex: 1,
+      marginRight: SPACING.sm,
+    },
+    addPlayerButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: SPACING.sm + 2,
+      paddingHorizontal: SPACING.md,
+    },
+    addPlayerButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    playerList: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginBottom: SPACING.sm,
+    },
+    playerChip: {
+      backgroundColor: colors.primary + '20',
+      borderRadius: 16,
+      paddingVertical: SPACING.xs,
+      paddingHorizontal: SPACING.md,
+      marginRight: SPACING.sm,
+      marginBottom: SPACING.sm,
+    },
+    playerChipText: {
+      fontSize: 14,
+      color: colors.primary,
+      fontWeight: '600',
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      paddingHorizontal: SPACING.lg,
+      alignItems: 'center',
+      marginBottom: SPACING.xl,
+    },
+    primaryButtonDisabled: {
+      backgroundColor: colors.border,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    primaryButtonTextDisabled: {
+      color: colors.textSecondary,
+    },
+    infoContainer: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: SPACING.lg,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    infoTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: SPACING.sm,
+    },
+    infoText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+  });
\ No newline at end of file
@@ -4,29 +4,69 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  StatusBar,
   FlatList,
   Alert,
   RefreshControl,
   Platform,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
-import { COLORS, SPACING } from '../utils/constants';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
 import { useGame } from '../contexts/GameContext';
-import { Game } from '../models/types';
-
-interface GameHistoryScreenProps {
-  onBack: () => void;
-}
+import { useTheme, useThemedStyles } from '../contexts/ThemeContext';
+import { ExportFormat, Game, GameScoreSummary, Photo } from '../models/types';
+import { PhotoThumbnails } from '../components/PhotoThumbnails';
+import { Scoreboard } from '../components/Scoreboard';
+import { StateMap } from '../components/StateMap';
+import { getGameStateList } from '../utils/StateListManager';
+import { RootStackScreenProps } from '../navigation/types';
 
 interface GameItemProps {
   game: Game;
   onResume: (gameId: string) => void;
   onDelete: (gameId: string) => void;
+  onExport: (gameId: string) => void;
+  onShare: (gameId: string) => void;
   isComplete: boolean;
 }
 
-function GameItem({ game, onResume, onDelete, isComplete }: GameItemProps) {
+function GameItem({ game, onResume, onDelete, onExport, onShare, isComplete }: GameItemProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { getGamePhotos, getPhotoUri, getGameScores, getGameSpottedStates } = useGame();
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [scores, setScores] = useState<GameScoreSummary | null>(null);
+  const [spottedStateCodes, setSpottedStateCodes] = useState<string[] | null>(null);
+  const [showMap, setShowMap] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getGamePhotos(game.id), getGameScores(game.id)]).then(([gamePhotos, gameScores]) => {
+      if (!cancelled) {
+        setPhotos(gamePhotos);
+        setScores(gameScores);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [game.id, getGamePhotos, getGameScores]);
+
+  // Only loaded once the map is opened, so the list stays quick to scroll
+  useEffect(() => {
+    if (!showMap) return;
+
+    let cancelled = false;
+    getGameSpottedStates(game.id).then(states => {
+      if (!cancelled) {
+        setSpottedStateCodes(states.map(state => state.stateCode));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showMap, game.id, getGameSpottedStates]);
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -46,11 +86,11 @@ function GameItem({ game, onResume, onDelete, isComplete }: GameItemProps) {
 
   const getGameStatus = () => {
     if (game.endDate) {
-      return { text: 'Completed', color: COLORS.success || '#34C759', icon: '✅' };
+      return { text: 'Completed', color: colors.success, icon: '✅' };
     } else if (isComplete) {
-      return { text: 'Active', color: COLORS.primary, icon: '▶️' };
+      return { text: 'Active', color: colors.primary, icon: '▶️' };
     } else {
-      return { text: 'Incomplete', color: COLORS.textSecondary, icon: '⏸️' };
+      return { text: 'Incomplete', color: colors.textSecondary, icon: '⏸️' };
     }
   };
 
@@ -98,6 +138,20 @@ function GameItem({ game, onResume, onDelete, isComplete }: GameItemProps) {
               <Text style={styles.resumeButtonText}>Resume</Text>
             </TouchableOpacity>
           )}
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => onShare(game.id)}
+            accessibilityLabel={`Share a summary of ${game.name}`}
+          >
+            <Text style={styles.exportButtonText}>Share</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => onExport(game.id)}
+            accessibilityLabel={`Export ${game.name}`}
+          >
+            <Text style={styles.exportButtonText}>Export</Text>
+          </TouchableOpacity>
           <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
             <Text style={styles.deleteButtonText}>Delete</Text>
           </TouchableOpacity>
@@ -105,6 +159,11 @@ function GameItem({ game, onResume, onDelete, isComplete }: GameItemProps) {
       </View>
       
       <View style={styles.gameDetails}>
+        {(game.startLocation || game.destination) && (
+          <Text style={styles.gameRoute}>
+            {game.startLocation || '?'} → {game.destination || '?'}
+          </Text>
+        )}
         <Text style={styles.gameDate}>
           Created: {formatDate(game.createdAt)} at {formatTime(game.createdAt)}
         </Text>
@@ -113,13 +172,52 @@ function GameItem({ game, onResume, onDelete, isComplete }: GameItemProps) {
             Completed: {formatDate(game.endDate)} at {formatTime(game.endDate)}
           </Text>
         )}
+        {scores && (
+          <View style={styles.gameScores}>
+            <Text style={styles.gameScoreText}>
+              {game.endDate ? 'Final score' : 'Score'}: {scores.gameScore.total} pts
+            </Text>
+            {scores.gameScore.bonuses.map(bonus => (
+              <Text key={bonus.id} style={styles.gameBonusText}>
+                ×{bonus.multiplier} {bonus.label}
+              </Text>
+            ))}
+            {scores.playerScores.length > 0 && (
+              <View style={styles.gamePlayerScores}>
+                <Scoreboard scores={scores.playerScores} showResult={!!game.endDate} />
+              </View>
+            )}
+          </View>
+        )}
+        <TouchableOpacity
+          style={styles.mapToggle}
+          onPress={() => setShowMap(!showMap)}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: showMap }}
+        >
+          <Text style={styles.mapToggleText}>{showMap ? 'Hide map' : 'Show map'}</Text>
+        </TouchableOpacity>
+        {showMap && spottedStateCodes && (
+          <View style={styles.gameMap}>
+            <StateMap
+              spottedStateCodes={spottedStateCodes}
+              trackedStateCodes={getGameStateList(game).getAllStates().map(state => state.code)}
+            />
+          </View>
+        )}
+        {photos.length > 0 && (
+          <View style={styles.gamePhotos}>
+            <PhotoThumbnails photos={photos} getPhotoUri={getPhotoUri} maxVisible={5} size={48} />
+          </View>
+        )}
       </View>
     </View>
   );
 }
 
-export function GameHistoryScreen({ onBack }: GameHistoryScreenProps) {
-  const { allGames, isLoading, error, resumeGame, deleteGame, loadAllGames, currentGame } = useGame();
+export function GameHistoryScreen({ navigation }: RootStackScreenProps<'GameHistory'>) {
+  const styles = useThemedStyles(createStyles);
+  const { allGames, isLoading, error, deleteGame, resumeGame, loadAllGames, exportGames, currentGame } = useGame();
   const [refreshing, setRefreshing] = useState(false);
   const insets = useSafeAreaInsets();
 
@@ -132,13 +230,10 @@ export function GameHistoryScreen({ onBack }: GameHistoryScreenProps) {
     }
   };
 
+  // Resuming was already confirmed on the card, so switch before opening the game
   const handleResume = async (gameId: string) => {
-    try {
-      await resumeGame(gameId);
-      Alert.alert('Success', 'Game resumed successfully!');
-    } catch (err) {
-      Alert.alert('Error', 'Failed to resume game. Please try again.');
-    }
+    await resumeGame(gameId);
+    navigation.navigate('ActiveGame');
   };
 
   const handleDelete = async (gameId: string) => {
@@ -150,11 +245,35 @@ export function GameHistoryScreen({ onBack }: GameHistoryScreenProps) {
     }
   };
 
+  const runExport = async (format: ExportFormat, gameId?: string) => {
+    try {
+      await exportGames(format, gameId);
+    } catch (err) {
+      console.error('Failed to export games:', err);
+      Alert.alert('Error', 'Failed to export. Please try again.');
+    }
+  };
+
+  // Exports a single game, or the whole history when no id is given
+  const handleExport = (gameId?: string) => {
+    Alert.alert(
+      gameId ? 'Export Game' : 'Export History',
+      'JSON keeps everything and can be restored later. CSV has one row per sighting for spreadsheets.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'CSV', onPress: () => runExport('csv', gameId) },
+        { text: 'JSON', onPress: () => runExport('json', gameId) },
+      ]
+    );
+  };
+
   const renderGameItem = ({ item }: { item: Game }) => (
     <GameItem
       game={item}
       onResume={handleResume}
       onDelete={handleDelete}
+      onExport={handleExport}
+      onShare={gameId => navigation.navigate('TripSummary', { gameId })}
       isComplete={currentGame?.id === item.id}
     />
   );
@@ -172,12 +291,11 @@ export function GameHistoryScreen({ onBack }: GameHistoryScreenProps) {
   if (isLoading) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
         <View style={[styles.header, { 
           paddingTop: Platform.OS === 'ios' ? insets.top - 40 : insets.top - 10,
           marginTop: Platform.OS === 'ios' ? -40 : -10
         }]}>
-          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
             <Text style={styles.backButtonText}>← Back</Text>
           </TouchableOpacity>
           <Text style={styles.title}>Game History</Text>
@@ -192,12 +310,11 @@ export function GameHistoryScreen({ onBack }: GameHistoryScreenProps) {
   if (error) {
     return (
       <SafeAreaView style={styles.container}>
-        <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
         <View style={[styles.header, { 
           paddingTop: Platform.OS === 'ios' ? insets.top - 40 : insets.top - 10,
           marginTop: Platform.OS === 'ios' ? -40 : -10
         }]}>
-          <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
             <Text style={styles.backButtonText}>← Back</Text>
           </TouchableOpacity>
           <Text style={styles.title}>Game History</Text>
@@ -214,13 +331,20 @@ export function GameHistoryScreen({ onBack }: GameHistoryScreenProps) {
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
-      
       <View style={styles.header}>
-        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Text style={styles.backButtonText}>← Back</Text>
         </TouchableOpacity>
         <Text style={styles.title}>Game History</Text>
+        {allGames.length > 0 && (
+          <TouchableOpacity
+            onPress={() => handleExport()}
+            style={styles.exportAllButton}
+            accessibilityLabel="Export all games"
+          >
+            <Text style={styles.exportAllButtonText}>Export All</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       <View style={styles.statsContainer}>
@@ -261,188 +385,245 @@ export function GameHistoryScreen({ onBack }: GameHistoryScreenProps) {
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: COLORS.background,
-  },
-  header: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: SPACING.lg,
-    paddingBottom: SPACING.lg,
-    borderBottomWidth: 1,
-    borderBottomColor: COLORS.border,
-  },
-  backButton: {
-    marginRight: SPACING.md,
-  },
-  backButtonText: {
-    fontSize: 16,
-    color: COLORS.primary,
-  },
-  title: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: COLORS.text,
-  },
-  statsContainer: {
-    flexDirection: 'row',
-    backgroundColor: COLORS.surface,
-    margin: SPACING.lg,
-    borderRadius: 12,
-    padding: SPACING.lg,
-  },
-  statItem: {
-    flex: 1,
-    alignItems: 'center',
-  },
-  statNumber: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: COLORS.primary,
-    marginBottom: SPACING.xs,
-  },
-  statLabel: {
-    fontSize: 12,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-  },
-  gamesList: {
-    flex: 1,
-    paddingHorizontal: SPACING.lg,
-  },
-  gameItem: {
-    backgroundColor: COLORS.surface,
-    borderRadius: 12,
-    padding: SPACING.lg,
-    marginBottom: SPACING.md,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-  },
-  activeGameItem: {
-    borderColor: COLORS.primary,
-    backgroundColor: COLORS.primary + '10',
-  },
-  gameHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-    marginBottom: SPACING.sm,
-  },
-  gameInfo: {
-    flex: 1,
-  },
-  gameName: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: COLORS.text,
-    marginBottom: SPACING.xs,
-  },
-  activeGameName: {
-    color: COLORS.primary,
-  },
-  statusContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  statusIcon: {
-    fontSize: 16,
-    marginRight: SPACING.xs,
-  },
-  statusText: {
-    fontSize: 14,
-    fontWeight: '500',
-  },
-  gameActions: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  resumeButton: {
-    backgroundColor: COLORS.primary,
-    borderRadius: 6,
-    paddingHorizontal: SPACING.sm,
-    paddingVertical: SPACING.xs,
-    marginRight: SPACING.sm,
-  },
-  resumeButtonText: {
-    fontSize: 12,
-    fontWeight: '600',
-    color: COLORS.background,
-  },
-  deleteButton: {
-    backgroundColor: COLORS.error || '#FF3B30',
-    borderRadius: 6,
-    paddingHorizontal: SPACING.sm,
-    paddingVertical: SPACING.xs,
-  },
-  deleteButtonText: {
-    fontSize: 12,
-    fontWeight: '600',
-    color: COLORS.background,
-  },
-  gameDetails: {
-    borderTopWidth: 1,
-    borderTopColor: COLORS.border,
-    paddingTop: SPACING.sm,
-  },
-  gameDate: {
-    fontSize: 12,
-    color: COLORS.textSecondary,
-    marginBottom: SPACING.xs,
-  },
-  completionDate: {
-    fontSize: 12,
-    color: COLORS.success || '#34C759',
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  loadingText: {
-    fontSize: 18,
-    color: COLORS.textSecondary,
-  },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: SPACING.lg,
-  },
-  errorText: {
-    fontSize: 16,
-    color: COLORS.error || '#FF3B30',
-    textAlign: 'center',
-    marginBottom: SPACING.lg,
-  },
-  retryButton: {
-    backgroundColor: COLORS.primary,
-    borderRadius: 8,
-    paddingHorizontal: SPACING.lg,
-    paddingVertical: SPACING.sm,
-  },
-  retryButtonText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: COLORS.background,
-  },
-  emptyContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    padding: SPACING.xl,
-  },
-  emptyTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: COLORS.text,
-    marginBottom: SPACING.md,
-  },
-  emptyText: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-    lineHeight: 24,
-  },
-});
\ No newline at end of file
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    exportAllButton: {
+      marginLeft: 'auto',
+    },
+    exportAllButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    statsContainer: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      margin: SPACING.lg,
+      borderRadius: 12,
+      padding: SPACING.lg,
+    },
+    statItem: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    statNumber: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.primary,
+      marginBottom: SPACING.xs,
+    },
+    statLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    gamesList: {
+      flex: 1,
+      paddingHorizontal: SPACING.lg,
+    },
+    gameItem: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: SPACING.lg,
+      marginBottom: SPACING.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    activeGameItem: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primary + '10',
+    },
+    gameHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'flex-start',
+      marginBottom: SPACING.sm,
+    },
+    gameInfo: {
+      flex: 1,
+    },
+    gameName: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: SPACING.xs,
+    },
+    activeGameName: {
+      color: colors.primary,
+    },
+    statusContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    statusIcon: {
+      fontSize: 16,
+      marginRight: SPACING.xs,
+    },
+    statusText: {
+      fontSize: 14,
+      fontWeight: '500',
+    },
+    gameActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    resumeButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 6,
+      paddingHorizontal: SPACING.sm,
+      paddingVertical: SPACING.xs,
+      marginRight: SPACING.sm,
+    },
+    resumeButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    exportButton: {
+      backgroundColor: colors.surface,
+      borderRadius: 6,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      paddingHorizontal: SPACING.sm,
+      paddingVertical: SPACING.xs,
+      marginRight: SPACING.sm,
+    },
+    exportButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    deleteButton: {
+      backgroundColor: colors.error,
+      borderRadius: 6,
+      paddingHorizontal: SPACING.sm,
+      paddingVertical: SPACING.xs,
+    },
+    deleteButtonText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    gameDetails: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: SPACING.sm,
+    },
+    gameRoute: {
+      fontSize: 14,
+      color: colors.text,
+      marginBottom: SPACING.xs,
+    },
+    gameDate: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginBottom: SPACING.xs,
+    },
+    gamePhotos: {
+      marginTop: SPACING.sm,
+    },
+    mapToggle: {
+      alignSelf: 'flex-start',
+      marginTop: SPACING.sm,
+    },
+    mapToggleText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    gameMap: {
+      marginTop: SPACING.sm,
+    },
+    gameScores: {
+      marginTop: SPACING.sm,
+    },
+    gameScoreText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    gameBonusText: {
+      fontSize: 12,
+      color: colors.success,
+    },
+    gamePlayerScores: {
+      marginTop: SPACING.sm,
+    },
+    completionDate: {
+      fontSize: 12,
+      color: colors.success,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    loadingText: {
+      fontSize: 18,
+      color: colors.textSecondary,
+    },
+    errorContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: SPACING.lg,
+    },
+    errorText: {
+      fontSize: 16,
+      color: colors.error,
+      textAlign: 'center',
+      marginBottom: SPACING.lg,
+    },
+    retryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingHorizontal: SPACING.lg,
+      paddingVertical: SPACING.sm,
+    },
+    retryButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    emptyContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: SPACING.xl,
+    },
+    emptyTitle: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: SPACING.md,
+    },
+    emptyText: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 24,
+    },
+  });
\ No newline at end of file
@@ -4,133 +4,126 @@ import {
   Text,
   StyleSheet,
   TouchableOpacity,
-  StatusBar,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { COLORS, SPACING, APP_CONFIG } from '../utils/constants';
+import { SPACING, APP_CONFIG } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { RootStackScreenProps } from '../navigation/types';
 
-interface MainMenuScreenProps {
-  navigation: any;
-}
-
-export function MainMenuScreen({ navigation }: MainMenuScreenProps) {
-  const handleCreateNewGame = () => {
-    navigation.navigate('CreateGame');
-  };
+type MenuRoute = 'ActiveGame' | 'GameHistory' | 'Achievements' | 'Statistics' | 'Settings';
 
-  const handleContinueGame = () => {
-    navigation.navigate('ActiveGame');
-  };
+const SECONDARY_ITEMS: Array<{ label: string; route: MenuRoute }> = [
+  { label: 'Continue Game', route: 'ActiveGame' },
+  { label: 'Game History', route: 'GameHistory' },
+  { label: 'Achievements', route: 'Achievements' },
+  { label: 'Statistics', route: 'Statistics' },
+  { label: 'Settings', route: 'Settings' },
+];
 
-  const handleViewHistory = () => {
-    navigation.navigate('GameHistory');
-  };
+export function MainMenuScreen({ navigation }: RootStackScreenProps<'MainMenu'>) {
+  const styles = useThemedStyles(createStyles);
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar barStyle="dark-content" backgroundColor={COLORS.background} />
-      
       <View style={styles.header}>
         <Text style={styles.title}>{APP_CONFIG.name}</Text>
-        <Text style={styles.subtitle}>Track license plates from all 50 states</Text>
+        <Text style={styles.subtitle}>Track all the license plates on your list</Text>
       </View>
 
       <View style={styles.content}>
         <TouchableOpacity
           style={styles.primaryButton}
-          onPress={handleCreateNewGame}
+          onPress={() => navigation.navigate('CreateGame')}
         >
           <Text style={styles.primaryButtonText}>Create New Game</Text>
         </TouchableOpacity>
 
-        <TouchableOpacity
-          style={styles.secondaryButton}
-          onPress={handleContinueGame}
-        >
-          <Text style={styles.secondaryButtonText}>Continue Game</Text>
-        </TouchableOpacity>
-
-        <TouchableOpacity
-          style={styles.secondaryButton}
-          onPress={handleViewHistory}
-        >
-          <Text style={styles.secondaryButtonText}>Game History</Text>
-        </TouchableOpacity>
+        {SECONDARY_ITEMS.map(item => (
+          <TouchableOpacity
+            key={item.route}
+            style={styles.secondaryButton}
+            onPress={() => navigation.navigate(item.route)}
+          >
+            <Text style={styles.secondaryButtonText}>{item.label}</Text>
+          </TouchableOpacity>
+        ))}
       </View>
 
       <View style={styles.footer}>
         <Text style={styles.footerText}>
-          Start your journey to find all 50 state license plates!
+          Start your journey to find all the license plates on your list!
         </Text>
       </View>
     </SafeAreaView>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: COLORS.background,
-  },
-  header: {
-    padding: SPACING.lg,
-    alignItems: 'center',
-    borderBottomWidth: 1,
-    borderBottomColor: COLORS.border,
-  },
-  title: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: COLORS.text,
-    textAlign: 'center',
-    marginBottom: SPACING.sm,
-  },
-  subtitle: {
-    fontSize: 16,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-  },
-  content: {
-    flex: 1,
-    padding: SPACING.lg,
-    justifyContent: 'center',
-  },
-  primaryButton: {
-    backgroundColor: COLORS.primary,
-    borderRadius: 8,
-    paddingVertical: SPACING.md,
-    paddingHorizontal: SPACING.lg,
-    alignItems: 'center',
-    marginBottom: SPACING.md,
-  },
-  primaryButtonText: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: COLORS.background,
-  },
-  secondaryButton: {
-    backgroundColor: COLORS.surface,
-    borderRadius: 8,
-    paddingVertical: SPACING.md,
-    paddingHorizontal: SPACING.lg,
-    alignItems: 'center',
-    marginBottom: SPACING.md,
-    borderWidth: 1,
-    borderColor: COLORS.border,
-  },
-  secondaryButtonText: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: COLORS.text,
-  },
-  footer: {
-    padding: SPACING.lg,
-    alignItems: 'center',
-  },
-  footerText: {
-    fontSize: 14,
-    color: COLORS.textSecondary,
-    textAlign: 'center',
-    lineHeight: 20,
-  },
-});
\ No newline at end of file
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      padding: SPACING.lg,
+      alignItems: 'center',
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    title: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+      marginBottom: SPACING.sm,
+    },
+    subtitle: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    content: {
+      flex: 1,
+      padding: SPACING.lg,
+      justifyContent: 'center',
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      paddingHorizontal: SPACING.lg,
+      alignItems: 'center',
+      marginBottom: SPACING.md,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    secondaryButton: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      paddingHorizontal: SPACING.lg,
+      alignItems: 'center',
+      marginBottom: SPACING.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    footer: {
+      padding: SPACING.lg,
+      alignItems: 'center',
+    },
+    footerText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 20,
+    },
+  });
\ No newline at end of file
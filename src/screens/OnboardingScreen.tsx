@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { useSettings } from '../hooks';
+import { RootStackScreenProps } from '../navigation/types';
+
+interface OnboardingPage {
+  icon: string;
+  title: string;
+  body: string;
+}
+
+const PAGES: OnboardingPage[] = [
+  {
+    icon: '👆',
+    title: 'One tap to mark a state',
+    body: 'Spotted a plate? Tap its state to mark it found, and tap again if you made a mistake. Turn on count mode to tally repeat sightings.',
+  },
+  {
+    icon: '🔍',
+    title: 'Find states fast',
+    body: 'Type in the search box to jump to a state by name or abbreviation instead of scrolling the whole list.',
+  },
+  {
+    icon: '🏁',
+    title: 'Finish now or pick up later',
+    body: 'Your game completes once every plate on your list is found. Stopping for the night? Resume any game from Game History.',
+  },
+];
+
+/**
+ * First-run walkthrough. Skipping and finishing both count as having seen it;
+ * the last page offers to start a first game. Finishing replaces the whole
+ * stack, so back never returns to the tutorial.
+ */
+export function OnboardingScreen({ navigation }: RootStackScreenProps<'Onboarding'>) {
+  const styles = useThemedStyles(createStyles);
+  const { updateSettings } = useSettings();
+  const [pageIndex, setPageIndex] = useState(0);
+
+  const finish = (createGame: boolean) => {
+    updateSettings({ tutorialCompleted: true }).catch(() => {
+      // Already logged; the tutorial just shows again next launch
+    });
+    navigation.reset({
+      index: createGame ? 1 : 0,
+      routes: createGame ? [{ name: 'MainMenu' }, { name: 'CreateGame' }] : [{ name: 'MainMenu' }],
+    });
+  };
+
+  const page = PAGES[pageIndex];
+  const isLastPage = pageIndex === PAGES.length - 1;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        {!isLastPage && (
+          <TouchableOpacity onPress={() => finish(false)} accessibilityLabel="Skip tutorial">
+            <Text style={styles.skipText}>Skip</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.page}>
+        <Text style={styles.icon}>{page.icon}</Text>
+        <Text style={styles.title}>{page.title}</Text>
+        <Text style={styles.body}>{page.body}</Text>
+      </View>
+
+      <View style={styles.dots}>
+        {PAGES.map((_, index) => (
+          <View key={index} style={[styles.dot, index === pageIndex && styles.dotActive]} />
+        ))}
+      </View>
+
+      <View style={styles.footer}>
+        {isLastPage ? (
+          <>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => finish(true)}>
+              <Text style={styles.primaryButtonText}>Create Your First Game</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => finish(false)}>
+              <Text style={styles.secondaryButtonText}>Maybe Later</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <TouchableOpacity style={styles.primaryButton} onPress={() => setPageIndex(pageIndex + 1)}>
+            <Text style={styles.primaryButtonText}>Next</Text>
+          </TouchableOpacity>
+        )}
+        {pageIndex > 0 && (
+          <TouchableOpacity style={styles.backButton} onPress={() => setPageIndex(pageIndex - 1)}>
+            <Text style={styles.backButtonText}>Back</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+      padding: SPACING.lg,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      minHeight: 24,
+    },
+    skipText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    page: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    icon: {
+      fontSize: 72,
+      marginBottom: SPACING.lg,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+      marginBottom: SPACING.md,
+    },
+    body: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 24,
+    },
+    dots: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      marginBottom: SPACING.lg,
+    },
+    dot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.border,
+      marginHorizontal: SPACING.xs,
+    },
+    dotActive: {
+      backgroundColor: colors.primary,
+    },
+    footer: {
+      minHeight: 160,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      alignItems: 'center',
+      marginBottom: SPACING.md,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    secondaryButton: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      alignItems: 'center',
+      marginBottom: SPACING.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    backButton: {
+      alignItems: 'center',
+      paddingVertical: SPACING.sm,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+  });
@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  Alert,
+  RefreshControl,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useGame } from '../contexts/GameContext';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { BackupPreview, RestoreMode, RestoreResult } from '../models/types';
+import { BackupFile } from '../services/import';
+import { RootStackScreenProps } from '../navigation/types';
+
+const BACKUP_LOCATION_HINT = Platform.select({
+  ios: 'Choose a JSON backup from Files, or save one into this app\'s folder there and pick it below.',
+  default: 'Choose a JSON backup you saved or received, wherever it is on this device.',
+});
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const describeResult = (result: RestoreResult) => {
+  const parts = [`${result.gamesAdded} added`];
+  if (result.gamesMerged > 0) {
+    parts.push(`${result.gamesMerged} merged`);
+  }
+  if (result.gamesReplaced > 0) {
+    parts.push(`${result.gamesReplaced} replaced`);
+  }
+  return `Games restored: ${parts.join(', ')}.`;
+};
+
+/**
+ * Lists JSON backups found on the device and restores the one picked.
+ * When a backup shares games with the device, the user chooses whether to
+ * merge them or replace them.
+ */
+export function RestoreBackupScreen({ navigation }: RootStackScreenProps<'RestoreBackup'>) {
+  const styles = useThemedStyles(createStyles);
+  const { listBackups, pickBackup, previewBackup, restoreBackup } = useGame();
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [listErrors, setListErrors] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadBackups = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const listing = await listBackups();
+      setBackups(listing.backups);
+      setListErrors(listing.errors);
+    } catch (err) {
+      console.error('Failed to list backups:', err);
+      setListErrors(['Backups on this device could not be listed.']);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [listBackups]);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  const runRestore = async (preview: BackupPreview, mode: RestoreMode) => {
+    setIsRestoring(true);
+    try {
+      const result = await restoreBackup(preview.document, mode);
+      const message = result.cleanupFailed
+        ? `${describeResult(result)}\n\nSome old photos couldn't be removed or the app couldn't reload. ` +
+          'Restart the app if anything looks out of date.'
+        : describeResult(result);
+      Alert.alert('Backup Restored', message, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (err) {
+      Alert.alert('Error', 'Failed to restore the backup. Nothing was changed.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const confirmRestore = (preview: BackupPreview) => {
+    const { document, sightingCount, collisions } = preview;
+    const summary = `${document.games.length} games and ${sightingCount} sightings from ${formatDate(document.exportedAt)}.`;
+
+    if (collisions.length === 0) {
+      Alert.alert('Restore Backup', summary, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', onPress: () => runRestore(preview, 'merge') },
+      ]);
+      return;
+    }
+
+    Alert.alert(
+      'Games Already Here',
+      `${summary}\n\n${collisions.length} of these games are already on this device. ` +
+        'Merge keeps them and adds any sightings they are missing. Replace overwrites them with the backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => runRestore(preview, 'replace') },
+        { text: 'Merge', onPress: () => runRestore(preview, 'merge') },
+      ]
+    );
+  };
+
+  const handleSelect = async (backup: BackupFile) => {
+    try {
+      confirmRestore(await previewBackup(backup.path));
+    } catch (err) {
+      Alert.alert('Can\'t Restore This File', err instanceof Error ? err.message : 'The file could not be read.');
+    }
+  };
+
+  const handlePick = async () => {
+    let backup: BackupFile | null;
+    try {
+      backup = await pickBackup();
+    } catch (err) {
+      Alert.alert('Can\'t Open This File', err instanceof Error ? err.message : 'The file could not be opened.');
+      return;
+    }
+    if (backup) {
+      await handleSelect(backup);
+    }
+  };
+
+  const renderBackup = ({ item }: { item: BackupFile }) => (
+    <TouchableOpacity
+      style={styles.backupItem}
+      onPress={() => handleSelect(item)}
+      disabled={isRestoring}
+      accessibilityLabel={`Restore ${item.name}`}
+    >
+      <Text style={styles.backupName} numberOfLines={1}>{item.name}</Text>
+      {item.modifiedAt && <Text style={styles.backupDate}>Saved {formatDate(item.modifiedAt)}</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Restore from Backup</Text>
+      </View>
+
+      <Text style={styles.hintText}>{BACKUP_LOCATION_HINT}</Text>
+      <TouchableOpacity
+        style={styles.pickButton}
+        onPress={handlePick}
+        disabled={isRestoring}
+        accessibilityLabel="Choose a backup file"
+      >
+        <Text style={styles.pickButtonText}>Choose a File…</Text>
+      </TouchableOpacity>
+      {listErrors.map(message => (
+        <Text key={message} style={styles.errorText}>
+          {message}
+        </Text>
+      ))}
+
+      <FlatList
+        data={backups}
+        renderItem={renderBackup}
+        keyExtractor={item => item.path}
+        contentContainerStyle={styles.list}
+        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadBackups} />}
+        ListEmptyComponent={
+          isLoading ? null : (
+            <Text style={styles.emptyText}>
+              No backups in this app's folder. Choose a file above, or export one from Game History on your old device.
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    hintText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      padding: SPACING.lg,
+      paddingBottom: 0,
+    },
+    pickButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      alignItems: 'center',
+      marginHorizontal: SPACING.lg,
+      marginTop: SPACING.md,
+    },
+    pickButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    errorText: {
+      fontSize: 14,
+      color: colors.error,
+      paddingHorizontal: SPACING.lg,
+      paddingTop: SPACING.sm,
+    },
+    list: {
+      padding: SPACING.lg,
+    },
+    backupItem: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: SPACING.md,
+      marginBottom: SPACING.sm,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    backupName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    backupDate: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: SPACING.xs,
+    },
+    emptyText: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 24,
+      marginTop: SPACING.xl,
+    },
+  });
@@ -0,0 +1,226 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { APP_CONFIG, SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useGame } from '../contexts/GameContext';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { useSettings } from '../hooks';
+import { ThemePreference, UserSettings } from '../models/types';
+import { RootStackScreenProps } from '../navigation/types';
+
+const THEME_OPTIONS: Array<{ value: ThemePreference; label: string }> = [
+  { value: 'system', label: 'System' },
+  { value: 'light', label: 'Light' },
+  { value: 'dark', label: 'Dark' },
+  { value: 'high-contrast', label: 'High contrast' },
+];
+
+interface SettingRowProps {
+  label: string;
+  description: string;
+  value: boolean;
+  onValueChange: (value: boolean) => void;
+}
+
+function SettingRow({ label, description, value, onValueChange }: SettingRowProps) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.settingRow}>
+      <View style={styles.settingInfo}>
+        <Text style={styles.settingLabel}>{label}</Text>
+        <Text style={styles.settingDescription}>{description}</Text>
+      </View>
+      <Switch value={value} onValueChange={onValueChange} accessibilityLabel={label} />
+    </View>
+  );
+}
+
+export function SettingsScreen({ navigation }: RootStackScreenProps<'Settings'>) {
+  const styles = useThemedStyles(createStyles);
+  const { settings, updateSettings } = useSettings();
+  const { locationCaptureEnabled, setLocationCaptureEnabled } = useGame();
+
+  const handleChange = async (changes: Partial<UserSettings>) => {
+    try {
+      await updateSettings(changes);
+    } catch (err) {
+      Alert.alert('Error', 'Failed to save settings. Please try again.');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Settings</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Appearance</Text>
+        <View style={styles.themeOptions}>
+          {THEME_OPTIONS.map(option => {
+            const isSelected = settings.theme === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.themeOption, isSelected && styles.themeOptionSelected]}
+                onPress={() => handleChange({ theme: option.value })}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.themeOptionText, isSelected && styles.themeOptionTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.hintText}>High contrast keeps the state list readable in direct sun.</Text>
+
+        <View style={styles.section}>
+          <SettingRow
+            label="Location"
+            description="Save where each plate was spotted"
+            value={locationCaptureEnabled}
+            onValueChange={setLocationCaptureEnabled}
+          />
+        </View>
+
+        <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('Onboarding')}>
+          <Text style={styles.actionButtonText}>Show Tutorial</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('RestoreBackup')}>
+          <Text style={styles.actionButtonText}>Restore from Backup</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.versionText}>
+          {APP_CONFIG.name} v{APP_CONFIG.version}
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    content: {
+      padding: SPACING.lg,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: SPACING.sm,
+    },
+    themeOptions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    themeOption: {
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      paddingVertical: SPACING.xs,
+      paddingHorizontal: SPACING.md,
+      marginRight: SPACING.sm,
+      marginBottom: SPACING.sm,
+    },
+    themeOptionSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    themeOptionText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    themeOptionTextSelected: {
+      color: colors.onPrimary,
+      fontWeight: '600',
+    },
+    hintText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: SPACING.lg,
+    },
+    section: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      paddingHorizontal: SPACING.md,
+      marginBottom: SPACING.lg,
+    },
+    settingRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: SPACING.md,
+      borderBottomWidth: StyleSheet.hairlineWidth,
+      borderBottomColor: colors.border,
+    },
+    settingInfo: {
+      flex: 1,
+      marginRight: SPACING.md,
+    },
+    settingLabel: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    settingDescription: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: SPACING.xs,
+    },
+    actionButton: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      alignItems: 'center',
+      marginBottom: SPACING.lg,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionButtonText: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.primary,
+    },
+    versionText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+  });
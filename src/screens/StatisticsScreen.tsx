@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useGame } from '../contexts/GameContext';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { GameStatistics, StateCount } from '../models/types';
+import { jurisdictionCatalog } from '../utils/StateListManager';
+import { RootStackScreenProps } from '../navigation/types';
+
+const TOP_STATES_SHOWN = 5;
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) {
+    return '—';
+  }
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  if (hours < 48) {
+    return `${hours}h`;
+  }
+  return `${Math.round(hours / 24)}d`;
+};
+
+export function StatisticsScreen({ navigation }: RootStackScreenProps<'Statistics'>) {
+  const styles = useThemedStyles(createStyles);
+  const { getGameStatistics } = useGame();
+  const [statistics, setStatistics] = useState<GameStatistics | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatistics = useCallback(async () => {
+    try {
+      setError(null);
+      setStatistics(await getGameStatistics());
+    } catch (err) {
+      console.error('Failed to load statistics:', err);
+      setError('Failed to load statistics');
+    }
+  }, [getGameStatistics]);
+
+  useEffect(() => {
+    loadStatistics();
+  }, [loadStatistics]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await loadStatistics();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const getStateName = (stateCode: string) => jurisdictionCatalog.getStateByCode(stateCode)?.name || stateCode;
+
+  const renderStateList = (title: string, states: StateCount[]) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {states.length === 0 ? (
+        <Text style={styles.emptyText}>No plates spotted yet</Text>
+      ) : (
+        states.slice(0, TOP_STATES_SHOWN).map(state => (
+          <View key={state.stateCode} style={styles.row}>
+            <Text style={styles.rowLabel}>{getStateName(state.stateCode)}</Text>
+            <Text style={styles.rowValue}>
+              {state.count} {state.count === 1 ? 'game' : 'games'}
+            </Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (error) {
+      return <Text style={styles.errorText}>Error: {error}</Text>;
+    }
+    if (!statistics) {
+      return <Text style={styles.emptyText}>Loading statistics...</Text>;
+    }
+
+    const neverSpotted = statistics.trackedStateCodes
+      .filter(code => !statistics.stateSpottedCounts[code])
+      .map(getStateName);
+
+    return (
+      <>
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{statistics.totalGames}</Text>
+            <Text style={styles.statLabel}>Games</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{statistics.completedGames}</Text>
+            <Text style={styles.statLabel}>Completed</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{statistics.totalSightings}</Text>
+            <Text style={styles.statLabel}>Plates Seen</Text>
+          </View>
+        </View>
+        <View style={styles.statsContainer}>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>
+              {statistics.uniqueStatesSpotted}/{statistics.trackedStateCodes.length}
+            </Text>
+            <Text style={styles.statLabel}>States Ever Seen</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{statistics.bestCompletionPercentage}%</Text>
+            <Text style={styles.statLabel}>Best Game</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statNumber}>{formatDuration(statistics.averageCompletionTime)}</Text>
+            <Text style={styles.statLabel}>Avg. Game Length</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Regions</Text>
+          {statistics.regionCompletion.map(region => (
+            <View key={region.region} style={styles.regionRow}>
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}>{region.name}</Text>
+                <Text style={styles.rowValue}>{region.percentage}%</Text>
+              </View>
+              <View style={styles.progressBar}>
+                <View style={[styles.progressFill, { width: `${region.percentage}%` }]} />
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {renderStateList('Most Spotted', statistics.mostSpottedStates)}
+        {renderStateList('Least Spotted', statistics.rarestStates)}
+
+        {statistics.totalGames > 0 && neverSpotted.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Never Spotted ({neverSpotted.length})</Text>
+            <Text style={styles.neverSpottedText}>{neverSpotted.join(', ')}</Text>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Statistics</Text>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />}
+      >
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    content: {
+      padding: SPACING.lg,
+    },
+    statsContainer: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: SPACING.lg,
+      marginBottom: SPACING.md,
+    },
+    statItem: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    statNumber: {
+      fontSize: 22,
+      fontWeight: 'bold',
+      color: colors.primary,
+      marginBottom: SPACING.xs,
+    },
+    statLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    section: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: SPACING.md,
+      marginBottom: SPACING.md,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: SPACING.sm,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: SPACING.xs,
+    },
+    rowLabel: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    rowValue: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    regionRow: {
+      marginBottom: SPACING.sm,
+    },
+    progressBar: {
+      height: 6,
+      backgroundColor: colors.border,
+      borderRadius: 3,
+      overflow: 'hidden',
+    },
+    progressFill: {
+      height: '100%',
+      backgroundColor: colors.primary,
+    },
+    neverSpottedText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      lineHeight: 20,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      fontStyle: 'italic',
+      textAlign: 'center',
+    },
+    errorText: {
+      fontSize: 14,
+      color: colors.error,
+      textAlign: 'center',
+    },
+  });
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Share from 'react-native-share';
+import { captureRef } from 'react-native-view-shot';
+import { SPACING } from '../utils/constants';
+import { ThemeColors } from '../utils/theme';
+import { useGame } from '../contexts/GameContext';
+import { useThemedStyles } from '../contexts/ThemeContext';
+import { TripSummaryCard } from '../components/TripSummaryCard';
+import { TripSummary } from '../models/types';
+import { formatTripSummary } from '../utils/tripSummary';
+import { RootStackScreenProps } from '../navigation/types';
+
+/**
+ * A game's summary card with buttons to share it as text or as an image
+ */
+export function TripSummaryScreen({ navigation, route }: RootStackScreenProps<'TripSummary'>) {
+  const styles = useThemedStyles(createStyles);
+  const { getTripSummary } = useGame();
+  const { gameId } = route.params;
+  const [summary, setSummary] = useState<TripSummary | null>(null);
+  const cardRef = useRef<View>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getTripSummary(gameId)
+      .then(tripSummary => {
+        if (!cancelled) {
+          setSummary(tripSummary);
+        }
+      })
+      .catch(err => {
+        console.error('Failed to load trip summary:', err);
+        Alert.alert('Error', 'Failed to load this game.', [{ text: 'OK', onPress: () => navigation.goBack() }]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, getTripSummary, navigation]);
+
+  const handleShareText = async () => {
+    if (!summary) return;
+    try {
+      await Share.open({ message: formatTripSummary(summary), failOnCancel: false });
+    } catch (err) {
+      Alert.alert('Error', 'Failed to share. Please try again.');
+    }
+  };
+
+  const handleShareImage = async () => {
+    if (!summary || !cardRef.current) return;
+    try {
+      const uri = await captureRef(cardRef, { format: 'png', result: 'tmpfile' });
+      await Share.open({ url: uri, type: 'image/png', failOnCancel: false });
+    } catch (err) {
+      console.error('Failed to share summary image:', err);
+      Alert.alert('Error', 'Failed to share. Please try again.');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Trip Summary</Text>
+      </View>
+
+      {summary ? (
+        <ScrollView contentContainerStyle={styles.content}>
+          <TripSummaryCard ref={cardRef} summary={summary} />
+
+          <TouchableOpacity style={styles.primaryButton} onPress={handleShareImage}>
+            <Text style={styles.primaryButtonText}>Share as Image</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleShareText}>
+            <Text style={styles.secondaryButtonText}>Share as Text</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      ) : (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading summary...</Text>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: SPACING.lg,
+      paddingBottom: SPACING.lg,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      marginRight: SPACING.md,
+    },
+    backButtonText: {
+      fontSize: 16,
+      color: colors.primary,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    content: {
+      padding: SPACING.lg,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      alignItems: 'center',
+      marginTop: SPACING.lg,
+    },
+    primaryButtonText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.onPrimary,
+    },
+    secondaryButton: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingVertical: SPACING.md,
+      alignItems: 'center',
+      marginTop: SPACING.md,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    secondaryButtonText: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    loadingText: {
+      fontSize: 18,
+      color: colors.textSecondary,
+    },
+  });
@@ -2,3 +2,9 @@ export { MainMenuScreen } from './MainMenuScreen';
 export { CreateGameScreen } from './CreateGameScreen';
 export { ActiveGameScreen } from './ActiveGameScreen';
 export { GameHistoryScreen } from './GameHistoryScreen';
+export { AchievementsScreen } from './AchievementsScreen';
+export { StatisticsScreen } from './StatisticsScreen';
+export { SettingsScreen } from './SettingsScreen';
+export { OnboardingScreen } from './OnboardingScreen';
+export { RestoreBackupScreen } from './RestoreBackupScreen';
+export { TripSummaryScreen } from './TripSummaryScreen';
@@ -1,15 +1,25 @@
-import SQLite from 'react-native-sqlite-storage';
-import { Game, SpottedState } from '../models/types';
+import { DATABASE_CONFIG } from '../utils/constants';
+import { Migration, MIGRATIONS } from './migrations';
+import { NativeSQLiteAdapter } from './storage/NativeSQLiteAdapter';
+import { QueryResult, SqlStatement, StorageAdapter } from './storage/StorageAdapter';
 
-// Enable promise-based SQLite
-SQLite.enablePromise(true);
+export type { SqlStatement } from './storage/StorageAdapter';
 
 class DatabaseService {
   private static instance: DatabaseService;
-  private db: SQLite.SQLiteDatabase | null = null;
+  private adapter: StorageAdapter;
+  private db: StorageAdapter | null = null;
   private isInitialized = false;
-
-  private constructor() {}
+  private isTransactionScope = false;
+  // Shared by callers that initialize at the same time, e.g. several providers on mount
+  private initializing: Promise<void> | null = null;
+  // Serializes access to the connection so statements from outside a
+  // transaction can't interleave with one that is in progress
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(adapter: StorageAdapter = new NativeSQLiteAdapter()) {
+    this.adapter = adapter;
+  }
 
   static getInstance(): DatabaseService {
     if (!DatabaseService.instance) {
@@ -22,15 +32,23 @@ class DatabaseService {
     if (this.isInitialized && this.db) {
       return;
     }
+    if (!this.initializing) {
+      this.initializing = this.open().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
 
+  private async open(): Promise<void> {
     try {
       console.log('Initializing database...');
-      this.db = await SQLite.openDatabase({
-        name: 'StateGameApp.db',
-        location: 'default',
-      });
+      await this.adapter.open(DATABASE_CONFIG.name);
+      this.db = this.adapter;
 
-      await this.createTables();
+      await new DatabaseMigrations(this).runMigrations();
+      // Enabled after migrations so table rebuilds don't cascade deletes
+      await this.db.executeSql('PRAGMA foreign_keys = ON');
       this.isInitialized = true;
       console.log('Database initialized successfully');
     } catch (error) {
@@ -39,165 +57,163 @@ class DatabaseService {
     }
   }
 
-  private async createTables(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const queries = [
-      `CREATE TABLE IF NOT EXISTS games (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        created_at INTEGER NOT NULL,
-        completed_at INTEGER,
-        is_active INTEGER DEFAULT 1
-      )`,
-      `CREATE TABLE IF NOT EXISTS spotted_states (
-        id TEXT PRIMARY KEY,
-        game_id TEXT NOT NULL,
-        state_code TEXT NOT NULL,
-        spotted_at INTEGER NOT NULL,
-        FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
-      )`,
-    ];
-
-    for (const query of queries) {
-      await this.db.executeSql(query);
-    }
+  isReady(): boolean {
+    return this.isInitialized && this.db !== null;
   }
 
-  async createGame(game: Omit<Game, 'id'>): Promise<Game> {
+  getDatabase(): StorageAdapter {
     if (!this.db) throw new Error('Database not initialized');
-
-    const id = Date.now().toString();
-    const newGame: Game = {
-      ...game,
-      id,
-    };
-
-    await this.db.executeSql(
-      'INSERT INTO games (id, name, created_at, completed_at, is_active) VALUES (?, ?, ?, ?, ?)',
-      [id, game.name, game.createdAt, game.endDate || null, game.isComplete ? 0 : 1]
-    );
-
-    return newGame;
+    return this.db;
   }
 
-  async getActiveGame(): Promise<Game | null> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const [results] = await this.db.executeSql(
-      'SELECT * FROM games WHERE is_active = 1 ORDER BY created_at DESC LIMIT 1'
-    );
-
-    if (results.rows.length === 0) {
-      return null;
+  /**
+   * Run a single statement and return its result set
+   */
+  async executeQuery(sql: string, params: any[] = []): Promise<QueryResult> {
+    const db = this.getDatabase();
+    if (this.isTransactionScope) {
+      return db.executeSql(sql, params);
     }
-
-    const row = results.rows.item(0);
-    return {
-      id: row.id,
-      name: row.name,
-      startDate: row.created_at,
-      endDate: row.completed_at,
-      startLocation: '',
-      destination: '',
-      isComplete: row.is_active === 0,
-      createdAt: row.created_at,
-    };
+    return this.enqueue(() => db.executeSql(sql, params));
   }
 
-  async getAllGames(): Promise<Game[]> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const [results] = await this.db.executeSql(
-      'SELECT * FROM games ORDER BY created_at DESC'
-    );
-
-    const games: Game[] = [];
-    for (let i = 0; i < results.rows.length; i++) {
-      const row = results.rows.item(i);
-      games.push({
-        id: row.id,
-        name: row.name,
-        startDate: row.created_at,
-        endDate: row.completed_at,
-        startLocation: '',
-        destination: '',
-        isComplete: row.is_active === 0,
-        createdAt: row.created_at,
-      });
+  /**
+   * Run several statements in one transaction; any failure rolls back all of them
+   */
+  async executeBatch(statements: SqlStatement[]): Promise<void> {
+    const db = this.getDatabase();
+    if (this.isTransactionScope) {
+      for (const statement of statements) {
+        await db.executeSql(statement.sql, statement.params || []);
+      }
+      return;
     }
-
-    return games;
+    await this.enqueue(() => db.executeBatch(statements));
   }
 
-  async updateGame(game: Game): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  /**
+   * Run a unit of work in a single transaction. The work receives a
+   * transaction-scoped service and must issue all of its queries through it;
+   * everything commits if the work resolves and rolls back if it throws.
+   * Nested calls join the surrounding transaction.
+   */
+  async runInTransaction<T>(work: (tx: DatabaseService) => Promise<T>): Promise<T> {
+    if (this.isTransactionScope) {
+      return work(this);
+    }
 
-    await this.db.executeSql(
-      'UPDATE games SET name = ?, completed_at = ?, is_active = ? WHERE id = ?',
-      [game.name, game.endDate || null, game.isComplete ? 0 : 1, game.id]
-    );
+    const db = this.getDatabase();
+    return this.enqueue(async () => {
+      const tx = new DatabaseService(db);
+      tx.db = db;
+      tx.isInitialized = true;
+      tx.isTransactionScope = true;
+
+      await db.executeSql('BEGIN TRANSACTION');
+      try {
+        const result = await work(tx);
+        await db.executeSql('COMMIT');
+        return result;
+      } catch (error) {
+        try {
+          await db.executeSql('ROLLBACK');
+        } catch (rollbackError) {
+          console.error('Transaction rollback error:', rollbackError);
+        }
+        throw error;
+      } finally {
+        // The scope is only valid while the transaction is open
+        tx.db = null;
+        tx.isInitialized = false;
+      }
+    });
   }
 
-  async deleteGame(gameId: string): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    await this.db.executeSql('DELETE FROM games WHERE id = ?', [gameId]);
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.db.close();
+      this.db = null;
+      this.isInitialized = false;
+    }
   }
 
-  async addSpottedState(spottedState: Omit<SpottedState, 'id'>): Promise<SpottedState> {
-    if (!this.db) throw new Error('Database not initialized');
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
 
-    const id = `${spottedState.gameId}_${spottedState.stateCode}`;
-    const newSpottedState: SpottedState = {
-      ...spottedState,
-      id,
-    };
+/**
+ * Applies pending schema migrations up to DATABASE_CONFIG.version
+ */
+export class DatabaseMigrations {
+  private dbService: DatabaseService;
+  private migrations: Migration[];
+
+  constructor(
+    dbService: DatabaseService = DatabaseService.getInstance(),
+    migrations: Migration[] = MIGRATIONS,
+  ) {
+    this.dbService = dbService;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+  }
 
-    await this.db.executeSql(
-      'INSERT OR REPLACE INTO spotted_states (id, game_id, state_code, spotted_at) VALUES (?, ?, ?, ?)',
-      [id, spottedState.gameId, spottedState.stateCode, spottedState.spottedAt]
+  /**
+   * Create the schema_version bookkeeping table
+   */
+  async initializeMigrationsTable(): Promise<void> {
+    await this.dbService.executeQuery(
+      `CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )`
     );
-
-    return newSpottedState;
   }
 
-  async getSpottedStates(gameId: string): Promise<SpottedState[]> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const [results] = await this.db.executeSql(
-      'SELECT * FROM spotted_states WHERE game_id = ? ORDER BY spotted_at ASC',
-      [gameId]
+  /**
+   * Get the highest applied migration version (0 for a fresh database)
+   */
+  async getCurrentVersion(): Promise<number> {
+    const result = await this.dbService.executeQuery(
+      'SELECT MAX(version) as version FROM schema_version'
     );
 
-    const spottedStates: SpottedState[] = [];
-    for (let i = 0; i < results.rows.length; i++) {
-      const row = results.rows.item(i);
-      spottedStates.push({
-        id: row.id,
-        gameId: row.game_id,
-        stateCode: row.state_code,
-        spottedAt: row.spotted_at,
-      });
+    if (result.rows.length === 0) {
+      return 0;
     }
 
-    return spottedStates;
+    return result.rows.item(0)?.version ?? 0;
   }
 
-  async removeSpottedState(gameId: string, stateCode: string): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
+  /**
+   * Apply every migration newer than the current version, in order.
+   * Each migration commits together with its schema_version row.
+   */
+  async runMigrations(targetVersion: number = DATABASE_CONFIG.version): Promise<void> {
+    await this.initializeMigrationsTable();
+    const currentVersion = await this.getCurrentVersion();
+
+    if (currentVersion > targetVersion) {
+      throw new Error(
+        `Database schema version ${currentVersion} is newer than supported version ${targetVersion}`
+      );
+    }
 
-    await this.db.executeSql(
-      'DELETE FROM spotted_states WHERE game_id = ? AND state_code = ?',
-      [gameId, stateCode]
+    const pending = this.migrations.filter(
+      migration => migration.version > currentVersion && migration.version <= targetVersion
     );
-  }
 
-  async close(): Promise<void> {
-    if (this.db) {
-      await this.db.close();
-      this.db = null;
-      this.isInitialized = false;
+    for (const migration of pending) {
+      console.log(`Applying migration ${migration.version}: ${migration.description}`);
+      await this.dbService.executeBatch([
+        ...migration.statements.map(sql => ({ sql })),
+        {
+          sql: 'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+          params: [migration.version, migration.description, new Date().toISOString()],
+        },
+      ]);
     }
   }
 }
@@ -0,0 +1,27 @@
+/**
+ * Device capabilities the export feature depends on.
+ *
+ * Kept behind interfaces so tests can swap in fakes for the native file
+ * system and share sheet.
+ */
+
+export interface ExportFile {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  contents: string;
+}
+
+export interface ExportFileWriter {
+  /**
+   * Write an export to app storage and return its absolute path
+   */
+  writeFile(fileName: string, contents: string): Promise<string>;
+}
+
+export interface ExportSharer {
+  /**
+   * Hand a written export to the OS share sheet; resolves once it closes
+   */
+  share(file: ExportFile): Promise<void>;
+}
@@ -0,0 +1,87 @@
+import { ExportDocument, ExportedGame, ExportFormat, Game } from '../../models/types';
+import DatabaseService from '../DatabaseService';
+import { GameRepository } from '../../repositories/GameRepository';
+import { PlayerRepository } from '../../repositories/PlayerRepository';
+import { SpottedStateRepository } from '../../repositories/SpottedStateRepository';
+import { SightingRepository } from '../../repositories/SightingRepository';
+import { PhotoRepository } from '../../repositories/PhotoRepository';
+import { AchievementRepository } from '../../repositories/AchievementRepository';
+import { APP_CONFIG } from '../../utils/constants';
+import { ExportFileWriter, ExportSharer } from './ExportDevices';
+import { NativeExportFileWriter } from './NativeExportFileWriter';
+import { NativeExportSharer } from './NativeExportSharer';
+import { EXPORT_FORMAT_VERSION, EXPORT_MIME_TYPES, getExportFileName, toCsv, toJson } from './exportFormat';
+
+/**
+ * Exports games to JSON or CSV and hands the file to the share sheet
+ */
+export class ExportService {
+  private dbService: DatabaseService;
+  private fileWriter: ExportFileWriter;
+  private sharer: ExportSharer;
+
+  constructor(
+    dbService: DatabaseService = DatabaseService.getInstance(),
+    fileWriter: ExportFileWriter = new NativeExportFileWriter(),
+    sharer: ExportSharer = new NativeExportSharer(),
+  ) {
+    this.dbService = dbService;
+    this.fileWriter = fileWriter;
+    this.sharer = sharer;
+  }
+
+  /**
+   * Collect one game, or every game if no id is given, into an export document.
+   * Reads run in a single transaction so the snapshot is consistent.
+   */
+  async buildDocument(gameId?: string, exportedAt: string = new Date().toISOString()): Promise<ExportDocument> {
+    return this.dbService.runInTransaction(async tx => {
+      const gameRepository = new GameRepository(tx);
+      let games: Game[];
+      if (gameId) {
+        const game = await gameRepository.getGameById(gameId);
+        if (!game) {
+          throw new Error(`Game ${gameId} not found`);
+        }
+        games = [game];
+      } else {
+        games = await gameRepository.getAllGames();
+      }
+
+      const exportedGames: ExportedGame[] = [];
+      for (const game of games) {
+        exportedGames.push({
+          ...game,
+          players: await new PlayerRepository(tx).getPlayersForGame(game.id),
+          spottedStates: await new SpottedStateRepository(tx).getSpottedStatesForGame(game.id),
+          sightings: await new SightingRepository(tx).getSightingsForGame(game.id),
+          photos: await new PhotoRepository(tx).getPhotosForGame(game.id),
+        });
+      }
+
+      const unlocks = await new AchievementRepository(tx).getUnlockedAchievements();
+      return {
+        format: 'state-game-export',
+        formatVersion: EXPORT_FORMAT_VERSION,
+        exportedAt,
+        app: { name: APP_CONFIG.name, version: APP_CONFIG.version },
+        games: exportedGames,
+        achievements: gameId ? unlocks.filter(unlock => unlock.gameId === gameId) : unlocks,
+      };
+    });
+  }
+
+  /**
+   * Write one game, or the full history, in the given format and open the
+   * share sheet. Resolves to the written file's path.
+   */
+  async exportGames(format: ExportFormat, gameId?: string): Promise<string> {
+    const document = await this.buildDocument(gameId);
+    const contents = format === 'json' ? toJson(document) : toCsv(document);
+    const fileName = getExportFileName(format, document.exportedAt, gameId ? document.games[0].name : undefined);
+
+    const path = await this.fileWriter.writeFile(fileName, contents);
+    await this.sharer.share({ path, fileName, mimeType: EXPORT_MIME_TYPES[format], contents });
+    return path;
+  }
+}
@@ -0,0 +1,20 @@
+import { CachesDirectoryPath, exists, mkdir, writeFile } from '@dr.pogodin/react-native-fs';
+import { ExportFileWriter } from './ExportDevices';
+
+const EXPORT_DIRECTORY = `${CachesDirectoryPath}/exports`;
+
+/**
+ * Writes exports to the caches directory. They only need to outlive the share
+ * sheet, so the OS is free to clear them.
+ */
+export class NativeExportFileWriter implements ExportFileWriter {
+  async writeFile(fileName: string, contents: string): Promise<string> {
+    if (!(await exists(EXPORT_DIRECTORY))) {
+      await mkdir(EXPORT_DIRECTORY);
+    }
+
+    const path = `${EXPORT_DIRECTORY}/${fileName}`;
+    await writeFile(path, contents, 'utf8');
+    return path;
+  }
+}
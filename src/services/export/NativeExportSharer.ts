@@ -0,0 +1,18 @@
+import Share from 'react-native-share';
+import { ExportFile, ExportSharer } from './ExportDevices';
+
+/**
+ * Share sheet backed by react-native-share, which can attach files on both
+ * platforms. Dismissing the sheet is not an error.
+ */
+export class NativeExportSharer implements ExportSharer {
+  async share(file: ExportFile): Promise<void> {
+    await Share.open({
+      url: `file://${file.path}`,
+      type: file.mimeType,
+      filename: file.fileName,
+      title: file.fileName,
+      failOnCancel: false,
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import { ExportDocument, ExportFormat } from '../../models/types';
+import { jurisdictionCatalog } from '../../utils/StateListManager';
+
+/**
+ * Bump when a change to ExportDocument could break existing readers, and
+ * describe it in src/docs/EXPORT_FORMAT.md.
+ */
+export const EXPORT_FORMAT_VERSION = 1;
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+};
+
+export const CSV_COLUMNS = [
+  'game_id',
+  'game_name',
+  'state_code',
+  'state_name',
+  'sighted_at',
+  'player_name',
+  'latitude',
+  'longitude',
+  'accuracy_m',
+  'current_state_code',
+];
+
+type CsvValue = string | number | undefined;
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break (RFC 4180)
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize an export as indented JSON
+ */
+export function toJson(document: ExportDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Flatten an export to one CSV row per sighting, in game then sighting order
+ */
+export function toCsv(document: ExportDocument): string {
+  const rows: CsvValue[][] = [CSV_COLUMNS];
+
+  for (const game of document.games) {
+    const playerNames = new Map(game.players.map(player => [player.id, player.name]));
+    for (const sighting of game.sightings) {
+      rows.push([
+        game.id,
+        game.name,
+        sighting.stateCode,
+        jurisdictionCatalog.getStateByCode(sighting.stateCode)?.name,
+        sighting.sightedAt,
+        sighting.playerId ? playerNames.get(sighting.playerId) : undefined,
+        sighting.latitude,
+        sighting.longitude,
+        sighting.accuracy,
+        sighting.currentStateCode,
+      ]);
+    }
+  }
+
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for an export, e.g. state-game-road-trip-2024-06-01.json
+ */
+export function getExportFileName(format: ExportFormat, exportedAt: string, gameName?: string): string {
+  const subject = gameName
+    ? gameName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'game'
+    : 'history';
+  return `state-game-${subject}-${exportedAt.slice(0, 10)}.${format}`;
+}
@@ -0,0 +1,10 @@
+export type { ExportFile, ExportFileWriter, ExportSharer } from './ExportDevices';
+export { ExportService } from './ExportService';
+export {
+  CSV_COLUMNS,
+  EXPORT_FORMAT_VERSION,
+  escapeCsvValue,
+  getExportFileName,
+  toCsv,
+  toJson,
+} from './exportFormat';
@@ -0,0 +1,30 @@
+/**
+ * Device capabilities the backup restore feature depends on.
+ *
+ * Kept behind an interface so tests can swap in a fake for the native file
+ * system.
+ */
+
+export interface BackupFile {
+  path: string;
+  name: string;
+  modifiedAt?: string; // ISO timestamp
+}
+
+export interface BackupListing {
+  backups: BackupFile[]; // Newest first
+  errors: string[]; // Why some places couldn't be searched, to show the user
+}
+
+export interface BackupFileSource {
+  /**
+   * List JSON files the user may have copied into the app's own folder
+   */
+  listBackups(): Promise<BackupListing>;
+  /**
+   * Let the user choose a backup from anywhere with the system file picker,
+   * copied somewhere readBackup can read it; null if they cancel
+   */
+  pickBackup(): Promise<BackupFile | null>;
+  readBackup(path: string): Promise<string>;
+}
@@ -0,0 +1,138 @@
+import { BackupPreview, ExportDocument, Game, RestoreMode, RestoreResult } from '../../models/types';
+import DatabaseService from '../DatabaseService';
+import { GameRepository } from '../../repositories/GameRepository';
+import { PlayerRepository } from '../../repositories/PlayerRepository';
+import { SightingRepository } from '../../repositories/SightingRepository';
+import { PhotoRepository } from '../../repositories/PhotoRepository';
+import { AchievementRepository } from '../../repositories/AchievementRepository';
+import { SettingsRepository, stateListViewSetting } from '../../repositories/SettingsRepository';
+import { BackupFile, BackupFileSource, BackupListing } from './ImportDevices';
+import { NativeBackupFileSource } from './NativeBackupFileSource';
+import { parseBackup } from './backupFormat';
+
+/**
+ * Restores games from a JSON backup written by ExportService.
+ *
+ * Sightings are restored with their original ids, so spotted states, scores
+ * and achievements all follow from them. Photos are not restored: a backup
+ * carries photo metadata but not the images themselves.
+ */
+export class ImportService {
+  private dbService: DatabaseService;
+  private fileSource: BackupFileSource;
+
+  constructor(
+    dbService: DatabaseService = DatabaseService.getInstance(),
+    fileSource: BackupFileSource = new NativeBackupFileSource(),
+  ) {
+    this.dbService = dbService;
+    this.fileSource = fileSource;
+  }
+
+  listBackups(): Promise<BackupListing> {
+    return this.fileSource.listBackups();
+  }
+
+  pickBackup(): Promise<BackupFile | null> {
+    return this.fileSource.pickBackup();
+  }
+
+  /**
+   * Read and validate a backup file and find the games it shares with the device.
+   * Throws if the file isn't a backup that can be restored.
+   */
+  async previewBackup(path: string): Promise<BackupPreview> {
+    const document = parseBackup(await this.fileSource.readBackup(path));
+    return this.previewDocument(document);
+  }
+
+  /**
+   * Summarize a parsed backup, listing the games whose ids are already taken
+   */
+  async previewDocument(document: ExportDocument): Promise<BackupPreview> {
+    const games = new GameRepository(this.dbService);
+    const collisions: Game[] = [];
+    for (const game of document.games) {
+      const existing = await games.getGameById(game.id);
+      if (existing) {
+        collisions.push(existing);
+      }
+    }
+
+    return {
+      document,
+      sightingCount: document.games.reduce((total, game) => total + game.sightings.length, 0),
+      collisions,
+    };
+  }
+
+  /**
+   * Apply a backup in a single transaction. Games not on the device are added.
+   * For games that are, 'merge' keeps the device's copy and adds any players
+   * and sightings it is missing; 'replace' swaps it for the backup's copy.
+   *
+   * Only one game stays active: restored games are paused if the device
+   * already has an active game.
+   */
+  async restoreBackup(document: ExportDocument, mode: RestoreMode): Promise<RestoreResult> {
+    return this.dbService.runInTransaction(async tx => {
+      const games = new GameRepository(tx);
+      const players = new PlayerRepository(tx);
+      const sightings = new SightingRepository(tx);
+      const result: RestoreResult = { gamesAdded: 0, gamesMerged: 0, gamesReplaced: 0, removedPhotoFiles: [] };
+
+      const replacedIds = new Set<string>();
+      if (mode === 'replace') {
+        const photos = new PhotoRepository(tx);
+        const settings = new SettingsRepository(tx);
+        for (const game of document.games) {
+          if (await games.getGameById(game.id)) {
+            const gamePhotos = await photos.getPhotosForGame(game.id);
+            result.removedPhotoFiles.push(...gamePhotos.map(photo => photo.filePath));
+            await games.deleteGame(game.id);
+            await settings.deleteValue(stateListViewSetting(game.id));
+            replacedIds.add(game.id);
+          }
+        }
+      }
+
+      // Keep the newest of the backup's active games, unless the device has its own
+      let activeGameId: string | undefined;
+      if (!(await games.getActiveGame())) {
+        const activeGames = document.games
+          .filter(game => !game.isComplete)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        activeGameId = activeGames[0]?.id;
+      }
+
+      for (const game of document.games) {
+        if (await games.getGameById(game.id)) {
+          result.gamesMerged++;
+        } else {
+          await games.restoreGame({ ...game, isComplete: game.isComplete || game.id !== activeGameId });
+          if (replacedIds.has(game.id)) {
+            result.gamesReplaced++;
+          } else {
+            result.gamesAdded++;
+          }
+        }
+
+        for (const player of game.players) {
+          await players.restorePlayer(player);
+        }
+        for (const sighting of game.sightings) {
+          await sightings.restoreSighting(sighting);
+        }
+      }
+
+      // Unlocks already on the device keep their original date
+      const achievements = new AchievementRepository(tx);
+      for (const unlock of document.achievements) {
+        const gameId = unlock.gameId && (await games.getGameById(unlock.gameId)) ? unlock.gameId : undefined;
+        await achievements.unlockAchievements([unlock.achievementId], gameId, unlock.unlockedAt);
+      }
+
+      return result;
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import { DocumentDirectoryPath, exists, readDir, readFile } from '@dr.pogodin/react-native-fs';
+import { errorCodes, isErrorWithCode, keepLocalCopy, pick, types } from '@react-native-documents/picker';
+import { BackupFile, BackupFileSource, BackupListing } from './ImportDevices';
+
+/**
+ * Finds backups in the app's Documents folder, which iOS shows in the Files
+ * app. Android doesn't let the app look through shared folders such as
+ * Downloads, so a backup saved or received there is chosen with the system
+ * file picker instead, which works on both platforms.
+ */
+export class NativeBackupFileSource implements BackupFileSource {
+  async listBackups(): Promise<BackupListing> {
+    const backups: BackupFile[] = [];
+    const errors: string[] = [];
+    try {
+      if (await exists(DocumentDirectoryPath)) {
+        for (const item of await readDir(DocumentDirectoryPath)) {
+          if (item.isFile() && item.name.toLowerCase().endsWith('.json')) {
+            backups.push({ path: item.path, name: item.name, modifiedAt: item.mtime?.toISOString() });
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to list backups in ${DocumentDirectoryPath}:`, error);
+      errors.push('The app\'s folder could not be read.');
+    }
+
+    backups.sort((a, b) => (b.modifiedAt || '').localeCompare(a.modifiedAt || ''));
+    return { backups, errors };
+  }
+
+  async pickBackup(): Promise<BackupFile | null> {
+    let picked;
+    try {
+      // Backups sent through chat or mail often lose their JSON type, so any file can be picked
+      [picked] = await pick({ type: [types.json, types.plainText, types.allFiles] });
+    } catch (error) {
+      if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) {
+        return null;
+      }
+      throw error;
+    }
+
+    // Android hands back a content:// uri, which has to be copied to a file to be read
+    const name = picked.name ?? 'backup.json';
+    const [copy] = await keepLocalCopy({
+      files: [{ uri: picked.uri, fileName: name }],
+      destination: 'cachesDirectory',
+    });
+    if (copy.status === 'error') {
+      throw new Error(`The file could not be copied: ${copy.copyError}`);
+    }
+
+    return { path: decodeURIComponent(copy.localUri.replace(/^file:\/\//, '')), name };
+  }
+
+  readBackup(path: string): Promise<string> {
+    return readFile(path, 'utf8');
+  }
+}
@@ -0,0 +1,174 @@
+import { ExportDocument } from '../../models/types';
+import { EXPORT_FORMAT_VERSION } from '../export';
+import { jurisdictionCatalog } from '../../utils/StateListManager';
+import { isJurisdictionSet } from '../../utils/jurisdictions';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Optional fields are normally left out, but tolerate an explicit null
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const isOptionalString = (value: unknown) => isMissing(value) || isString(value);
+
+const isOptionalNumber = (value: unknown) => isMissing(value) || isNumber(value);
+
+// Backups from before jurisdiction sets have none; those games track the 50 states
+const isOptionalJurisdictionSets = (value: unknown) =>
+  isMissing(value) || (Array.isArray(value) && value.every(isJurisdictionSet));
+
+const isStateCode = (value: unknown) => isString(value) && jurisdictionCatalog.isValidStateCode(value);
+
+/**
+ * Check one game of a backup, appending a message for every problem found
+ */
+function validateGame(game: unknown, index: number, errors: string[]): void {
+  if (!isObject(game) || !isString(game.id) || game.id.length === 0) {
+    errors.push(`Game ${index + 1} has no id`);
+    return;
+  }
+
+  const label = `Game "${isString(game.name) ? game.name : game.id}"`;
+  if (
+    !isString(game.name) ||
+    !isString(game.startDate) ||
+    !isString(game.createdAt) ||
+    !isString(game.startLocation) ||
+    !isString(game.destination) ||
+    typeof game.isComplete !== 'boolean' ||
+    !isOptionalString(game.endDate) ||
+    !isOptionalNumber(game.finalScore) ||
+    !isOptionalJurisdictionSets(game.jurisdictionSets) ||
+    !isOptionalString(game.targetName) ||
+    !(isMissing(game.targetStateCodes) || Array.isArray(game.targetStateCodes))
+  ) {
+    errors.push(`${label} is missing required fields`);
+  } else if (Array.isArray(game.targetStateCodes)) {
+    for (const code of game.targetStateCodes.filter(value => !isStateCode(value))) {
+      errors.push(`${label} targets unknown state "${String(code)}"`);
+    }
+  }
+
+  for (const key of ['players', 'spottedStates', 'sightings', 'photos']) {
+    if (!Array.isArray(game[key])) {
+      errors.push(`${label} has no ${key} list`);
+      return;
+    }
+  }
+
+  const playerIds = new Set<string>();
+  for (const player of game.players as unknown[]) {
+    if (
+      !isObject(player) ||
+      !isString(player.id) ||
+      player.gameId !== game.id ||
+      !isString(player.name) ||
+      !isNumber(player.position) ||
+      !isOptionalNumber(player.finalPoints)
+    ) {
+      errors.push(`${label} has an invalid player`);
+      continue;
+    }
+    playerIds.add(player.id);
+  }
+
+  for (const sighting of game.sightings as unknown[]) {
+    if (
+      !isObject(sighting) ||
+      !isString(sighting.id) ||
+      sighting.gameId !== game.id ||
+      !isString(sighting.sightedAt) ||
+      !isOptionalNumber(sighting.latitude) ||
+      !isOptionalNumber(sighting.longitude) ||
+      !isOptionalNumber(sighting.accuracy)
+    ) {
+      errors.push(`${label} has an invalid sighting`);
+      continue;
+    }
+    if (!isStateCode(sighting.stateCode)) {
+      errors.push(`${label} has a sighting of unknown state "${String(sighting.stateCode)}"`);
+    }
+    if (!isMissing(sighting.currentStateCode) && !isStateCode(sighting.currentStateCode)) {
+      errors.push(`${label} has a sighting made in unknown state "${String(sighting.currentStateCode)}"`);
+    }
+    if (!isMissing(sighting.playerId) && !playerIds.has(sighting.playerId as string)) {
+      errors.push(`${label} has a sighting by an unknown player`);
+    }
+  }
+
+  for (const record of [...(game.spottedStates as unknown[]), ...(game.photos as unknown[])]) {
+    if (!isObject(record) || !isStateCode(record.stateCode)) {
+      errors.push(`${label} refers to unknown state "${isObject(record) ? String(record.stateCode) : ''}"`);
+    }
+  }
+}
+
+/**
+ * List every problem that would stop a backup from being restored.
+ * An empty list means the data is a valid ExportDocument.
+ */
+export function validateBackup(data: unknown): string[] {
+  if (!isObject(data) || data.format !== 'state-game-export') {
+    return ['This file is not a State Game backup'];
+  }
+  if (!Number.isInteger(data.formatVersion) || (data.formatVersion as number) < 1) {
+    return ['The backup has no format version'];
+  }
+  if ((data.formatVersion as number) > EXPORT_FORMAT_VERSION) {
+    return ['The backup was made by a newer version of the app. Update the app and try again'];
+  }
+  if (!Array.isArray(data.games) || !Array.isArray(data.achievements)) {
+    return ['The backup has no games'];
+  }
+
+  const errors: string[] = [];
+  const gameIds = new Set<string>();
+  data.games.forEach((game, index) => {
+    validateGame(game, index, errors);
+    if (isObject(game) && isString(game.id)) {
+      if (gameIds.has(game.id)) {
+        errors.push(`Game ${game.id} appears more than once`);
+      }
+      gameIds.add(game.id);
+    }
+  });
+
+  for (const unlock of data.achievements) {
+    if (
+      !isObject(unlock) ||
+      !isString(unlock.achievementId) ||
+      !isString(unlock.unlockedAt) ||
+      !isOptionalString(unlock.gameId)
+    ) {
+      errors.push('The backup has an invalid achievement');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate the contents of a JSON backup file.
+ * Throws an Error describing the first problem if it can't be restored.
+ */
+export function parseBackup(contents: string): ExportDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch (error) {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const errors = validateBackup(data);
+  if (errors.length > 0) {
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more problems)` : '';
+    throw new Error(`${errors[0]}${more}`);
+  }
+  return data as ExportDocument;
+}
@@ -0,0 +1,3 @@
+export type { BackupFile, BackupFileSource, BackupListing } from './ImportDevices';
+export { ImportService } from './ImportService';
+export { parseBackup, validateBackup } from './backupFormat';
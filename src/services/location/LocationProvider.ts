@@ -0,0 +1,12 @@
+import { GeoLocation } from '../../models/types';
+
+/**
+ * Source of the device's current position.
+ *
+ * Implementations resolve to null instead of throwing when no fix is
+ * available (permission denied, timeout, no signal) so callers can save a
+ * sighting without a location.
+ */
+export interface LocationProvider {
+  getCurrentLocation(): Promise<GeoLocation | null>;
+}
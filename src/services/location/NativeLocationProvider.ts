@@ -0,0 +1,56 @@
+import { PermissionsAndroid, Platform } from 'react-native';
+import Geolocation from '@react-native-community/geolocation';
+import { GeoLocation } from '../../models/types';
+import { LocationProvider } from './LocationProvider';
+
+const LOCATION_TIMEOUT_MS = 15000;
+const MAX_LOCATION_AGE_MS = 60000;
+
+/**
+ * Location provider backed by the platform location services
+ */
+export class NativeLocationProvider implements LocationProvider {
+  async getCurrentLocation(): Promise<GeoLocation | null> {
+    if (!(await this.ensurePermission())) {
+      return null;
+    }
+
+    return new Promise(resolve => {
+      Geolocation.getCurrentPosition(
+        position => {
+          resolve({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy ?? null,
+          });
+        },
+        error => {
+          console.log('No location fix:', error.message);
+          resolve(null);
+        },
+        {
+          enableHighAccuracy: false,
+          timeout: LOCATION_TIMEOUT_MS,
+          maximumAge: MAX_LOCATION_AGE_MS,
+        },
+      );
+    });
+  }
+
+  private async ensurePermission(): Promise<boolean> {
+    if (Platform.OS !== 'android') {
+      // iOS prompts on first use based on NSLocationWhenInUseUsageDescription
+      return true;
+    }
+
+    try {
+      const result = await PermissionsAndroid.request(
+        PermissionsAndroid.PERMISSIONS.ACCESS_COARSE_LOCATION,
+      );
+      return result === PermissionsAndroid.RESULTS.GRANTED;
+    } catch (error) {
+      console.error('Location permission request failed:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export type { LocationProvider } from './LocationProvider';
+export { NativeLocationProvider } from './NativeLocationProvider';
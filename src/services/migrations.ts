@@ -0,0 +1,243 @@
+/**
+ * Ordered schema migrations for the app database.
+ *
+ * Each migration moves the schema from `version - 1` to `version` and is
+ * applied inside a single transaction together with its schema_version row.
+ * Never edit a migration that has shipped; append a new one and bump
+ * DATABASE_CONFIG.version instead.
+ */
+
+export interface Migration {
+  version: number;
+  description: string;
+  statements: string[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create games and spotted_states tables',
+    // Installs that predate the migration runner already have these tables,
+    // so the baseline has to be idempotent.
+    statements: [
+      `CREATE TABLE IF NOT EXISTS games (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        completed_at INTEGER,
+        is_active INTEGER DEFAULT 1
+      )`,
+      `CREATE TABLE IF NOT EXISTS spotted_states (
+        id TEXT PRIMARY KEY,
+        game_id TEXT NOT NULL,
+        state_code TEXT NOT NULL,
+        spotted_at INTEGER NOT NULL,
+        FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
+      )`,
+    ],
+  },
+  {
+    version: 2,
+    description: 'Canonical snake_case games schema with trip locations',
+    // Rebuilds both tables: the v1 games table had no location columns and
+    // stored completion inverted as is_active, and spotted_states allowed
+    // duplicate rows per game and state.
+    statements: [
+      `CREATE TABLE games_v2 (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        start_date TEXT NOT NULL,
+        end_date TEXT,
+        start_location TEXT NOT NULL DEFAULT '',
+        destination TEXT NOT NULL DEFAULT '',
+        is_complete INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      )`,
+      `INSERT INTO games_v2 (id, name, start_date, end_date, is_complete, created_at)
+        SELECT id, name, created_at, completed_at,
+          CASE WHEN is_active = 1 THEN 0 ELSE 1 END, created_at
+        FROM games`,
+      `CREATE TABLE spotted_states_v2 (
+        id TEXT PRIMARY KEY,
+        game_id TEXT NOT NULL,
+        state_code TEXT NOT NULL,
+        spotted_at TEXT NOT NULL,
+        UNIQUE (game_id, state_code),
+        FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
+      )`,
+      `INSERT OR IGNORE INTO spotted_states_v2 (id, game_id, state_code, spotted_at)
+        SELECT id, game_id, state_code, spotted_at
+        FROM spotted_states
+        ORDER BY spotted_at ASC`,
+      'DROP TABLE spotted_states',
+      'DROP TABLE games',
+      'ALTER TABLE games_v2 RENAME TO games',
+      'ALTER TABLE spotted_states_v2 RENAME TO spotted_states',
+      'CREATE INDEX idx_spotted_states_state_code ON spotted_states (state_code)',
+    ],
+  },
+  {
+    version: 3,
+    description: 'Record every sighting; spotted_states becomes a first-seen view',
+    statements: [
+      `CREATE TABLE sightings (
+        id TEXT PRIMARY KEY,
+        game_id TEXT NOT NULL,
+        state_code TEXT NOT NULL,
+        sighted_at TEXT NOT NULL,
+        FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX idx_sightings_game_state ON sightings (game_id, state_code, sighted_at)',
+      'CREATE INDEX idx_sightings_state_code ON sightings (state_code)',
+      `INSERT INTO sightings (id, game_id, state_code, sighted_at)
+        SELECT id, game_id, state_code, spotted_at
+        FROM spotted_states
+        ORDER BY spotted_at ASC`,
+      'DROP TABLE spotted_states',
+      // One row per game and state: the earliest sighting
+      `CREATE VIEW spotted_states AS
+        SELECT s.id, s.game_id, s.state_code, s.sighted_at AS spotted_at
+        FROM sightings s
+        WHERE s.rowid = (
+          SELECT earliest.rowid FROM sightings earliest
+          WHERE earliest.game_id = s.game_id AND earliest.state_code = s.state_code
+          ORDER BY earliest.sighted_at ASC, earliest.rowid ASC
+          LIMIT 1
+        )`,
+    ],
+  },
+  {
+    version: 4,
+    description: 'Photo attachments for sightings',
+    statements: [
+      `CREATE TABLE photos (
+        id TEXT PRIMARY KEY,
+        sighting_id TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (sighting_id) REFERENCES sightings (id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX idx_photos_sighting ON photos (sighting_id)',
+    ],
+  },
+  {
+    version: 5,
+    description: 'Where each sighting happened',
+    statements: [
+      'ALTER TABLE sightings ADD COLUMN latitude REAL',
+      'ALTER TABLE sightings ADD COLUMN longitude REAL',
+      'ALTER TABLE sightings ADD COLUMN accuracy REAL',
+      'DROP VIEW spotted_states',
+      `CREATE VIEW spotted_states AS
+        SELECT s.id, s.game_id, s.state_code, s.sighted_at AS spotted_at,
+          s.latitude, s.longitude, s.accuracy
+        FROM sightings s
+        WHERE s.rowid = (
+          SELECT earliest.rowid FROM sightings earliest
+          WHERE earliest.game_id = s.game_id AND earliest.state_code = s.state_code
+          ORDER BY earliest.sighted_at ASC, earliest.rowid ASC
+          LIMIT 1
+        )`,
+    ],
+  },
+  {
+    version: 6,
+    description: 'Key-value app settings',
+    statements: [
+      `CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 7,
+    description: 'State the player was in for each sighting',
+    statements: [
+      'ALTER TABLE sightings ADD COLUMN current_state_code TEXT',
+      'DROP VIEW spotted_states',
+      `CREATE VIEW spotted_states AS
+        SELECT s.id, s.game_id, s.state_code, s.sighted_at AS spotted_at,
+          s.latitude, s.longitude, s.accuracy, s.current_state_code
+        FROM sightings s
+        WHERE s.rowid = (
+          SELECT earliest.rowid FROM sightings earliest
+          WHERE earliest.game_id = s.game_id AND earliest.state_code = s.state_code
+          ORDER BY earliest.sighted_at ASC, earliest.rowid ASC
+          LIMIT 1
+        )`,
+    ],
+  },
+  {
+    version: 8,
+    description: 'Players in a game and who made each sighting',
+    statements: [
+      `CREATE TABLE players (
+        id TEXT PRIMARY KEY,
+        game_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE CASCADE
+      )`,
+      'CREATE INDEX idx_players_game ON players (game_id, position)',
+      'ALTER TABLE sightings ADD COLUMN player_id TEXT REFERENCES players (id) ON DELETE SET NULL',
+      'DROP VIEW spotted_states',
+      `CREATE VIEW spotted_states AS
+        SELECT s.id, s.game_id, s.state_code, s.sighted_at AS spotted_at,
+          s.latitude, s.longitude, s.accuracy, s.current_state_code, s.player_id
+        FROM sightings s
+        WHERE s.rowid = (
+          SELECT earliest.rowid FROM sightings earliest
+          WHERE earliest.game_id = s.game_id AND earliest.state_code = s.state_code
+          ORDER BY earliest.sighted_at ASC, earliest.rowid ASC
+          LIMIT 1
+        )`,
+    ],
+  },
+  {
+    version: 9,
+    description: 'Final scores recorded when a game is completed',
+    // Point values follow play history, so finished games keep the score
+    // they ended with instead of being re-scored as history grows
+    statements: [
+      'ALTER TABLE games ADD COLUMN final_score INTEGER',
+      'ALTER TABLE players ADD COLUMN final_points INTEGER',
+    ],
+  },
+  {
+    version: 10,
+    description: 'Achievement unlocks',
+    // Unlocks are lifetime, so they outlive the game that earned them
+    statements: [
+      `CREATE TABLE achievement_unlocks (
+        achievement_id TEXT PRIMARY KEY,
+        game_id TEXT,
+        unlocked_at TEXT NOT NULL,
+        FOREIGN KEY (game_id) REFERENCES games (id) ON DELETE SET NULL
+      )`,
+    ],
+  },
+  {
+    version: 11,
+    description: 'Jurisdiction sets each game tracks',
+    // Comma-separated set ids; every game so far tracked the 50 states
+    statements: [
+      "ALTER TABLE games ADD COLUMN jurisdiction_sets TEXT NOT NULL DEFAULT 'us-states'",
+    ],
+  },
+  {
+    version: 12,
+    description: 'Target lists for games and reusable target templates',
+    // Comma-separated state codes; NULL targets every state in the game's sets
+    statements: [
+      'ALTER TABLE games ADD COLUMN target_name TEXT',
+      'ALTER TABLE games ADD COLUMN target_state_codes TEXT',
+      `CREATE TABLE target_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        state_codes TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )`,
+    ],
+  },
+];
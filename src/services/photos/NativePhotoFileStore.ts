@@ -0,0 +1,48 @@
+import {
+  DocumentDirectoryPath,
+  copyFile,
+  exists,
+  mkdir,
+  unlink,
+} from '@dr.pogodin/react-native-fs';
+import { PhotoFileStore, PickedPhoto } from './PhotoDevices';
+
+const PHOTO_DIRECTORY = `${DocumentDirectoryPath}/photos`;
+
+/**
+ * Stores photos in the app's documents directory.
+ *
+ * Only file names are persisted; the directory is resolved at runtime because
+ * the iOS container path changes between app updates.
+ */
+export class NativePhotoFileStore implements PhotoFileStore {
+  async savePhoto(photo: PickedPhoto): Promise<string> {
+    if (!(await exists(PHOTO_DIRECTORY))) {
+      await mkdir(PHOTO_DIRECTORY);
+    }
+
+    const extension = this.getExtension(photo);
+    const fileName = `photo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${extension}`;
+    await copyFile(photo.uri, `${PHOTO_DIRECTORY}/${fileName}`);
+    return fileName;
+  }
+
+  async deletePhoto(fileName: string): Promise<void> {
+    const path = `${PHOTO_DIRECTORY}/${fileName}`;
+    if (await exists(path)) {
+      await unlink(path);
+    }
+  }
+
+  getPhotoUri(fileName: string): string {
+    return `file://${PHOTO_DIRECTORY}/${fileName}`;
+  }
+
+  private getExtension(photo: PickedPhoto): string {
+    const match = (photo.fileName || photo.uri).match(/\.([a-zA-Z0-9]+)$/);
+    if (match) {
+      return match[1].toLowerCase();
+    }
+    return photo.mimeType === 'image/png' ? 'png' : 'jpg';
+  }
+}
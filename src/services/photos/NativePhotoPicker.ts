@@ -0,0 +1,30 @@
+import { launchImageLibrary } from 'react-native-image-picker';
+import { PhotoPicker, PickedPhoto } from './PhotoDevices';
+
+/**
+ * Photo picker backed by the platform photo library
+ */
+export class NativePhotoPicker implements PhotoPicker {
+  async pickPhotos(): Promise<PickedPhoto[]> {
+    const response = await launchImageLibrary({
+      mediaType: 'photo',
+      selectionLimit: 0,
+      quality: 0.8,
+    });
+
+    if (response.didCancel) {
+      return [];
+    }
+    if (response.errorCode) {
+      throw new Error(response.errorMessage || `Photo picker failed: ${response.errorCode}`);
+    }
+
+    const photos: PickedPhoto[] = [];
+    for (const asset of response.assets || []) {
+      if (asset.uri) {
+        photos.push({ uri: asset.uri, fileName: asset.fileName, mimeType: asset.type });
+      }
+    }
+    return photos;
+  }
+}
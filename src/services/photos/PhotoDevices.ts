@@ -0,0 +1,31 @@
+/**
+ * Device capabilities the photo feature depends on.
+ *
+ * Kept behind interfaces so tests can swap in fakes for the native image
+ * picker and file system.
+ */
+
+export interface PickedPhoto {
+  uri: string;
+  fileName?: string;
+  mimeType?: string;
+}
+
+export interface PhotoPicker {
+  /**
+   * Let the user choose one or more photos; resolves to [] if they cancel
+   */
+  pickPhotos(): Promise<PickedPhoto[]>;
+}
+
+export interface PhotoFileStore {
+  /**
+   * Copy a picked photo into app-local storage and return its stored name
+   */
+  savePhoto(photo: PickedPhoto): Promise<string>;
+  deletePhoto(fileName: string): Promise<void>;
+  /**
+   * Resolve a stored name to a URI an <Image> can display
+   */
+  getPhotoUri(fileName: string): string;
+}
@@ -0,0 +1,58 @@
+import { NativePhotoFileStore } from './NativePhotoFileStore';
+import { NativePhotoPicker } from './NativePhotoPicker';
+import { PhotoFileStore, PhotoPicker } from './PhotoDevices';
+
+/**
+ * Device-side photo handling: picking, copying into app storage and cleanup.
+ * Database rows are managed separately by PhotoRepository.
+ */
+export class PhotoService {
+  private picker: PhotoPicker;
+  private fileStore: PhotoFileStore;
+
+  constructor(
+    picker: PhotoPicker = new NativePhotoPicker(),
+    fileStore: PhotoFileStore = new NativePhotoFileStore(),
+  ) {
+    this.picker = picker;
+    this.fileStore = fileStore;
+  }
+
+  /**
+   * Let the user pick photos and copy them into app storage.
+   * Resolves to the stored file names ([] if the user cancelled).
+   */
+  async pickAndSavePhotos(): Promise<string[]> {
+    const picked = await this.picker.pickPhotos();
+    const saved: string[] = [];
+
+    try {
+      for (const photo of picked) {
+        saved.push(await this.fileStore.savePhoto(photo));
+      }
+    } catch (error) {
+      await this.deletePhotoFiles(saved);
+      throw error;
+    }
+
+    return saved;
+  }
+
+  /**
+   * Delete stored photo files. Best effort: a file that can't be removed
+   * shouldn't block deleting the data that owned it.
+   */
+  async deletePhotoFiles(fileNames: string[]): Promise<void> {
+    for (const fileName of fileNames) {
+      try {
+        await this.fileStore.deletePhoto(fileName);
+      } catch (error) {
+        console.error(`Failed to delete photo ${fileName}:`, error);
+      }
+    }
+  }
+
+  getPhotoUri(fileName: string): string {
+    return this.fileStore.getPhotoUri(fileName);
+  }
+}
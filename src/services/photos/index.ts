@@ -0,0 +1,2 @@
+export type { PhotoPicker, PhotoFileStore, PickedPhoto } from './PhotoDevices';
+export { PhotoService } from './PhotoService';
@@ -0,0 +1,44 @@
+import SQLite from 'react-native-sqlite-storage';
+import { QueryResult, SqlStatement, StorageAdapter } from './StorageAdapter';
+
+// Enable promise-based SQLite
+SQLite.enablePromise(true);
+
+/**
+ * On-device SQLite backend built on react-native-sqlite-storage
+ */
+export class NativeSQLiteAdapter implements StorageAdapter {
+  private db: SQLite.SQLiteDatabase | null = null;
+
+  async open(name: string): Promise<void> {
+    this.db = await SQLite.openDatabase({
+      name,
+      location: 'default',
+    });
+  }
+
+  async executeSql(sql: string, params: any[] = []): Promise<QueryResult> {
+    const [results] = await this.getDatabase().executeSql(sql, params);
+    return results;
+  }
+
+  async executeBatch(statements: SqlStatement[]): Promise<void> {
+    await this.getDatabase().transaction(tx => {
+      for (const statement of statements) {
+        tx.executeSql(statement.sql, statement.params || []);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.db.close();
+      this.db = null;
+    }
+  }
+
+  private getDatabase(): SQLite.SQLiteDatabase {
+    if (!this.db) throw new Error('Database not initialized');
+    return this.db;
+  }
+}
@@ -0,0 +1,99 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { QueryResult, SqlStatement, StorageAdapter } from './StorageAdapter';
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs();
+  }
+  return sqlJsPromise;
+}
+
+/**
+ * Pure JavaScript SQLite backend (sql.js) for Jest and Node scripts.
+ *
+ * Databases live in memory; pass the bytes of an existing database file to
+ * start from it, and call `export()` to get the current bytes back.
+ */
+export class SqlJsStorageAdapter implements StorageAdapter {
+  private db: Database | null = null;
+  private initialData?: Uint8Array;
+
+  constructor(initialData?: Uint8Array) {
+    this.initialData = initialData;
+  }
+
+  async open(_name: string): Promise<void> {
+    const SQL = await loadSqlJs();
+    this.db = new SQL.Database(this.initialData);
+  }
+
+  async executeSql(sql: string, params: any[] = []): Promise<QueryResult> {
+    return this.run(this.getDatabase(), sql, params);
+  }
+
+  async executeBatch(statements: SqlStatement[]): Promise<void> {
+    const db = this.getDatabase();
+    db.run('BEGIN TRANSACTION');
+    try {
+      for (const statement of statements) {
+        this.run(db, statement.sql, statement.params || []);
+      }
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  /**
+   * Serialize the current database to SQLite file bytes
+   */
+  export(): Uint8Array {
+    return this.getDatabase().export();
+  }
+
+  private run(db: Database, sql: string, params: any[]): QueryResult {
+    const statement = db.prepare(sql);
+    const rows: Record<string, SqlValue>[] = [];
+
+    try {
+      statement.bind(params.map(toSqlValue));
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+    } finally {
+      statement.free();
+    }
+
+    const [lastInsert] = db.exec('SELECT last_insert_rowid() as id');
+    return {
+      rows: {
+        length: rows.length,
+        item: (index: number) => rows[index],
+      },
+      rowsAffected: db.getRowsModified(),
+      insertId: lastInsert ? Number(lastInsert.values[0][0]) : undefined,
+    };
+  }
+
+  private getDatabase(): Database {
+    if (!this.db) throw new Error('Database not initialized');
+    return this.db;
+  }
+}
+
+// Mirror the native plugin's coercion of JS values to SQLite values
+function toSqlValue(value: any): SqlValue {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value;
+}
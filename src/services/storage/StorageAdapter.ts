@@ -0,0 +1,29 @@
+/**
+ * Storage backend abstraction used by DatabaseService.
+ *
+ * Result sets follow the react-native-sqlite-storage shape so repositories
+ * can read rows the same way regardless of which backend is running.
+ */
+
+export interface SqlStatement {
+  sql: string;
+  params?: any[];
+}
+
+export interface QueryResultRows {
+  length: number;
+  item(index: number): any;
+}
+
+export interface QueryResult {
+  rows: QueryResultRows;
+  rowsAffected: number;
+  insertId?: number;
+}
+
+export interface StorageAdapter {
+  open(name: string): Promise<void>;
+  executeSql(sql: string, params?: any[]): Promise<QueryResult>;
+  executeBatch(statements: SqlStatement[]): Promise<void>;
+  close(): Promise<void>;
+}
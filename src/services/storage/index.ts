@@ -0,0 +1,2 @@
+export type { StorageAdapter, QueryResult, QueryResultRows, SqlStatement } from './StorageAdapter';
+export { NativeSQLiteAdapter } from './NativeSQLiteAdapter';
@@ -0,0 +1,224 @@
+import DatabaseService from '../services/DatabaseService';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import { AchievementRepository } from '../repositories/AchievementRepository';
+import { GameRepository } from '../repositories/GameRepository';
+import { SpottedStateRepository } from '../repositories/SpottedStateRepository';
+import { Game, SpottedState } from '../models/types';
+import {
+  ACHIEVEMENT_RULES,
+  AchievementEngine,
+  FASTEST_FULL_GAME_DAYS,
+  getBestDay,
+  getFullGameDuration,
+  STATES_IN_A_DAY_TARGET,
+} from '../utils/AchievementEngine';
+import { calculatePersonalRecords } from '../utils/records';
+import { US_STATES } from '../utils/constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Midday UTC keeps each timestamp on the same calendar day in any test time zone
+const START = new Date('2024-06-01T12:00:00.000Z').getTime();
+
+const makeGame = (id: string, overrides: Partial<Game> = {}): Game => ({
+  id,
+  name: `Trip ${id}`,
+  startDate: new Date(START).toISOString(),
+  startLocation: '',
+  destination: '',
+  isComplete: false,
+  createdAt: new Date(START).toISOString(),
+  ...overrides,
+});
+
+const makeStates = (gameId: string, codes: string[], spacingMs = 0, startMs = START): SpottedState[] =>
+  codes.map((stateCode, index) => ({
+    id: `${gameId}_${stateCode}`,
+    gameId,
+    stateCode,
+    spottedAt: new Date(startMs + index * spacingMs).toISOString(),
+  }));
+
+const ALL_CODES = US_STATES.map(state => state.code);
+
+describe('Achievements', () => {
+  const engine = new AchievementEngine();
+  const earnedIds = (game: Game, states: SpottedState[], unlocked: string[] = []) =>
+    engine.evaluate(game, states, unlocked).map(achievement => achievement.id);
+
+  describe('rules', () => {
+    test('should list every achievement in display order', () => {
+      expect(engine.getAchievements().map(a => a.id)).toEqual(ACHIEVEMENT_RULES.map(rule => rule.id));
+      expect(engine.getAchievement('hawaii')?.title).toBe('Aloha');
+      expect(engine.getAchievement('missing')).toBeUndefined();
+    });
+
+    test('should earn nothing without spotted states', () => {
+      expect(earnedIds(makeGame('g'), [])).toEqual([]);
+    });
+
+    test('should need both coasts for coast to coast', () => {
+      const game = makeGame('g');
+      expect(earnedIds(game, makeStates('g', ['FL']))).not.toContain('coast_to_coast');
+      expect(earnedIds(game, makeStates('g', ['FL', 'OR']))).toContain('coast_to_coast');
+    });
+
+    test('should need all six states for New England', () => {
+      const game = makeGame('g');
+      const fiveStates = ['CT', 'ME', 'MA', 'NH', 'RI'];
+      expect(earnedIds(game, makeStates('g', fiveStates))).not.toContain('new_england');
+      expect(earnedIds(game, makeStates('g', [...fiveStates, 'VT']))).toContain('new_england');
+    });
+
+    test('should unlock Hawaii when it is spotted', () => {
+      expect(earnedIds(makeGame('g'), makeStates('g', ['HI']))).toEqual(['first_plate', 'hawaii']);
+    });
+
+    test('should count new states per day', () => {
+      const game = makeGame('g');
+      const codes = ALL_CODES.slice(0, STATES_IN_A_DAY_TARGET);
+
+      const spreadOut = makeStates('g', codes, DAY_MS);
+      expect(getBestDay(spreadOut)?.count).toBe(1);
+      expect(earnedIds(game, spreadOut)).not.toContain('states_in_a_day');
+
+      const oneDay = makeStates('g', codes, 10 * 60 * 1000);
+      expect(getBestDay(oneDay)?.count).toBe(STATES_IN_A_DAY_TARGET);
+      expect(earnedIds(game, oneDay)).toContain('states_in_a_day');
+    });
+
+    test('should time a full game from its start', () => {
+      const game = makeGame('g');
+      expect(getFullGameDuration(game, makeStates('g', ALL_CODES.slice(1), HOUR_MS))).toBeNull();
+      expect(getFullGameDuration(game, makeStates('g', ALL_CODES, HOUR_MS))).toBe(49 * HOUR_MS);
+    });
+
+    test('should only award the speed run for a quick full game', () => {
+      const game = makeGame('g');
+      const quick = earnedIds(game, makeStates('g', ALL_CODES, HOUR_MS));
+      expect(quick).toContain('all_states');
+      expect(quick).toContain('fastest_full_game');
+
+      const slowSpacing = ((FASTEST_FULL_GAME_DAYS + 1) * DAY_MS) / (ALL_CODES.length - 1);
+      const slow = earnedIds(game, makeStates('g', ALL_CODES, slowSpacing));
+      expect(slow).toContain('all_states');
+      expect(slow).not.toContain('fastest_full_game');
+    });
+
+    test('should skip achievements that are already unlocked', () => {
+      expect(earnedIds(makeGame('g'), makeStates('g', ['HI']), ['hawaii'])).toEqual(['first_plate']);
+    });
+  });
+
+  describe('personal records', () => {
+    test('should be empty without history', () => {
+      expect(calculatePersonalRecords([makeGame('g')], [])).toEqual({
+        fastestCompletion: null,
+        mostStatesInADay: null,
+        mostStatesInAGame: null,
+      });
+    });
+
+    test('should find the best game for each record', () => {
+      const slow = makeGame('slow');
+      const fast = makeGame('fast', { startDate: new Date(START + 30 * DAY_MS).toISOString() });
+      const short = makeGame('short', { startDate: new Date(START + 60 * DAY_MS).toISOString() });
+      const states = [
+        ...makeStates('slow', ALL_CODES, DAY_MS),
+        ...makeStates('fast', ALL_CODES, HOUR_MS, START + 30 * DAY_MS),
+        ...makeStates('short', ['TX', 'OK'], 0, START + 60 * DAY_MS),
+      ];
+
+      const records = calculatePersonalRecords([short, slow, fast], states);
+
+      expect(records.fastestCompletion).toMatchObject({ gameId: 'fast', value: 49 * HOUR_MS });
+      expect(records.mostStatesInADay?.gameId).toBe('fast');
+      expect(records.mostStatesInADay?.value).toBeGreaterThanOrEqual(STATES_IN_A_DAY_TARGET);
+      // Ties keep the earlier game
+      expect(records.mostStatesInAGame).toMatchObject({ gameId: 'slow', value: 50 });
+    });
+  });
+
+  describe('AchievementRepository', () => {
+    let dbService: DatabaseService;
+    let repository: AchievementRepository;
+
+    beforeEach(async () => {
+      dbService = new DatabaseService(new SqlJsStorageAdapter());
+      await dbService.initialize();
+      repository = new AchievementRepository(dbService);
+    });
+
+    afterEach(async () => {
+      await dbService.close();
+    });
+
+    test('should store unlocks with their timestamp', async () => {
+      const game = await new GameRepository(dbService).createGame({
+        name: 'Trip',
+        startDate: '2024-06-01',
+        startLocation: '',
+        destination: '',
+        isComplete: false,
+      });
+
+      const unlocks = await repository.unlockAchievements(
+        ['hawaii', 'first_plate'],
+        game.id,
+        '2024-06-02T10:00:00.000Z',
+      );
+      expect(unlocks).toHaveLength(2);
+
+      expect(await repository.getUnlockedAchievements()).toEqual([
+        { achievementId: 'hawaii', gameId: game.id, unlockedAt: '2024-06-02T10:00:00.000Z' },
+        { achievementId: 'first_plate', gameId: game.id, unlockedAt: '2024-06-02T10:00:00.000Z' },
+      ]);
+    });
+
+    test('should keep the first unlock of an achievement', async () => {
+      await repository.unlockAchievements(['hawaii'], undefined, '2024-06-02T10:00:00.000Z');
+      const again = await repository.unlockAchievements(['hawaii'], undefined, '2024-07-01T10:00:00.000Z');
+
+      expect(again).toEqual([]);
+      expect(await repository.getUnlockedAchievements()).toEqual([
+        { achievementId: 'hawaii', gameId: undefined, unlockedAt: '2024-06-02T10:00:00.000Z' },
+      ]);
+    });
+
+    test('should keep unlocks when their game is deleted', async () => {
+      const games = new GameRepository(dbService);
+      const game = await games.createGame({
+        name: 'Trip',
+        startDate: '2024-06-01',
+        startLocation: '',
+        destination: '',
+        isComplete: false,
+      });
+      await repository.unlockAchievements(['hawaii'], game.id);
+      await games.deleteGame(game.id);
+
+      const [unlock] = await repository.getUnlockedAchievements();
+      expect(unlock.achievementId).toBe('hawaii');
+      expect(unlock.gameId).toBeUndefined();
+    });
+
+    test('should derive records from stored spotted states', async () => {
+      const game = await new GameRepository(dbService).createGame({
+        name: 'Trip',
+        startDate: '2024-06-01',
+        startLocation: '',
+        destination: '',
+        isComplete: false,
+      });
+      const spotted = new SpottedStateRepository(dbService);
+      await spotted.addSpottedState(game.id, 'OH');
+      await spotted.addSpottedState(game.id, 'PA');
+
+      const records = calculatePersonalRecords([game], await spotted.getAllSpottedStates());
+      expect(records.mostStatesInADay?.value).toBe(2);
+      expect(records.mostStatesInAGame).toMatchObject({ gameId: game.id, value: 2 });
+      expect(records.fastestCompletion).toBeNull();
+    });
+  });
+});
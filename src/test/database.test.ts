@@ -2,19 +2,13 @@ import DatabaseService from '../services/DatabaseService';
 import { DatabaseMigrations } from '../services/DatabaseService';
 import { GameRepository } from '../repositories/GameRepository';
 import { SpottedStateRepository } from '../repositories/SpottedStateRepository';
-import { Game, SpottedState } from '../models/types';
-
-// Mock react-native-sqlite-storage
-jest.mock('react-native-sqlite-storage', () => ({
-  enablePromise: jest.fn(),
-  openDatabase: jest.fn(() => Promise.resolve({
-    executeSql: jest.fn(() => Promise.resolve([{ rows: { length: 0, item: jest.fn() } }])),
-    transaction: jest.fn((callback) => callback({
-      executeSql: jest.fn(() => Promise.resolve())
-    })),
-    close: jest.fn(() => Promise.resolve()),
-  })),
-}));
+import { SightingRepository } from '../repositories/SightingRepository';
+import { TargetTemplateRepository } from '../repositories/TargetTemplateRepository';
+import { DEFAULT_USER_SETTINGS, SettingsRepository } from '../repositories/SettingsRepository';
+import { MIGRATIONS } from '../services/migrations';
+import { DATABASE_CONFIG } from '../utils/constants';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import { Game } from '../models/types';
 
 describe('Database Layer Tests', () => {
   let dbService: DatabaseService;
@@ -23,13 +17,11 @@ describe('Database Layer Tests', () => {
   let spottedStateRepo: SpottedStateRepository;
 
   beforeEach(() => {
-    // Reset singleton instance
-    (DatabaseService as any).instance = undefined;
-    
-    dbService = DatabaseService.getInstance();
-    migrations = new DatabaseMigrations();
-    gameRepo = new GameRepository();
-    spottedStateRepo = new SpottedStateRepository();
+    // Fresh in-memory database for every test
+    dbService = new DatabaseService(new SqlJsStorageAdapter());
+    migrations = new DatabaseMigrations(dbService);
+    gameRepo = new GameRepository(dbService);
+    spottedStateRepo = new SpottedStateRepository(dbService);
   });
 
   afterEach(async () => {
@@ -42,6 +34,14 @@ describe('Database Layer Tests', () => {
       expect(dbService.isReady()).toBe(true);
     });
 
+    test('should share one initialization between concurrent callers', async () => {
+      await Promise.all([dbService.initialize(), dbService.initialize()]);
+      expect(dbService.isReady()).toBe(true);
+
+      const result = await dbService.executeQuery('SELECT COUNT(*) as count FROM schema_version');
+      expect(result.rows.item(0).count).toBe(MIGRATIONS.length);
+    });
+
     test('should throw error when accessing uninitialized database', () => {
       expect(() => dbService.getDatabase()).toThrow('Database not initialized');
     });
@@ -71,6 +71,98 @@ describe('Database Layer Tests', () => {
     test('should run migrations successfully', async () => {
       await expect(migrations.runMigrations()).resolves.not.toThrow();
     });
+
+    test('should record the configured schema version', async () => {
+      await migrations.runMigrations();
+      expect(await migrations.getCurrentVersion()).toBe(DATABASE_CONFIG.version);
+    });
+
+    test('should apply pending migrations in version order, once', async () => {
+      const next = DATABASE_CONFIG.version + 1;
+      // Listed out of order; the second only works after the first
+      const laterMigrations = new DatabaseMigrations(dbService, [
+        ...MIGRATIONS,
+        { version: next + 1, description: 'Fill trips', statements: ["INSERT INTO trips (id) VALUES ('a')"] },
+        { version: next, description: 'Add trips', statements: ['CREATE TABLE trips (id TEXT)'] },
+      ]);
+
+      await laterMigrations.runMigrations(next + 1);
+      await laterMigrations.runMigrations(next + 1);
+
+      const applied = await dbService.executeQuery('SELECT version FROM schema_version ORDER BY rowid');
+      const versions = Array.from({ length: applied.rows.length }, (_, i) => applied.rows.item(i).version);
+      expect(versions).toEqual([...MIGRATIONS.map(migration => migration.version), next, next + 1]);
+      const trips = await dbService.executeQuery('SELECT COUNT(*) as count FROM trips');
+      expect(trips.rows.item(0).count).toBe(1);
+    });
+
+    test('should refuse a database newer than the app', async () => {
+      await dbService.executeQuery(
+        'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+        [DATABASE_CONFIG.version + 1, 'From the future', new Date().toISOString()]
+      );
+      await expect(migrations.runMigrations()).rejects.toThrow('newer than supported');
+    });
+
+    test('should not open a database written by a newer app', async () => {
+      const newerAdapter = new SqlJsStorageAdapter();
+      const newerApp = new DatabaseService(newerAdapter);
+      await newerApp.initialize();
+      await newerApp.executeQuery(
+        'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+        [DATABASE_CONFIG.version + 1, 'From the future', new Date().toISOString()]
+      );
+
+      const olderApp = new DatabaseService(new SqlJsStorageAdapter(newerAdapter.export()));
+      await expect(olderApp.initialize()).rejects.toThrow('newer than supported');
+      expect(olderApp.isReady()).toBe(false);
+      await newerApp.close();
+    });
+
+    test('should roll back a failing migration', async () => {
+      const brokenMigrations = new DatabaseMigrations(dbService, [
+        ...MIGRATIONS,
+        {
+          version: DATABASE_CONFIG.version + 1,
+          description: 'Broken',
+          statements: ['CREATE TABLE broken (id TEXT)', 'INSERT INTO missing_table VALUES (1)'],
+        },
+      ]);
+
+      await expect(brokenMigrations.runMigrations(DATABASE_CONFIG.version + 1)).rejects.toThrow();
+      expect(await brokenMigrations.getCurrentVersion()).toBe(DATABASE_CONFIG.version);
+      const tables = await dbService.executeQuery(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'broken'"
+      );
+      expect(tables.rows.length).toBe(0);
+    });
+
+    test('should upgrade a database created before the migration runner', async () => {
+      // Build a v1 database the way the original createTables() left it
+      const legacyAdapter = new SqlJsStorageAdapter();
+      await legacyAdapter.open('legacy');
+      for (const sql of MIGRATIONS[0].statements) {
+        await legacyAdapter.executeSql(sql);
+      }
+      await legacyAdapter.executeSql(
+        'INSERT INTO games (id, name, created_at, completed_at, is_active) VALUES (?, ?, ?, ?, ?)',
+        ['legacy-1', 'Old Trip', '2024-01-01T00:00:00.000Z', null, 1]
+      );
+      await legacyAdapter.executeSql(
+        'INSERT INTO spotted_states (id, game_id, state_code, spotted_at) VALUES (?, ?, ?, ?)',
+        ['legacy-1_CA', 'legacy-1', 'CA', '2024-01-02T00:00:00.000Z']
+      );
+
+      const upgradedDb = new DatabaseService(new SqlJsStorageAdapter(legacyAdapter.export()));
+      await upgradedDb.initialize();
+
+      const game = await new GameRepository(upgradedDb).getGameById('legacy-1');
+      expect(game?.startDate).toBe('2024-01-01T00:00:00.000Z');
+      expect(game?.isComplete).toBe(false);
+      const spotted = await new SpottedStateRepository(upgradedDb).getSpottedStatesForGame('legacy-1');
+      expect(spotted.map(state => state.stateCode)).toEqual(['CA']);
+      await upgradedDb.close();
+    });
   });
 
   describe('GameRepository', () => {
@@ -110,6 +202,59 @@ describe('Database Layer Tests', () => {
       expect(retrievedGame).toEqual(createdGame);
     });
 
+    test('should round-trip every game field', async () => {
+      const createdGame = await gameRepo.createGame({
+        name: 'Full Game',
+        startDate: '2024-06-01T08:00:00.000Z',
+        endDate: '2024-06-10T18:00:00.000Z',
+        startLocation: 'Chicago, IL',
+        destination: 'Denver, CO',
+        isComplete: true,
+        finalScore: 120,
+      });
+
+      const retrievedGame = await gameRepo.getGameById(createdGame.id);
+      expect(retrievedGame).toStrictEqual(createdGame);
+    });
+
+    test('should map snake_case game columns to game fields', async () => {
+      await dbService.executeQuery(
+        `INSERT INTO games (id, name, start_date, end_date, start_location, destination,
+          is_complete, created_at, final_score, jurisdiction_sets, target_name, target_state_codes)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          'raw-game',
+          'Raw Game',
+          '2024-06-01T08:00:00.000Z',
+          '2024-06-10T18:00:00.000Z',
+          'Chicago, IL',
+          'Denver, CO',
+          1,
+          '2024-05-31T12:00:00.000Z',
+          42,
+          'us-states,canada',
+          'West Coast',
+          'CA,OR,WA',
+        ]
+      );
+
+      const game = await gameRepo.getGameById('raw-game');
+      expect(game).toStrictEqual({
+        id: 'raw-game',
+        name: 'Raw Game',
+        startDate: '2024-06-01T08:00:00.000Z',
+        endDate: '2024-06-10T18:00:00.000Z',
+        startLocation: 'Chicago, IL',
+        destination: 'Denver, CO',
+        isComplete: true,
+        createdAt: '2024-05-31T12:00:00.000Z',
+        finalScore: 42,
+        jurisdictionSets: ['us-states', 'canada'],
+        targetName: 'West Coast',
+        targetStateCodes: ['CA', 'OR', 'WA'],
+      });
+    });
+
     test('should return null for non-existent game', async () => {
       const game = await gameRepo.getGameById('non-existent-id');
       expect(game).toBeNull();
@@ -193,6 +338,22 @@ describe('Database Layer Tests', () => {
       const completedGame = await gameRepo.getGameById(game.id);
       expect(completedGame?.isComplete).toBe(true);
     });
+
+    test('should reopen a finished game without its final score', async () => {
+      const game = await gameRepo.createGame({
+        name: 'Test Game',
+        startDate: '2024-01-01',
+        endDate: '2024-01-03',
+        startLocation: 'New York',
+        destination: 'California',
+        isComplete: true,
+        finalScore: 120,
+      });
+      await gameRepo.reopenGame(game.id);
+
+      const reopened = await gameRepo.getGameById(game.id);
+      expect(reopened).toMatchObject({ isComplete: false, endDate: undefined, finalScore: undefined });
+    });
   });
 
   describe('SpottedStateRepository', () => {
@@ -222,6 +383,29 @@ describe('Database Layer Tests', () => {
       await expect(spottedStateRepo.addSpottedState(testGame.id, 'CA')).rejects.toThrow();
     });
 
+    test('should map snake_case sighting columns to spotted state fields', async () => {
+      await dbService.executeQuery(
+        `INSERT INTO sightings (id, game_id, state_code, sighted_at, latitude, longitude,
+          accuracy, current_state_code)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        ['raw-sighting', testGame.id, 'NV', '2024-01-02T09:30:00.000Z', 39.5, -119.8, 12, 'CA']
+      );
+
+      const [spotted] = await spottedStateRepo.getSpottedStatesForGame(testGame.id);
+      expect(spotted).toStrictEqual({
+        id: 'raw-sighting',
+        gameId: testGame.id,
+        stateCode: 'NV',
+        spottedAt: '2024-01-02T09:30:00.000Z',
+        photoPath: undefined,
+        latitude: 39.5,
+        longitude: -119.8,
+        accuracy: 12,
+        currentStateCode: 'CA',
+        playerId: undefined,
+      });
+    });
+
     test('should remove spotted state', async () => {
       await spottedStateRepo.addSpottedState(testGame.id, 'CA');
       await expect(spottedStateRepo.removeSpottedState(testGame.id, 'CA')).resolves.not.toThrow();
@@ -245,6 +429,93 @@ describe('Database Layer Tests', () => {
       expect(progress.percentage).toBe(4); // 2/50 * 100 = 4%
     });
 
+    test('should measure progress against the game\'s jurisdiction sets', async () => {
+      const trip = await gameRepo.createGame({
+        name: 'Border Run',
+        startDate: '2024-03-01',
+        startLocation: 'Detroit',
+        destination: 'Montreal',
+        isComplete: false,
+        jurisdictionSets: ['canada', 'us-states', 'dc'],
+      });
+      expect((await gameRepo.getGameById(trip.id))!.jurisdictionSets).toEqual(['us-states', 'dc', 'canada']);
+
+      await spottedStateRepo.addSpottedState(trip.id, 'ON');
+      await spottedStateRepo.addSpottedState(trip.id, 'DC');
+      await spottedStateRepo.addSpottedState(trip.id, 'PR'); // Not tracked by this game
+
+      const progress = await spottedStateRepo.getGameProgress(trip.id);
+      expect(progress).toEqual({ found: 2, total: 64, percentage: 3 });
+    });
+
+    test('should measure progress, completion and statistics against the game\'s target', async () => {
+      const trip = await gameRepo.createGame({
+        name: 'Desert Loop',
+        startDate: '2024-04-01',
+        startLocation: 'Phoenix',
+        destination: 'Phoenix',
+        isComplete: false,
+        targetName: 'Four Corners',
+        targetStateCodes: ['AZ', 'NM', 'CO', 'UT'],
+      });
+      const saved = await gameRepo.getGameById(trip.id);
+      expect(saved).toMatchObject({ targetName: 'Four Corners', targetStateCodes: ['AZ', 'NM', 'CO', 'UT'] });
+
+      for (const stateCode of ['AZ', 'NM', 'CO', 'TX']) {
+        await spottedStateRepo.addSpottedState(trip.id, stateCode);
+      }
+
+      expect(await spottedStateRepo.getGameProgress(trip.id)).toEqual({ found: 3, total: 4, percentage: 75 });
+      const stats = await spottedStateRepo.getGameStatistics();
+      expect(stats.bestCompletionPercentage).toBe(75);
+      expect(stats.uniqueStatesSpotted).toBe(3); // TX isn't on the target list
+      expect(stats.trackedStateCodes).toHaveLength(50); // The other game targets all 50
+      expect(stats.regionCompletion.find(region => region.region === 'west')).toMatchObject({ spotted: 1, total: 8 });
+    });
+
+    test('should leave games without a target list playing for every state in their sets', async () => {
+      const game = await gameRepo.createGame({
+        name: 'No Target',
+        startDate: '2024-04-01',
+        startLocation: '',
+        destination: '',
+        isComplete: false,
+        targetName: 'Nothing',
+        targetStateCodes: [],
+      });
+
+      const saved = await gameRepo.getGameById(game.id);
+      expect(saved!.targetName).toBeUndefined();
+      expect(saved!.targetStateCodes).toBeUndefined();
+      expect((await spottedStateRepo.getGameProgress(game.id)).total).toBe(50);
+    });
+
+    test('should rate regions only over the games that track them', async () => {
+      const trip = await gameRepo.createGame({
+        name: 'Maritimes',
+        startDate: '2024-07-01',
+        startLocation: 'Halifax',
+        destination: 'St. John\'s',
+        isComplete: false,
+        jurisdictionSets: ['canada'],
+      });
+      for (const stateCode of ['NB', 'NL', 'NS', 'PE']) {
+        await spottedStateRepo.addSpottedState(trip.id, stateCode);
+      }
+
+      const stats = await spottedStateRepo.getGameStatistics();
+      expect(stats.regionCompletion.find(region => region.region === 'atlantic_canada')).toEqual({
+        region: 'atlantic_canada',
+        name: 'Atlantic Canada',
+        spotted: 4,
+        total: 4,
+        percentage: 100,
+      });
+      expect(stats.regionCompletion.find(region => region.region === 'southwest')?.total).toBe(4);
+      expect(stats.regionCompletion.some(region => region.region === 'northern_mexico')).toBe(false);
+      expect(stats.bestCompletionPercentage).toBe(31); // 4 of 13
+    });
+
     test('should check if state is spotted', async () => {
       await spottedStateRepo.addSpottedState(testGame.id, 'CA');
       
@@ -273,6 +544,317 @@ describe('Database Layer Tests', () => {
       expect(stats.totalGames).toBeGreaterThan(0);
       expect(stats.totalStatesSpotted).toBeGreaterThan(0);
     });
+
+    test('should aggregate statistics across games', async () => {
+      const secondGame = await gameRepo.createGame({
+        name: 'Second Trip',
+        startDate: '2024-02-01',
+        startLocation: 'Boston',
+        destination: 'Miami',
+        isComplete: false,
+      });
+      await spottedStateRepo.addSpottedState(testGame.id, 'CA');
+      await spottedStateRepo.addSpottedState(testGame.id, 'NY');
+      await spottedStateRepo.addSpottedState(secondGame.id, 'CA');
+      await gameRepo.updateGame(secondGame.id, { isComplete: true, endDate: '2024-02-03T00:00:00.000Z' });
+
+      const stats = await spottedStateRepo.getGameStatistics();
+      expect(stats.totalGames).toBe(2);
+      expect(stats.completedGames).toBe(1);
+      expect(stats.totalStatesSpotted).toBe(3);
+      expect(stats.mostSpottedStates[0]).toEqual({ stateCode: 'CA', count: 2 });
+      expect(stats.rarestStates[0]).toEqual({ stateCode: 'NY', count: 1 });
+      expect(stats.uniqueStatesSpotted).toBe(2);
+      expect(stats.bestCompletionPercentage).toBe(4);
+    });
+
+    test('should not count games set aside for another one as completed', async () => {
+      await gameRepo.deactivateActiveGames();
+
+      const stats = await spottedStateRepo.getGameStatistics();
+      expect(stats.completedGames).toBe(0);
+      expect(stats.averageCompletionTime).toBeNull();
+    });
+
+    test('should average the length of completed games', async () => {
+      expect((await spottedStateRepo.getGameStatistics()).averageCompletionTime).toBeNull();
+
+      const secondGame = await gameRepo.createGame({
+        name: 'Second Trip',
+        startDate: '2024-02-01T00:00:00.000Z',
+        startLocation: 'Boston',
+        destination: 'Miami',
+        isComplete: false,
+      });
+      await gameRepo.updateGame(testGame.id, { isComplete: true, endDate: '2024-01-03T00:00:00.000Z' });
+      await gameRepo.updateGame(secondGame.id, { isComplete: true, endDate: '2024-02-05T00:00:00.000Z' });
+
+      const stats = await spottedStateRepo.getGameStatistics();
+      expect(stats.averageCompletionTime).toBe(3 * 24 * 60 * 60 * 1000);
+    });
+
+    test('should rate region completion across games', async () => {
+      await gameRepo.createGame({
+        name: 'Second Trip',
+        startDate: '2024-02-01',
+        startLocation: 'Boston',
+        destination: 'Miami',
+        isComplete: false,
+      });
+      for (const stateCode of ['AZ', 'NM', 'OK', 'TX']) {
+        await spottedStateRepo.addSpottedState(testGame.id, stateCode);
+      }
+
+      const stats = await spottedStateRepo.getGameStatistics();
+      const southwest = stats.regionCompletion.find(region => region.region === 'southwest');
+      expect(southwest).toEqual({ region: 'southwest', name: 'Southwest', spotted: 4, total: 8, percentage: 50 });
+      expect(stats.regionCompletion.find(region => region.region === 'west')?.percentage).toBe(0);
+    });
+
+    test('should persist toggled states', async () => {
+      await spottedStateRepo.toggleStateSpotted(testGame.id, 'TX');
+      expect(await spottedStateRepo.isStateSpotted(testGame.id, 'TX')).toBe(true);
+
+      await spottedStateRepo.toggleStateSpotted(testGame.id, 'TX');
+      expect(await spottedStateRepo.getSpottedStatesForGame(testGame.id)).toEqual([]);
+    });
+
+    test('should delete spotted states with their game', async () => {
+      await spottedStateRepo.addSpottedState(testGame.id, 'CA');
+      await gameRepo.deleteGame(testGame.id);
+
+      expect(await spottedStateRepo.getSpottedStatesByStateCode('CA')).toEqual([]);
+    });
+  });
+
+  describe('TargetTemplateRepository', () => {
+    let templateRepo: TargetTemplateRepository;
+
+    beforeEach(async () => {
+      await dbService.initialize();
+      templateRepo = new TargetTemplateRepository(dbService);
+    });
+
+    test('should save templates and list them by name', async () => {
+      await templateRepo.saveTemplate('  Weekend Loop ', ['OR', 'WA', 'OR', 'BC']);
+      await templateRepo.saveTemplate('commute', ['NJ', 'NY']);
+
+      const templates = await templateRepo.getTemplates();
+      expect(templates.map(template => template.name)).toEqual(['commute', 'Weekend Loop']);
+      expect(templates[1].stateCodes).toEqual(['OR', 'WA', 'BC']);
+    });
+
+    test('should reject templates without a name or states', async () => {
+      await expect(templateRepo.saveTemplate(' ', ['TX'])).rejects.toThrow('name');
+      await expect(templateRepo.saveTemplate('Empty', [])).rejects.toThrow('at least one state');
+    });
+
+    test('should delete a template', async () => {
+      const template = await templateRepo.saveTemplate('Commute', ['NJ', 'NY']);
+      await templateRepo.deleteTemplate(template.id);
+
+      expect(await templateRepo.getTemplates()).toEqual([]);
+    });
+  });
+
+  describe('SightingRepository', () => {
+    let testGame: Game;
+    let sightingRepo: SightingRepository;
+
+    beforeEach(async () => {
+      await dbService.initialize();
+      sightingRepo = new SightingRepository(dbService);
+      testGame = await gameRepo.createGame({
+        name: 'Test Game',
+        startDate: '2024-01-01',
+        startLocation: 'New York',
+        destination: 'California',
+        isComplete: false,
+      });
+    });
+
+    test('should keep every sighting of a state', async () => {
+      const first = await sightingRepo.recordSighting(testGame.id, 'OH');
+      await sightingRepo.recordSighting(testGame.id, 'OH');
+      await sightingRepo.recordSighting(testGame.id, 'TX');
+
+      const sightings = await sightingRepo.getSightingsForGame(testGame.id);
+      expect(sightings.map(s => s.stateCode)).toEqual(['OH', 'OH', 'TX']);
+
+      // Spotted states project the first sighting only
+      const spotted = await spottedStateRepo.getSpottedStatesForGame(testGame.id);
+      expect(spotted.map(s => s.stateCode)).toEqual(['OH', 'TX']);
+      expect(spotted[0]).toEqual({
+        id: first.id,
+        gameId: testGame.id,
+        stateCode: 'OH',
+        spottedAt: first.sightedAt,
+      });
+    });
+
+    test('should remove only the latest sighting', async () => {
+      const first = await sightingRepo.recordSighting(testGame.id, 'OH');
+      await sightingRepo.recordSighting(testGame.id, 'OH');
+      const latest = await sightingRepo.getLatestSighting(testGame.id, 'OH');
+      await sightingRepo.deleteSighting(latest!.id);
+
+      const sightings = await sightingRepo.getSightingsForGame(testGame.id);
+      expect(sightings).toEqual([first]);
+    });
+
+    test('should store where a sighting happened', async () => {
+      const sighting = await sightingRepo.recordSighting(testGame.id, 'OH');
+      await sightingRepo.setSightingLocation(sighting.id, {
+        latitude: 39.96,
+        longitude: -82.99,
+        accuracy: 25,
+      }, 'OH');
+
+      const [stored] = await sightingRepo.getSightingsForGame(testGame.id);
+      expect(stored).toMatchObject({
+        latitude: 39.96,
+        longitude: -82.99,
+        accuracy: 25,
+        currentStateCode: 'OH',
+      });
+
+      const [spotted] = await spottedStateRepo.getSpottedStatesForGame(testGame.id);
+      expect(spotted).toMatchObject({ latitude: 39.96, longitude: -82.99, currentStateCode: 'OH' });
+    });
+
+    test('should clear all sightings when a spotted state is removed', async () => {
+      await spottedStateRepo.addSpottedState(testGame.id, 'OH');
+      await sightingRepo.recordSighting(testGame.id, 'OH');
+      await spottedStateRepo.removeSpottedState(testGame.id, 'OH');
+
+      expect(await sightingRepo.getSightingsForGame(testGame.id)).toEqual([]);
+      expect(await spottedStateRepo.isStateSpotted(testGame.id, 'OH')).toBe(false);
+    });
+  });
+
+  describe('SettingsRepository', () => {
+    let settingsRepo: SettingsRepository;
+
+    beforeEach(async () => {
+      await dbService.initialize();
+      settingsRepo = new SettingsRepository(dbService);
+    });
+
+    test('should return defaults when nothing is stored', async () => {
+      expect(await settingsRepo.getSettings()).toEqual(DEFAULT_USER_SETTINGS);
+    });
+
+    test('should persist changed settings', async () => {
+      const updated = await settingsRepo.updateSettings({ theme: 'dark', tutorialCompleted: true });
+      expect(updated).toEqual({ ...DEFAULT_USER_SETTINGS, theme: 'dark', tutorialCompleted: true });
+
+      expect(await new SettingsRepository(dbService).getSettings()).toEqual(updated);
+    });
+
+    test('should leave other settings alone', async () => {
+      await settingsRepo.updateSettings({ tutorialCompleted: true });
+      await settingsRepo.updateSettings({ theme: 'high-contrast' });
+
+      expect(await settingsRepo.getSettings()).toEqual({
+        ...DEFAULT_USER_SETTINGS,
+        tutorialCompleted: true,
+        theme: 'high-contrast',
+      });
+    });
+
+    test('should ignore a stored theme this version does not know', async () => {
+      await settingsRepo.setValue('theme', 'sepia');
+
+      expect((await settingsRepo.getSettings()).theme).toBe(DEFAULT_USER_SETTINGS.theme);
+    });
+
+    test('should carry over the old dark mode switch', async () => {
+      await settingsRepo.setBoolean('darkMode', true);
+      expect((await settingsRepo.getSettings()).theme).toBe('dark');
+
+      await settingsRepo.setBoolean('darkMode', false);
+      expect((await settingsRepo.getSettings()).theme).toBe('light');
+
+      await settingsRepo.updateSettings({ theme: 'high-contrast' });
+      expect((await settingsRepo.getSettings()).theme).toBe('high-contrast');
+    });
+
+    test('should forget a deleted value', async () => {
+      await settingsRepo.setValue('stateListView:game_1', '{"groupBy":"region"}');
+      await settingsRepo.deleteValue('stateListView:game_1');
+
+      expect(await settingsRepo.getValue('stateListView:game_1')).toBeNull();
+    });
+  });
+
+  describe('Transactions', () => {
+    const gameData = {
+      name: 'Test Game',
+      startDate: '2024-01-01',
+      startLocation: 'New York',
+      destination: 'California',
+      isComplete: false,
+    };
+
+    beforeEach(async () => {
+      await dbService.initialize();
+    });
+
+    test('should commit all writes when the work resolves', async () => {
+      const game = await dbService.runInTransaction(async tx => {
+        const created = await new GameRepository(tx).createGame(gameData);
+        await new SpottedStateRepository(tx).addSpottedState(created.id, 'CA');
+        return created;
+      });
+
+      expect(await gameRepo.getGameById(game.id)).not.toBeNull();
+      expect(await spottedStateRepo.isStateSpotted(game.id, 'CA')).toBe(true);
+    });
+
+    test('should roll back every write when the work throws', async () => {
+      const activeGame = await gameRepo.createGame(gameData);
+
+      await expect(
+        gameRepo.runInTransaction(async games => {
+          await games.deactivateActiveGames();
+          throw new Error('Insert failed');
+        })
+      ).rejects.toThrow('Insert failed');
+
+      expect((await gameRepo.getActiveGame())?.id).toBe(activeGame.id);
+    });
+
+    test('should hold other queries until the transaction finishes', async () => {
+      const game = await gameRepo.createGame(gameData);
+      let releaseWork: () => void = () => undefined;
+      const workStarted = new Promise<void>(resolve => {
+        dbService.runInTransaction(async tx => {
+          await new GameRepository(tx).updateGame(game.id, { name: 'Inside' });
+          resolve();
+          await new Promise<void>(release => {
+            releaseWork = release;
+          });
+          throw new Error('Abort');
+        }).catch(() => undefined);
+      });
+
+      await workStarted;
+      const outsideRead = gameRepo.getGameById(game.id);
+      releaseWork();
+
+      expect((await outsideRead)?.name).toBe('Test Game');
+    });
+
+    test('should join an outer transaction when nested', async () => {
+      await expect(
+        dbService.runInTransaction(async tx => {
+          await tx.runInTransaction(inner => new GameRepository(inner).createGame(gameData));
+          throw new Error('Outer failed');
+        })
+      ).rejects.toThrow('Outer failed');
+
+      expect(await gameRepo.getAllGames()).toEqual([]);
+    });
   });
 
   describe('Integration Tests', () => {
@@ -0,0 +1,176 @@
+import DatabaseService from '../services/DatabaseService';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import {
+  CSV_COLUMNS,
+  EXPORT_FORMAT_VERSION,
+  ExportFile,
+  ExportFileWriter,
+  ExportService,
+  ExportSharer,
+  escapeCsvValue,
+  getExportFileName,
+  toCsv,
+} from '../services/export';
+import { GameRepository } from '../repositories/GameRepository';
+import { PlayerRepository } from '../repositories/PlayerRepository';
+import { SightingRepository } from '../repositories/SightingRepository';
+import { SpottedStateRepository } from '../repositories/SpottedStateRepository';
+import { PhotoRepository } from '../repositories/PhotoRepository';
+import { AchievementRepository } from '../repositories/AchievementRepository';
+import { Game } from '../models/types';
+
+class FakeExportFileWriter implements ExportFileWriter {
+  files = new Map<string, string>();
+
+  async writeFile(fileName: string, contents: string): Promise<string> {
+    this.files.set(fileName, contents);
+    return `/caches/exports/${fileName}`;
+  }
+}
+
+class FakeExportSharer implements ExportSharer {
+  shared: ExportFile[] = [];
+
+  async share(file: ExportFile): Promise<void> {
+    this.shared.push(file);
+  }
+}
+
+describe('Export', () => {
+  let dbService: DatabaseService;
+  let fileWriter: FakeExportFileWriter;
+  let sharer: FakeExportSharer;
+  let service: ExportService;
+  let roadTrip: Game;
+  let weekend: Game;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService(new SqlJsStorageAdapter());
+    await dbService.initialize();
+    fileWriter = new FakeExportFileWriter();
+    sharer = new FakeExportSharer();
+    service = new ExportService(dbService, fileWriter, sharer);
+
+    const games = new GameRepository(dbService);
+    roadTrip = await games.createGame({
+      name: 'Road Trip',
+      startDate: '2024-06-01',
+      startLocation: 'Austin',
+      destination: 'Denver',
+      isComplete: false,
+    });
+    weekend = await games.createGame({
+      name: 'Weekend, "Short"',
+      startDate: '2024-07-01',
+      startLocation: '',
+      destination: '',
+      isComplete: true,
+    });
+
+    const [alice] = await new PlayerRepository(dbService).addPlayers(roadTrip.id, ['Alice', 'Bob']);
+    const sightings = new SightingRepository(dbService);
+    const spotted = new SpottedStateRepository(dbService);
+    // Spotting a state records its first sighting
+    await spotted.addSpottedState(roadTrip.id, 'TX', alice.id);
+    const texas = (await sightings.getLatestSighting(roadTrip.id, 'TX'))!;
+    await sightings.setSightingLocation(texas.id, { latitude: 30.27, longitude: -97.74, accuracy: 12 }, 'TX');
+    await sightings.recordSighting(roadTrip.id, 'TX');
+    await new PhotoRepository(dbService).addPhoto(texas, 'photo_1.jpg');
+    await spotted.addSpottedState(weekend.id, 'CO');
+
+    const achievements = new AchievementRepository(dbService);
+    await achievements.unlockAchievements(['first_plate'], roadTrip.id);
+    await achievements.unlockAchievements(['hawaii'], weekend.id);
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  describe('ExportService', () => {
+    test('should export every game with its related records', async () => {
+      const document = await service.buildDocument(undefined, '2024-08-01T12:00:00.000Z');
+
+      expect(document.format).toBe('state-game-export');
+      expect(document.formatVersion).toBe(EXPORT_FORMAT_VERSION);
+      expect(document.exportedAt).toBe('2024-08-01T12:00:00.000Z');
+      expect(document.games.map(game => game.id).sort()).toEqual([roadTrip.id, weekend.id].sort());
+      expect(document.achievements.map(unlock => unlock.achievementId).sort()).toEqual(['first_plate', 'hawaii']);
+
+      const exported = document.games.find(game => game.id === roadTrip.id)!;
+      expect(exported.name).toBe('Road Trip');
+      expect(exported.players.map(player => player.name)).toEqual(['Alice', 'Bob']);
+      expect(exported.spottedStates.map(state => state.stateCode)).toEqual(['TX']);
+      expect(exported.sightings).toHaveLength(2);
+      expect(exported.photos.map(photo => photo.filePath)).toEqual(['photo_1.jpg']);
+    });
+
+    test('should limit a single-game export to that game and its unlocks', async () => {
+      const document = await service.buildDocument(weekend.id);
+
+      expect(document.games.map(game => game.id)).toEqual([weekend.id]);
+      expect(document.achievements.map(unlock => unlock.achievementId)).toEqual(['hawaii']);
+    });
+
+    test('should reject an unknown game', async () => {
+      await expect(service.buildDocument('game_missing')).rejects.toThrow('not found');
+    });
+
+    test('should write JSON that round-trips and share it', async () => {
+      const path = await service.exportGames('json', roadTrip.id);
+
+      expect(sharer.shared).toHaveLength(1);
+      const [file] = sharer.shared;
+      expect(file.path).toBe(path);
+      expect(file.mimeType).toBe('application/json');
+      expect(file.fileName).toMatch(/^state-game-road-trip-\d{4}-\d{2}-\d{2}\.json$/);
+      expect(fileWriter.files.get(file.fileName)).toBe(file.contents);
+
+      const parsed = JSON.parse(file.contents);
+      expect(parsed.formatVersion).toBe(EXPORT_FORMAT_VERSION);
+      expect(parsed.games[0].sightings[0]).toMatchObject({ stateCode: 'TX', latitude: 30.27, currentStateCode: 'TX' });
+    });
+
+    test('should write the full history as CSV', async () => {
+      await service.exportGames('csv');
+
+      const [file] = sharer.shared;
+      expect(file.mimeType).toBe('text/csv');
+      expect(file.fileName).toMatch(/^state-game-history-.*\.csv$/);
+      expect(file.contents.trim().split('\r\n')).toHaveLength(4);
+    });
+  });
+
+  describe('toCsv', () => {
+    test('should write one row per sighting with state and player names', async () => {
+      const document = await service.buildDocument(undefined);
+      const lines = toCsv(document).split('\r\n');
+
+      expect(lines[0]).toBe(CSV_COLUMNS.join(','));
+      expect(lines).toContain(
+        `${roadTrip.id},Road Trip,TX,Texas,${document.games.find(g => g.id === roadTrip.id)!.sightings[0].sightedAt},Alice,30.27,-97.74,12,TX`,
+      );
+      expect(lines.some(line => line.startsWith(`${weekend.id},"Weekend, ""Short""",CO,Colorado,`))).toBe(true);
+      expect(lines[lines.length - 1]).toBe('');
+    });
+  });
+
+  describe('helpers', () => {
+    test('should quote CSV values only when needed', () => {
+      expect(escapeCsvValue('Texas')).toBe('Texas');
+      expect(escapeCsvValue(undefined)).toBe('');
+      expect(escapeCsvValue(-97.5)).toBe('-97.5');
+      expect(escapeCsvValue('a,b')).toBe('"a,b"');
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+    });
+
+    test('should build file names from the game name', () => {
+      expect(getExportFileName('json', '2024-06-01T10:00:00Z', 'Summer Trip!')).toBe(
+        'state-game-summer-trip-2024-06-01.json',
+      );
+      expect(getExportFileName('csv', '2024-06-01T10:00:00Z', '🚗')).toBe('state-game-game-2024-06-01.csv');
+      expect(getExportFileName('csv', '2024-06-01T10:00:00Z')).toBe('state-game-history-2024-06-01.csv');
+    });
+  });
+});
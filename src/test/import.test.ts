@@ -0,0 +1,226 @@
+import DatabaseService from '../services/DatabaseService';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import { ExportService, ExportFileWriter, ExportSharer, toJson } from '../services/export';
+import {
+  BackupFile,
+  BackupFileSource,
+  BackupListing,
+  ImportService,
+  parseBackup,
+  validateBackup,
+} from '../services/import';
+import { GameRepository } from '../repositories/GameRepository';
+import { PlayerRepository } from '../repositories/PlayerRepository';
+import { SightingRepository } from '../repositories/SightingRepository';
+import { SpottedStateRepository } from '../repositories/SpottedStateRepository';
+import { PhotoRepository } from '../repositories/PhotoRepository';
+import { AchievementRepository } from '../repositories/AchievementRepository';
+import { SettingsRepository, stateListViewSetting } from '../repositories/SettingsRepository';
+import { ExportDocument, Game } from '../models/types';
+
+class FakeBackupFileSource implements BackupFileSource {
+  files = new Map<string, string>();
+
+  async listBackups(): Promise<BackupListing> {
+    return { backups: [...this.files.keys()].map(path => ({ path, name: path })), errors: [] };
+  }
+
+  async pickBackup(): Promise<BackupFile | null> {
+    return null;
+  }
+
+  async readBackup(path: string): Promise<string> {
+    const contents = this.files.get(path);
+    if (contents === undefined) {
+      throw new Error('File not found');
+    }
+    return contents;
+  }
+}
+
+const unusedWriter: ExportFileWriter = { writeFile: async () => '' };
+const unusedSharer: ExportSharer = { share: async () => undefined };
+
+describe('Backup restore', () => {
+  let oldPhone: DatabaseService;
+  let newPhone: DatabaseService;
+  let fileSource: FakeBackupFileSource;
+  let importService: ImportService;
+  let roadTrip: Game;
+  let backup: ExportDocument;
+
+  beforeEach(async () => {
+    oldPhone = new DatabaseService(new SqlJsStorageAdapter());
+    newPhone = new DatabaseService(new SqlJsStorageAdapter());
+    await oldPhone.initialize();
+    await newPhone.initialize();
+    fileSource = new FakeBackupFileSource();
+    importService = new ImportService(newPhone, fileSource);
+
+    roadTrip = await new GameRepository(oldPhone).createGame({
+      name: 'Road Trip',
+      startDate: '2024-06-01',
+      startLocation: 'Austin',
+      destination: 'Denver',
+      isComplete: false,
+    });
+    const [alice] = await new PlayerRepository(oldPhone).addPlayers(roadTrip.id, ['Alice']);
+    const spotted = new SpottedStateRepository(oldPhone);
+    await spotted.addSpottedState(roadTrip.id, 'TX', alice.id);
+    await spotted.addSpottedState(roadTrip.id, 'NM');
+    await new AchievementRepository(oldPhone).unlockAchievements(['first_plate'], roadTrip.id, '2024-06-01T10:00:00.000Z');
+
+    backup = await new ExportService(oldPhone, unusedWriter, unusedSharer).buildDocument();
+  });
+
+  afterEach(async () => {
+    await oldPhone.close();
+    await newPhone.close();
+  });
+
+  describe('ImportService', () => {
+    test('should restore games, players, sightings and achievements onto an empty device', async () => {
+      fileSource.files.set('backup.json', toJson(backup));
+      const preview = await importService.previewBackup('backup.json');
+      expect(preview.collisions).toEqual([]);
+      expect(preview.sightingCount).toBe(2);
+
+      const result = await importService.restoreBackup(preview.document, 'merge');
+      expect(result).toEqual({ gamesAdded: 1, gamesMerged: 0, gamesReplaced: 0, removedPhotoFiles: [] });
+
+      const restored = await new GameRepository(newPhone).getActiveGame();
+      expect(restored).toEqual(roadTrip);
+      const states = await new SpottedStateRepository(newPhone).getSpottedStatesForGame(roadTrip.id);
+      expect(states.map(state => state.stateCode).sort()).toEqual(['NM', 'TX']);
+      const [alice] = await new PlayerRepository(newPhone).getPlayersForGame(roadTrip.id);
+      expect(states.find(state => state.stateCode === 'TX')!.playerId).toBe(alice.id);
+      expect(await new AchievementRepository(newPhone).getUnlockedAchievements()).toEqual([
+        { achievementId: 'first_plate', gameId: roadTrip.id, unlockedAt: '2024-06-01T10:00:00.000Z' },
+      ]);
+    });
+
+    test('should pause restored games when the device already has an active game', async () => {
+      const current = await new GameRepository(newPhone).createGame({
+        name: 'Commute',
+        startDate: '2024-09-01',
+        startLocation: '',
+        destination: '',
+        isComplete: false,
+      });
+
+      await importService.restoreBackup(backup, 'merge');
+
+      const games = new GameRepository(newPhone);
+      expect((await games.getActiveGame())!.id).toBe(current.id);
+      expect((await games.getGameById(roadTrip.id))!.isComplete).toBe(true);
+    });
+
+    test('should merge missing sightings into a game already on the device', async () => {
+      await importService.restoreBackup(backup, 'merge');
+      await new SightingRepository(newPhone).recordSighting(roadTrip.id, 'CO');
+      await new SightingRepository(oldPhone).recordSighting(roadTrip.id, 'OK');
+      const newerBackup = await new ExportService(oldPhone, unusedWriter, unusedSharer).buildDocument();
+
+      const preview = await importService.previewDocument(newerBackup);
+      expect(preview.collisions.map(game => game.id)).toEqual([roadTrip.id]);
+
+      const result = await importService.restoreBackup(newerBackup, 'merge');
+      expect(result.gamesMerged).toBe(1);
+      const states = await new SpottedStateRepository(newPhone).getSpottedStatesForGame(roadTrip.id);
+      expect(states.map(state => state.stateCode).sort()).toEqual(['CO', 'NM', 'OK', 'TX']);
+      expect(await new PlayerRepository(newPhone).getPlayersForGame(roadTrip.id)).toHaveLength(1);
+    });
+
+    test('should replace a game already on the device and report its photos', async () => {
+      await importService.restoreBackup(backup, 'merge');
+      const sighting = await new SightingRepository(newPhone).recordSighting(roadTrip.id, 'CO');
+      await new PhotoRepository(newPhone).addPhoto(sighting, 'photo_co.jpg');
+      await new GameRepository(newPhone).updateGame(roadTrip.id, { name: 'Renamed' });
+      const settings = new SettingsRepository(newPhone);
+      await settings.setValue(stateListViewSetting(roadTrip.id), '{"groupBy":"region"}');
+
+      const result = await importService.restoreBackup(backup, 'replace');
+
+      expect(result.gamesReplaced).toBe(1);
+      expect(result.removedPhotoFiles).toEqual(['photo_co.jpg']);
+      expect((await new GameRepository(newPhone).getGameById(roadTrip.id))!.name).toBe('Road Trip');
+      const states = await new SpottedStateRepository(newPhone).getSpottedStatesForGame(roadTrip.id);
+      expect(states.map(state => state.stateCode).sort()).toEqual(['NM', 'TX']);
+      expect(await settings.getValue(stateListViewSetting(roadTrip.id))).toBeNull();
+    });
+
+    test('should leave the device untouched if any part of the restore fails', async () => {
+      const broken: ExportDocument = {
+        ...backup,
+        games: [
+          backup.games[0],
+          // Bypasses validation: the sighting's player doesn't exist
+          {
+            ...backup.games[0],
+            id: 'game_other',
+            players: [],
+            sightings: [
+              { ...backup.games[0].sightings[0], id: 'sighting_other', gameId: 'game_other', playerId: 'player_missing' },
+            ],
+          },
+        ],
+      };
+
+      await expect(importService.restoreBackup(broken, 'merge')).rejects.toThrow();
+      expect(await new GameRepository(newPhone).getAllGames()).toEqual([]);
+    });
+
+    test('should reject a file that is not a valid backup', async () => {
+      fileSource.files.set('notes.json', '{"hello": "world"}');
+      fileSource.files.set('broken.json', '{');
+
+      await expect(importService.previewBackup('notes.json')).rejects.toThrow('not a State Game backup');
+      await expect(importService.previewBackup('broken.json')).rejects.toThrow('not valid JSON');
+    });
+  });
+
+  describe('validateBackup', () => {
+    test('should accept an export', () => {
+      expect(validateBackup(JSON.parse(toJson(backup)))).toEqual([]);
+    });
+
+    test('should reject unknown state codes', () => {
+      const data = JSON.parse(toJson(backup));
+      data.games[0].sightings[0].stateCode = 'XX';
+      data.games[0].sightings[1].currentStateCode = 'ZZ';
+
+      const errors = validateBackup(data);
+      expect(errors).toContain('Game "Road Trip" has a sighting of unknown state "XX"');
+      expect(errors).toContain('Game "Road Trip" has a sighting made in unknown state "ZZ"');
+      expect(() => parseBackup(JSON.stringify(data))).toThrow(/unknown state "XX"/);
+    });
+
+    test('should check each game\'s jurisdiction sets and target list', () => {
+      const data = JSON.parse(toJson(backup));
+      data.games[0].targetStateCodes = ['TX', 'ZZ'];
+      expect(validateBackup(data)).toEqual(['Game "Road Trip" targets unknown state "ZZ"']);
+
+      data.games[0].targetStateCodes = ['TX'];
+      data.games[0].jurisdictionSets = ['us-states', 'atlantis'];
+      expect(validateBackup(data)).toEqual(['Game "Road Trip" is missing required fields']);
+    });
+
+    test('should reject backups from a newer app version', () => {
+      expect(validateBackup({ ...backup, formatVersion: 99 })[0]).toMatch(/newer version/);
+    });
+
+    test('should reject sightings by players the game does not have', () => {
+      const data = JSON.parse(toJson(backup));
+      data.games[0].players = [];
+
+      expect(validateBackup(data)).toContain('Game "Road Trip" has a sighting by an unknown player');
+    });
+
+    test('should reject duplicate game ids', () => {
+      const data = JSON.parse(toJson(backup));
+      data.games.push(data.games[0]);
+
+      expect(validateBackup(data)).toContain(`Game ${roadTrip.id} appears more than once`);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  ALL_JURISDICTION_SETS,
+  JURISDICTIONS,
+  normalizeJurisdictionSets,
+  REGION_NAMES,
+  StateRegion,
+} from '../utils/jurisdictions';
+import { getStateListManager, jurisdictionCatalog, stateListManager, StateListManagerImpl } from '../utils/StateListManager';
+import { buildTripSummary } from '../utils/tripSummary';
+import { getJurisdictionSetsFor, getLower48Target, getRegionTarget } from '../utils/gameTargets';
+
+describe('Jurisdictions', () => {
+  describe('catalog', () => {
+    test('should have a unique code for every jurisdiction', () => {
+      const codes = JURISDICTIONS.map(jurisdiction => jurisdiction.code);
+      expect(new Set(codes).size).toBe(codes.length);
+    });
+
+    test('should cover each set with the expected number of plates', () => {
+      const countIn = (set: string) => JURISDICTIONS.filter(jurisdiction => jurisdiction.set === set).length;
+
+      expect(countIn('us-states')).toBe(50);
+      expect(countIn('dc')).toBe(1);
+      expect(countIn('us-territories')).toBe(5);
+      expect(countIn('canada')).toBe(13);
+      expect(countIn('mexico')).toBe(32);
+    });
+
+    test('should give every jurisdiction a country and a named region', () => {
+      JURISDICTIONS.forEach(jurisdiction => {
+        expect(['US', 'CA', 'MX']).toContain(jurisdiction.country);
+        expect(REGION_NAMES[jurisdiction.region]).toBeDefined();
+      });
+      expect(jurisdictionCatalog.getJurisdiction('QC')).toMatchObject({ country: 'CA', region: 'central_canada' });
+      expect(jurisdictionCatalog.getJurisdiction('JAL')).toMatchObject({ country: 'MX', region: 'central_mexico' });
+    });
+
+    test('should keep known sets in catalog order and fall back to the 50 states', () => {
+      expect(normalizeJurisdictionSets(['mexico', 'us-states', 'mexico', 'atlantis'])).toEqual(['us-states', 'mexico']);
+      expect(normalizeJurisdictionSets([])).toEqual(['us-states']);
+      expect(normalizeJurisdictionSets(undefined)).toEqual(['us-states']);
+    });
+  });
+
+  describe('StateListManagerImpl', () => {
+    test('should default to the 50 states', () => {
+      expect(stateListManager.getAllStates()).toHaveLength(50);
+      expect(stateListManager.isValidStateCode('DC')).toBe(false);
+      expect(stateListManager.getRegions()).toEqual([
+        StateRegion.NORTHEAST,
+        StateRegion.SOUTHEAST,
+        StateRegion.MIDWEST,
+        StateRegion.SOUTHWEST,
+        StateRegion.WEST,
+        StateRegion.PACIFIC,
+      ]);
+    });
+
+    test('should only list the states in its sets', () => {
+      const borderTrip = new StateListManagerImpl(['us-states', 'dc', 'canada']);
+
+      expect(borderTrip.getAllStates()).toHaveLength(64);
+      expect(borderTrip.isValidStateCode('ON')).toBe(true);
+      expect(borderTrip.isValidStateCode('PR')).toBe(false);
+      expect(borderTrip.getStatesByRegion(StateRegion.SOUTHEAST).map(state => state.code)).toContain('DC');
+      expect(stateListManager.getStatesByRegion(StateRegion.SOUTHEAST).map(state => state.code)).not.toContain('DC');
+      expect(Object.keys(borderTrip.getStatesGroupedByRegion())).not.toContain(StateRegion.CENTRAL_MEXICO);
+    });
+
+    test('should share one list between games tracking the same sets', () => {
+      expect(getStateListManager(['canada', 'us-states'])).toBe(getStateListManager(['us-states', 'canada']));
+      expect(getStateListManager(undefined).getAllStates()).toHaveLength(50);
+      expect(jurisdictionCatalog.getJurisdictionSets()).toEqual(ALL_JURISDICTION_SETS);
+    });
+  });
+
+  describe('game targets', () => {
+    test('should leave Alaska and Hawaii out of the Lower 48', () => {
+      const target = getLower48Target();
+
+      expect(target.stateCodes).toHaveLength(48);
+      expect(target.stateCodes).not.toContain('AK');
+      expect(target.stateCodes).not.toContain('HI');
+    });
+
+    test('should build a region target from the game\'s sets', () => {
+      expect(getRegionTarget(StateRegion.SOUTHWEST, ['us-states'])).toEqual({
+        name: 'Southwest',
+        stateCodes: ['AZ', 'NM', 'OK', 'TX'],
+      });
+      expect(getRegionTarget(StateRegion.SOUTHEAST, ['us-states', 'dc']).stateCodes).toContain('DC');
+    });
+
+    test('should find the sets a custom list needs', () => {
+      expect(getJurisdictionSetsFor(['ON', 'NY', 'QC'])).toEqual(['us-states', 'canada']);
+    });
+
+    test('should narrow a state list to a target', () => {
+      const stateList = getStateListManager(['us-states'], ['TX', 'ON', 'OK']);
+
+      // ON isn't in the game's sets, so it can't be a target
+      expect(stateList.getAllStates().map(state => state.code)).toEqual(['OK', 'TX']);
+      expect(stateList).toBe(getStateListManager(['us-states'], ['OK', 'ON', 'TX']));
+    });
+  });
+
+  test('should summarize a trip against its own list', () => {
+    const summary = buildTripSummary(
+      {
+        id: 'game_1',
+        name: 'Maritimes',
+        startDate: '2024-07-01T08:00:00.000Z',
+        startLocation: '',
+        destination: '',
+        isComplete: false,
+        createdAt: '2024-07-01T08:00:00.000Z',
+        jurisdictionSets: ['canada'],
+      },
+      [{ id: 'sighting_1', gameId: 'game_1', stateCode: 'NS', spottedAt: '2024-07-01T09:00:00.000Z' }],
+      {},
+    );
+
+    expect(summary.total).toBe(13);
+    expect(summary.firstState?.name).toBe('Nova Scotia');
+  });
+});
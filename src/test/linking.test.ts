@@ -0,0 +1,68 @@
+import { buildGameLink, linking, parseDeepLink, parseDeepLinkPath } from '../navigation/linking';
+
+describe('Deep links', () => {
+  describe('parseDeepLink', () => {
+    test('should open a game from an app link', () => {
+      expect(parseDeepLink('stategame://game/game_1700000000000_abc123')).toEqual({
+        gameId: 'game_1700000000000_abc123',
+      });
+    });
+
+    test('should offer to mark a state, whatever its case', () => {
+      expect(parseDeepLink('stategame://game/game_1/spot/tx')).toEqual({ gameId: 'game_1', stateCode: 'TX' });
+    });
+
+    test('should accept universal links and ignore query strings', () => {
+      expect(parseDeepLink('https://stategame.app/game/game_1/spot/CO?ref=share')).toEqual({
+        gameId: 'game_1',
+        stateCode: 'CO',
+      });
+    });
+
+    test('should reject unknown states, malformed ids and other paths', () => {
+      expect(parseDeepLink('stategame://game/game_1/spot/XX')).toBeNull();
+      expect(parseDeepLink('stategame://game/not%20an%20id')).toBeNull();
+      expect(parseDeepLink('stategame://game/')).toBeNull();
+      expect(parseDeepLink('stategame://settings')).toBeNull();
+      expect(parseDeepLink('stategame://game/game_1/photos/TX')).toBeNull();
+    });
+
+    test('should reject links for other apps and hosts', () => {
+      expect(parseDeepLink('otherapp://game/game_1')).toBeNull();
+      expect(parseDeepLink('https://example.com/game/game_1')).toBeNull();
+    });
+  });
+
+  test('should build links that parse back to the same game and state', () => {
+    expect(buildGameLink('game_1')).toBe('stategame://game/game_1');
+    expect(buildGameLink('game_1', 'TX', true)).toBe('https://stategame.app/game/game_1/spot/TX');
+    expect(parseDeepLink(buildGameLink('game_1', 'TX'))).toEqual({ gameId: 'game_1', stateCode: 'TX' });
+    expect(parseDeepLink(buildGameLink('game_1', undefined, true))).toEqual({ gameId: 'game_1' });
+  });
+
+  describe('navigation state', () => {
+    const getStateFromPath = linking.getStateFromPath!;
+
+    test('should open the game above the main menu', () => {
+      expect(getStateFromPath('game/game_1/spot/TX', linking.config)).toEqual({
+        routes: [{ name: 'MainMenu' }, { name: 'ActiveGame', params: { gameId: 'game_1', spotStateCode: 'TX' } }],
+      });
+    });
+
+    test('should route a full app link through the linking config', () => {
+      const url = 'stategame://game/game_1700000000000_abc123/spot/ny';
+      const prefix = linking.prefixes.find(candidate => url.startsWith(candidate))!;
+
+      expect(prefix).toBe('stategame://');
+      expect(getStateFromPath(url.slice(prefix.length), linking.config)?.routes).toEqual([
+        { name: 'MainMenu' },
+        { name: 'ActiveGame', params: { gameId: 'game_1700000000000_abc123', spotStateCode: 'NY' } },
+      ]);
+    });
+
+    test('should ignore paths that are not game links', () => {
+      expect(getStateFromPath('settings', linking.config)).toBeUndefined();
+      expect(parseDeepLinkPath('/game/game_1/')).toEqual({ gameId: 'game_1' });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { Text } from 'react-native';
+import { SafeAreaProvider } from 'react-native-safe-area-context';
+import DatabaseService from '../services/DatabaseService';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import { SettingsRepository } from '../repositories/SettingsRepository';
+import { SettingsProvider } from '../contexts/SettingsContext';
+import { ThemeProvider } from '../contexts/ThemeContext';
+import { RootNavigator } from '../navigation/RootNavigator';
+
+const SAFE_AREA_METRICS = {
+  frame: { x: 0, y: 0, width: 390, height: 844 },
+  insets: { top: 0, left: 0, right: 0, bottom: 0 },
+};
+
+describe('Onboarding', () => {
+  let dbService: DatabaseService;
+  let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService(new SqlJsStorageAdapter());
+    await dbService.initialize();
+  });
+
+  afterEach(async () => {
+    if (renderer) {
+      await ReactTestRenderer.act(async () => renderer?.unmount());
+      renderer = undefined;
+    }
+    await dbService.close();
+  });
+
+  // The app's provider stack around the navigator, minus games, which
+  // neither the tutorial nor the main menu reads
+  const renderApp = async () => {
+    await ReactTestRenderer.act(async () => {
+      renderer = ReactTestRenderer.create(
+        <SafeAreaProvider initialMetrics={SAFE_AREA_METRICS}>
+          <SettingsProvider database={dbService}>
+            <ThemeProvider>
+              <RootNavigator />
+            </ThemeProvider>
+          </SettingsProvider>
+        </SafeAreaProvider>,
+      );
+    });
+    // SettingsProvider renders nothing until the settings have loaded
+    while (renderer!.root.findAllByType(Text).length === 0) {
+      await ReactTestRenderer.act(() => new Promise<void>(resolve => setTimeout(resolve, 10)));
+    }
+    return renderer!;
+  };
+
+  const hasText = (tree: ReactTestRenderer.ReactTestRenderer, text: string) =>
+    tree.root.findAllByType(Text).some(node => node.props.children === text);
+
+  test('should show the tutorial on first run', async () => {
+    const tree = await renderApp();
+
+    expect(hasText(tree, 'One tap to mark a state')).toBe(true);
+    expect(hasText(tree, 'Create New Game')).toBe(false);
+  });
+
+  test('should go to the main menu when the tutorial is skipped', async () => {
+    const tree = await renderApp();
+
+    await ReactTestRenderer.act(async () => {
+      tree.root.findByProps({ accessibilityLabel: 'Skip tutorial' }).props.onPress();
+    });
+
+    expect(hasText(tree, 'One tap to mark a state')).toBe(false);
+    expect(hasText(tree, 'Create New Game')).toBe(true);
+  });
+
+  test('should remember that the tutorial was skipped', async () => {
+    const firstRun = await renderApp();
+    await ReactTestRenderer.act(async () => {
+      firstRun.root.findByProps({ accessibilityLabel: 'Skip tutorial' }).props.onPress();
+    });
+    await ReactTestRenderer.act(async () => firstRun.unmount());
+    renderer = undefined;
+
+    expect((await new SettingsRepository(dbService).getSettings()).tutorialCompleted).toBe(true);
+
+    const nextLaunch = await renderApp();
+    expect(hasText(nextLaunch, 'One tap to mark a state')).toBe(false);
+    expect(hasText(nextLaunch, 'Create New Game')).toBe(true);
+  });
+});
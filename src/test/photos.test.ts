@@ -0,0 +1,120 @@
+import DatabaseService from '../services/DatabaseService';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import { PhotoService, PhotoFileStore, PhotoPicker, PickedPhoto } from '../services/photos';
+import { GameRepository } from '../repositories/GameRepository';
+import { SightingRepository } from '../repositories/SightingRepository';
+import { PhotoRepository } from '../repositories/PhotoRepository';
+import { Game } from '../models/types';
+
+class FakePhotoPicker implements PhotoPicker {
+  constructor(private photos: PickedPhoto[]) {}
+
+  async pickPhotos(): Promise<PickedPhoto[]> {
+    return this.photos;
+  }
+}
+
+class FakePhotoFileStore implements PhotoFileStore {
+  files = new Set<string>();
+  failOn?: string;
+
+  async savePhoto(photo: PickedPhoto): Promise<string> {
+    if (photo.uri === this.failOn) {
+      throw new Error('Disk full');
+    }
+    const fileName = `stored_${photo.uri}`;
+    this.files.add(fileName);
+    return fileName;
+  }
+
+  async deletePhoto(fileName: string): Promise<void> {
+    this.files.delete(fileName);
+  }
+
+  getPhotoUri(fileName: string): string {
+    return `file:///photos/${fileName}`;
+  }
+}
+
+describe('Photo attachments', () => {
+  let dbService: DatabaseService;
+  let sightingRepo: SightingRepository;
+  let photoRepo: PhotoRepository;
+  let game: Game;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService(new SqlJsStorageAdapter());
+    await dbService.initialize();
+    sightingRepo = new SightingRepository(dbService);
+    photoRepo = new PhotoRepository(dbService);
+    game = await new GameRepository(dbService).createGame({
+      name: 'Photo Trip',
+      startDate: '2024-01-01',
+      startLocation: 'Austin',
+      destination: 'Denver',
+      isComplete: false,
+    });
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  describe('PhotoService', () => {
+    test('should copy every picked photo into storage', async () => {
+      const fileStore = new FakePhotoFileStore();
+      const service = new PhotoService(
+        new FakePhotoPicker([{ uri: 'a.jpg' }, { uri: 'b.jpg' }]),
+        fileStore,
+      );
+
+      expect(await service.pickAndSavePhotos()).toEqual(['stored_a.jpg', 'stored_b.jpg']);
+      expect(fileStore.files.size).toBe(2);
+    });
+
+    test('should remove already-copied files when a copy fails', async () => {
+      const fileStore = new FakePhotoFileStore();
+      fileStore.failOn = 'b.jpg';
+      const service = new PhotoService(
+        new FakePhotoPicker([{ uri: 'a.jpg' }, { uri: 'b.jpg' }]),
+        fileStore,
+      );
+
+      await expect(service.pickAndSavePhotos()).rejects.toThrow('Disk full');
+      expect(fileStore.files.size).toBe(0);
+    });
+
+    test('should resolve to nothing when the picker is cancelled', async () => {
+      const service = new PhotoService(new FakePhotoPicker([]), new FakePhotoFileStore());
+      expect(await service.pickAndSavePhotos()).toEqual([]);
+    });
+  });
+
+  describe('PhotoRepository', () => {
+    test('should attach photos to a sighting', async () => {
+      const sighting = await sightingRepo.recordSighting(game.id, 'TX');
+      const photo = await photoRepo.addPhoto(sighting, 'stored_a.jpg');
+
+      expect(await photoRepo.getPhotosForGame(game.id)).toEqual([photo]);
+      expect(await photoRepo.getPhotosForState(game.id, 'TX')).toEqual([photo]);
+      expect(await photoRepo.getPhotosForSighting(sighting.id)).toEqual([photo]);
+    });
+
+    test('should drop photo rows with their sighting', async () => {
+      const sighting = await sightingRepo.recordSighting(game.id, 'TX');
+      await photoRepo.addPhoto(sighting, 'stored_a.jpg');
+      await sightingRepo.deleteSighting(sighting.id);
+
+      expect(await photoRepo.getPhotosForGame(game.id)).toEqual([]);
+    });
+
+    test('should drop photo rows with their game', async () => {
+      const sighting = await sightingRepo.recordSighting(game.id, 'TX');
+      await photoRepo.addPhoto(sighting, 'stored_a.jpg');
+      await new GameRepository(dbService).deleteGame(game.id);
+
+      const result = await dbService.executeQuery('SELECT COUNT(*) as count FROM photos');
+      expect(result.rows.item(0).count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import DatabaseService from '../services/DatabaseService';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import { GameRepository } from '../repositories/GameRepository';
+import { PlayerRepository } from '../repositories/PlayerRepository';
+import { SightingRepository } from '../repositories/SightingRepository';
+import { SpottedStateRepository } from '../repositories/SpottedStateRepository';
+import { calculatePlayerScores, getLeaders, rankPlayerScores } from '../utils/scoreboard';
+import { ScoringEngine } from '../utils/ScoringEngine';
+import { Game, Player, PlayerScore } from '../models/types';
+
+describe('Multiplayer games', () => {
+  let dbService: DatabaseService;
+  let gameRepo: GameRepository;
+  let playerRepo: PlayerRepository;
+  let sightingRepo: SightingRepository;
+  let spottedStateRepo: SpottedStateRepository;
+  let testGame: Game;
+
+  beforeEach(async () => {
+    dbService = new DatabaseService(new SqlJsStorageAdapter());
+    await dbService.initialize();
+    gameRepo = new GameRepository(dbService);
+    playerRepo = new PlayerRepository(dbService);
+    sightingRepo = new SightingRepository(dbService);
+    spottedStateRepo = new SpottedStateRepository(dbService);
+    testGame = await gameRepo.createGame({
+      name: 'Family Trip',
+      startDate: '2024-06-01',
+      startLocation: 'Denver',
+      destination: 'Chicago',
+      isComplete: false,
+    });
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+  });
+
+  describe('PlayerRepository', () => {
+    test('should add players in seating order and skip blank names', async () => {
+      await playerRepo.addPlayers(testGame.id, ['Sam', '  ', ' Alex ']);
+      await playerRepo.addPlayers(testGame.id, ['Jordan']);
+
+      const players = await playerRepo.getPlayersForGame(testGame.id);
+      expect(players.map(p => [p.name, p.position])).toEqual([
+        ['Sam', 0],
+        ['Alex', 1],
+        ['Jordan', 2],
+      ]);
+    });
+
+    test('should credit a state to whoever saw it first', async () => {
+      const [sam, alex] = await playerRepo.addPlayers(testGame.id, ['Sam', 'Alex']);
+
+      await spottedStateRepo.addSpottedState(testGame.id, 'NE', sam.id);
+      await sightingRepo.recordSighting(testGame.id, 'NE', alex.id);
+      await sightingRepo.recordSighting(testGame.id, 'IA', alex.id);
+      await spottedStateRepo.addSpottedState(testGame.id, 'CO', sam.id);
+
+      const spotted = await spottedStateRepo.getSpottedStatesForGame(testGame.id);
+      expect(spotted.find(s => s.stateCode === 'NE')?.playerId).toBe(sam.id);
+
+      const scores = calculatePlayerScores(
+        await playerRepo.getPlayersForGame(testGame.id),
+        spotted,
+        await sightingRepo.getSightingsForGame(testGame.id),
+      );
+      expect(scores.map(s => [s.player.name, s.statesSpotted, s.sightings])).toEqual([
+        ['Sam', 2, 2],
+        ['Alex', 1, 2],
+      ]);
+    });
+
+    test('should keep sightings without a player', async () => {
+      await playerRepo.addPlayers(testGame.id, ['Sam']);
+      await spottedStateRepo.addSpottedState(testGame.id, 'TX');
+
+      const [spotted] = await spottedStateRepo.getSpottedStatesForGame(testGame.id);
+      expect(spotted.stateCode).toBe('TX');
+      expect(spotted.playerId).toBeUndefined();
+    });
+
+    test('should record final points', async () => {
+      const [sam] = await playerRepo.addPlayers(testGame.id, ['Sam']);
+      await playerRepo.setFinalPoints(sam.id, 42);
+
+      const [player] = await playerRepo.getPlayersForGame(testGame.id);
+      expect(player.finalPoints).toBe(42);
+    });
+
+    test('should clear final points when a game is reopened', async () => {
+      const [sam, alex] = await playerRepo.addPlayers(testGame.id, ['Sam', 'Alex']);
+      await playerRepo.setFinalPoints(sam.id, 42);
+      await playerRepo.setFinalPoints(alex.id, 17);
+      await playerRepo.clearFinalPoints(testGame.id);
+
+      const players = await playerRepo.getPlayersForGame(testGame.id);
+      expect(players.map(player => player.finalPoints)).toEqual([undefined, undefined]);
+    });
+
+    test('should remove players with their game', async () => {
+      await playerRepo.addPlayers(testGame.id, ['Sam', 'Alex']);
+      await gameRepo.deleteGame(testGame.id);
+
+      expect(await playerRepo.getPlayersForGame(testGame.id)).toEqual([]);
+    });
+  });
+
+  describe('scoreboard', () => {
+    const player = (id: string, position: number): Player => ({
+      id,
+      gameId: 'game',
+      name: id,
+      position,
+    });
+    const score = (
+      id: string,
+      position: number,
+      statesSpotted: number,
+      sightings = statesSpotted,
+      points = statesSpotted,
+    ): PlayerScore => ({
+      player: player(id, position),
+      statesSpotted,
+      sightings,
+      points,
+    });
+
+    test('should tally scores from spotted states and sightings', () => {
+      const players = [player('sam', 0), player('alex', 1)];
+      const spottedStates = [
+        { id: '1', gameId: 'game', stateCode: 'NE', spottedAt: '2024-06-01T10:00:00Z', playerId: 'sam' },
+        { id: '3', gameId: 'game', stateCode: 'IA', spottedAt: '2024-06-01T10:02:00Z', playerId: 'alex' },
+      ];
+      const sightings = [
+        { id: '1', gameId: 'game', stateCode: 'NE', sightedAt: '2024-06-01T10:00:00Z', playerId: 'sam' },
+        { id: '2', gameId: 'game', stateCode: 'NE', sightedAt: '2024-06-01T10:01:00Z', playerId: 'alex' },
+        { id: '3', gameId: 'game', stateCode: 'IA', sightedAt: '2024-06-01T10:02:00Z', playerId: 'alex' },
+      ];
+
+      // NE is uncommon (3 points), IA too
+      const engine = new ScoringEngine();
+      expect(calculatePlayerScores(players, spottedStates, sightings, engine)).toEqual([
+        { player: players[0], statesSpotted: 1, sightings: 1, points: 3 },
+        { player: players[1], statesSpotted: 1, sightings: 2, points: 3 },
+      ]);
+    });
+
+    test('should rank by points, then states, then sightings, then seating order', () => {
+      const ranked = rankPlayerScores([
+        score('a', 0, 3, 3, 9),
+        score('b', 1, 5, 5, 9),
+        score('c', 2, 3, 4, 9),
+        score('d', 3, 3, 3, 9),
+        score('e', 4, 2, 2, 10),
+      ]);
+      expect(ranked.map(s => s.player.id)).toEqual(['e', 'b', 'c', 'a', 'd']);
+    });
+
+    test('should name a single winner', () => {
+      expect(getLeaders([score('a', 0, 3), score('b', 1, 7)]).map(s => s.player.id)).toEqual(['b']);
+    });
+
+    test('should report ties', () => {
+      expect(getLeaders([score('a', 0, 4), score('b', 1, 2), score('c', 2, 4)]).map(s => s.player.id)).toEqual([
+        'a',
+        'c',
+      ]);
+    });
+
+    test('should have no leader before anyone scores', () => {
+      expect(getLeaders([score('a', 0, 0), score('b', 1, 0)])).toEqual([]);
+      expect(getLeaders([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import DatabaseService from '../services/DatabaseService';
+import { SqlJsStorageAdapter } from '../services/storage/SqlJsStorageAdapter';
+import { GameRepository } from '../repositories/GameRepository';
+import { SpottedStateRepository } from '../repositories/SpottedStateRepository';
+import {
+  ALL_STATES_MULTIPLIER,
+  MIN_GAMES_FOR_HISTORY,
+  RARITY_POINTS,
+  RarityTier,
+  REGION_SWEEP_MULTIPLIER,
+  ScoringEngine,
+} from '../utils/ScoringEngine';
+import { JurisdictionSet } from '../models/types';
+import { getGameStateList, stateListManager, StateRegion } from '../utils/StateListManager';
+import { US_STATES } from '../utils/constants';
+
+describe('Scoring engine', () => {
+  const engine = new ScoringEngine();
+
+  describe('default tiers', () => {
+    test('should rate commonly spotted states as common', () => {
+      stateListManager.getCommonlySpottedStates().forEach(state => {
+        expect(engine.getTier(state.code)).toBe(RarityTier.COMMON);
+      });
+      expect(engine.getStatePoints('CA')).toBe(RARITY_POINTS[RarityTier.COMMON]);
+    });
+
+    test('should rate rarely spotted states as rare', () => {
+      stateListManager.getRarelySpottedStates().forEach(state => {
+        expect(engine.getTier(state.code)).toBe(RarityTier.RARE);
+      });
+      expect(engine.getStatePoints('HI')).toBe(RARITY_POINTS[RarityTier.RARE]);
+    });
+
+    test('should rate everything else as uncommon', () => {
+      expect(engine.getTier('NE')).toBe(RarityTier.UNCOMMON);
+      expect(engine.getStatePoints('NE')).toBe(RARITY_POINTS[RarityTier.UNCOMMON]);
+    });
+
+    test('should rate plates from outside the 50 states', () => {
+      expect(engine.getTier('PR')).toBe(RarityTier.RARE);
+      expect(engine.getTier('YT')).toBe(RarityTier.RARE);
+      expect(engine.getTier('OAX')).toBe(RarityTier.RARE);
+      expect(engine.getTier('ON')).toBe(RarityTier.UNCOMMON);
+      expect(engine.getTier('SON')).toBe(RarityTier.UNCOMMON);
+      expect(engine.getTier('DC')).toBe(RarityTier.UNCOMMON);
+    });
+  });
+
+  describe('scoreStates', () => {
+    test('should add up state points without bonuses', () => {
+      // CA common, NE uncommon, AK rare
+      expect(engine.scoreStates(['CA', 'NE', 'AK'])).toEqual({
+        basePoints: 1 + 3 + 5,
+        bonuses: [],
+        multiplier: 1,
+        total: 9,
+      });
+    });
+
+    test('should count each state once', () => {
+      expect(engine.scoreStates(['CA', 'CA']).total).toBe(1);
+      expect(engine.scoreStates([]).total).toBe(0);
+    });
+
+    test('should multiply the score for sweeping a region', () => {
+      const southwest = stateListManager.getStatesByRegion(StateRegion.SOUTHWEST).map(s => s.code);
+      const score = engine.scoreStates([...southwest, 'CA']);
+
+      expect(score.bonuses.map(bonus => bonus.id)).toEqual(['region_southwest']);
+      expect(score.multiplier).toBe(REGION_SWEEP_MULTIPLIER);
+      expect(score.total).toBe(Math.round(score.basePoints * REGION_SWEEP_MULTIPLIER));
+    });
+
+    test('should stack every bonus for a full game', () => {
+      const score = engine.scoreStates(US_STATES.map(state => state.code));
+
+      expect(score.bonuses).toHaveLength(stateListManager.getRegions().length + 1);
+      expect(score.bonuses[score.bonuses.length - 1].id).toBe('all_states');
+      expect(score.multiplier).toBeCloseTo(
+        REGION_SWEEP_MULTIPLIER ** stateListManager.getRegions().length * ALL_STATES_MULTIPLIER,
+      );
+      expect(score.bonuses[score.bonuses.length - 1].label).toBe('All 50 states');
+    });
+  });
+
+  describe('scoreStates for a game', () => {
+    const borderTrip = { jurisdictionSets: ['us-states', 'canada'] as JurisdictionSet[] };
+
+    test('should award sweeps for regions outside the 50 states', () => {
+      const atlantic = getGameStateList(borderTrip)
+        .getStatesByRegion(StateRegion.ATLANTIC_CANADA)
+        .map(state => state.code);
+
+      expect(engine.scoreStates(atlantic, borderTrip).bonuses.map(bonus => bonus.id)).toEqual([
+        'region_atlantic_canada',
+      ]);
+      expect(engine.scoreStates(atlantic).bonuses).toEqual([]);
+    });
+
+    test('should not call the 50 states complete when the game tracks more', () => {
+      const score = engine.scoreStates(US_STATES.map(state => state.code), borderTrip);
+
+      expect(score.bonuses.map(bonus => bonus.id)).not.toContain('all_states');
+    });
+
+    test('should award completion for finishing a target list', () => {
+      const target = { ...borderTrip, targetName: 'Great Lakes', targetStateCodes: ['MI', 'NY', 'OH', 'ON'] };
+      const score = engine.scoreStates(['MI', 'NY', 'OH', 'ON'], target);
+
+      expect(score.bonuses.map(bonus => bonus.id)).toEqual([
+        'region_northeast',
+        'region_midwest',
+        'region_central_canada',
+        'all_states',
+      ]);
+      expect(score.bonuses[3].label).toBe('All of Great Lakes');
+    });
+
+    test('should only sweep the part of a region in the target', () => {
+      const target = { targetStateCodes: ['AZ', 'NM', 'CA', 'OR'] };
+      const score = engine.scoreStates(['AZ', 'NM', 'CA'], target);
+
+      expect(score.bonuses.map(bonus => bonus.id)).toEqual(['region_southwest']);
+      expect(engine.scoreStates(['AZ', 'NM', 'CA', 'OR'], target).bonuses.map(bonus => bonus.label)).toEqual([
+        'Swept the Southwest',
+        'Swept the Pacific',
+        'All 4 plates',
+      ]);
+    });
+
+    test('should not score states off the game\'s list', () => {
+      const target = { targetStateCodes: ['AZ', 'NM'] };
+
+      expect(engine.scoreStates(['AZ', 'TX', 'OK'], target).basePoints).toBe(engine.getStatePoints('AZ'));
+      expect(engine.scoreStates(['CA', 'ON']).basePoints).toBe(engine.getStatePoints('CA'));
+    });
+
+    test('should name a full 50 state list whichever way it was built', () => {
+      const fiftyStates = {
+        jurisdictionSets: ['us-states'] as JurisdictionSet[],
+        targetStateCodes: US_STATES.map(state => state.code),
+      };
+      const score = engine.scoreStates(US_STATES.map(state => state.code), fiftyStates);
+
+      expect(score.bonuses[score.bonuses.length - 1].label).toBe('All 50 states');
+    });
+
+    test('should not give a sweep for a target inside one region', () => {
+      const target = { targetStateCodes: ['AZ', 'NM'] };
+
+      expect(engine.scoreStates(['AZ', 'NM'], target).bonuses.map(bonus => bonus.id)).toEqual(['all_states']);
+      expect(engine.scoreStates(['AZ'], target).bonuses).toEqual([]);
+    });
+  });
+
+  describe('fromHistory', () => {
+    test('should keep the default tiers without enough games', () => {
+      const fromHistory = ScoringEngine.fromHistory({
+        totalGames: MIN_GAMES_FOR_HISTORY - 1,
+        stateSpottedCounts: { HI: 2 },
+      });
+      expect(fromHistory.getTier('HI')).toBe(RarityTier.RARE);
+    });
+
+    test('should rate states by how often they have been seen', () => {
+      const fromHistory = ScoringEngine.fromHistory({
+        totalGames: 6,
+        stateSpottedCounts: { HI: 6, NE: 3, CA: 1 },
+      });
+
+      expect(fromHistory.getTier('HI')).toBe(RarityTier.COMMON);
+      expect(fromHistory.getTier('NE')).toBe(RarityTier.UNCOMMON);
+      expect(fromHistory.getTier('CA')).toBe(RarityTier.RARE);
+      expect(fromHistory.getTier('TX')).toBe(RarityTier.RARE); // Never seen
+    });
+
+    test('should rate every jurisdiction, not just the 50 states', () => {
+      const fromHistory = ScoringEngine.fromHistory({
+        totalGames: 6,
+        stateSpottedCounts: { YT: 6, ON: 3, DC: 1 },
+      });
+
+      expect(fromHistory.getTier('YT')).toBe(RarityTier.COMMON);
+      expect(fromHistory.getTier('ON')).toBe(RarityTier.UNCOMMON);
+      expect(fromHistory.getTier('DC')).toBe(RarityTier.RARE);
+    });
+
+    test('should build from game statistics', async () => {
+      const dbService = new DatabaseService(new SqlJsStorageAdapter());
+      await dbService.initialize();
+      const games = new GameRepository(dbService);
+      const spotted = new SpottedStateRepository(dbService);
+
+      for (let i = 0; i < 3; i++) {
+        const game = await games.createGame({
+          name: `Trip ${i}`,
+          startDate: '2024-01-01',
+          startLocation: '',
+          destination: '',
+          isComplete: true,
+        });
+        await spotted.addSpottedState(game.id, 'OH');
+        if (i === 0) {
+          await spotted.addSpottedState(game.id, 'CA');
+        }
+      }
+
+      const statistics = await spotted.getGameStatistics();
+      expect(statistics.stateSpottedCounts).toEqual({ OH: 3, CA: 1 });
+
+      const fromHistory = ScoringEngine.fromHistory(statistics);
+      expect(fromHistory.getTier('OH')).toBe(RarityTier.COMMON);
+      expect(fromHistory.getTier('CA')).toBe(RarityTier.RARE);
+
+      await dbService.close();
+    });
+  });
+});
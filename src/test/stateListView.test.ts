@@ -0,0 +1,149 @@
+import { StateInfo, StateListView } from '../models/types';
+import { getStateListManager, stateListManager } from '../utils/StateListManager';
+import {
+  buildSearchSection,
+  buildStateSections,
+  DEFAULT_STATE_LIST_VIEW,
+  parseStateListView,
+  toggleSectionCollapsed,
+} from '../utils/stateListView';
+
+const withSpotted = (spotted: Record<string, string>): StateInfo[] =>
+  stateListManager.getAllStates().map(state => ({
+    ...state,
+    isSpotted: state.code in spotted,
+    spottedAt: spotted[state.code],
+  }));
+
+const view = (changes: Partial<StateListView>): StateListView => ({ ...DEFAULT_STATE_LIST_VIEW, ...changes });
+
+describe('State list view', () => {
+  describe('buildStateSections', () => {
+    test('should list every state in one section when not grouped', () => {
+      const sections = buildStateSections(withSpotted({}), stateListManager, DEFAULT_STATE_LIST_VIEW);
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0].data).toHaveLength(50);
+      expect(sections[0].data[0].name).toBe('Alabama');
+    });
+
+    test('should count progress per region', () => {
+      const states = withSpotted({ TX: '2024-07-01T10:00:00.000Z', OK: '2024-07-01T11:00:00.000Z' });
+      const sections = buildStateSections(states, stateListManager, view({ groupBy: 'region' }));
+
+      expect(sections.map(section => section.title)).toEqual([
+        'Northeast',
+        'Southeast',
+        'Midwest',
+        'Southwest',
+        'West',
+        'Pacific',
+      ]);
+      expect(sections[3]).toMatchObject({ key: 'southwest', spottedCount: 2, totalCount: 4 });
+    });
+
+    test('should group by first letter in alphabetical order', () => {
+      const sections = buildStateSections(withSpotted({}), stateListManager, view({ groupBy: 'letter' }));
+
+      expect(sections[0].title).toBe('A');
+      expect(sections[0].data.map(state => state.code)).toEqual(['AL', 'AK', 'AZ', 'AR']);
+      expect(sections.map(section => section.key)).not.toContain('B');
+    });
+
+    test('should sort within sections', () => {
+      const states = withSpotted({ TX: '2024-07-01T10:00:00.000Z', OK: '2024-07-01T11:00:00.000Z' });
+
+      const recent = buildStateSections(states, stateListManager, view({ groupBy: 'region', sortBy: 'spottedAt' }));
+      expect(recent[3].data.map(state => state.code)).toEqual(['OK', 'TX', 'AZ', 'NM']);
+
+      const byCode = buildStateSections(states, stateListManager, view({ sortBy: 'code' }));
+      expect(byCode[0].data[0].code).toBe('AK');
+    });
+
+    test('should hide spotted states but keep full counts when showing remaining only', () => {
+      const states = withSpotted({ AZ: '2024-07-01T10:00:00.000Z', NM: '2024-07-01T11:00:00.000Z' });
+      const sections = buildStateSections(states, stateListManager, view({ groupBy: 'region', remainingOnly: true }));
+      const southwest = sections.find(section => section.key === 'southwest');
+
+      expect(southwest?.data.map(state => state.code)).toEqual(['OK', 'TX']);
+      expect(southwest).toMatchObject({ spottedCount: 2, totalCount: 4 });
+    });
+
+    test('should drop sections with nothing left to show', () => {
+      const states = withSpotted({ AZ: '1', NM: '2', OK: '3', TX: '4' });
+
+      const remaining = buildStateSections(states, stateListManager, view({ groupBy: 'region', remainingOnly: true }));
+      expect(remaining.map(section => section.key)).not.toContain('southwest');
+      expect(remaining).toHaveLength(5);
+    });
+
+    test('should keep collapsed sections as empty headers', () => {
+      const sections = buildStateSections(
+        withSpotted({}),
+        stateListManager,
+        view({ groupBy: 'region', collapsedSections: ['pacific'] }),
+      );
+      const pacific = sections.find(section => section.key === 'pacific');
+
+      expect(pacific).toMatchObject({ isCollapsed: true, totalCount: 5, data: [] });
+    });
+
+    test('should only show regions in the game\'s list', () => {
+      const stateList = getStateListManager(['us-states', 'canada'], ['ON', 'QC', 'NY']);
+      const states = stateList.getAllStates().map(state => ({ ...state, isSpotted: false }));
+      const sections = buildStateSections(states, stateList, view({ groupBy: 'region' }));
+
+      expect(sections.map(section => section.title)).toEqual(['Northeast', 'Central Canada']);
+    });
+  });
+
+  describe('buildSearchSection', () => {
+    test('should list matches in ranked order whatever the grouping', () => {
+      const states = withSpotted({});
+      const sections = buildSearchSection(
+        states,
+        stateListManager.searchStates('carolina'),
+        view({ groupBy: 'region', sortBy: 'code' }),
+      );
+
+      expect(sections).toHaveLength(1);
+      expect(sections[0].title).toBe('');
+      expect(sections[0].data.map(state => state.code)).toEqual(['NC', 'SC']);
+    });
+
+    test('should still hide spotted matches when showing remaining only', () => {
+      const states = withSpotted({ NC: '2024-07-01T10:00:00.000Z' });
+      const matches = stateListManager.searchStates('carolina');
+
+      expect(buildSearchSection(states, matches, view({ remainingOnly: true }))[0].data.map(state => state.code)).toEqual([
+        'SC',
+      ]);
+      expect(buildSearchSection(states, [stateListManager.getStateByCode('NC')!], view({ remainingOnly: true }))).toEqual(
+        [],
+      );
+    });
+  });
+
+  test('should toggle a collapsed section', () => {
+    const collapsed = toggleSectionCollapsed(DEFAULT_STATE_LIST_VIEW, 'west');
+
+    expect(collapsed.collapsedSections).toEqual(['west']);
+    expect(toggleSectionCollapsed(collapsed, 'west').collapsedSections).toEqual([]);
+  });
+
+  describe('parseStateListView', () => {
+    test('should read back a stored view', () => {
+      const stored = view({ groupBy: 'letter', sortBy: 'spotted', remainingOnly: true, collapsedSections: ['A'] });
+
+      expect(parseStateListView(JSON.stringify(stored))).toEqual(stored);
+    });
+
+    test('should fall back to the default for missing or unknown values', () => {
+      expect(parseStateListView(null)).toEqual(DEFAULT_STATE_LIST_VIEW);
+      expect(parseStateListView('not json')).toEqual(DEFAULT_STATE_LIST_VIEW);
+      expect(parseStateListView('{"groupBy":"country","sortBy":"code","collapsedSections":[1,"west"]}')).toEqual(
+        view({ sortBy: 'code', collapsedSections: ['west'] }),
+      );
+    });
+  });
+});
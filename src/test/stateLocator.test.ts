@@ -0,0 +1,172 @@
+import { isPointInPolygon, isPointInRing, stateLocator, StateLocatorImpl } from '../utils/StateLocator';
+import { STATE_BOUNDARIES } from '../utils/stateBoundaries';
+import { US_STATES } from '../utils/constants';
+
+describe('State locator', () => {
+  describe('isPointInRing', () => {
+    const square = [[0, 0], [10, 0], [10, 10], [0, 10]] as const;
+    // An L shape: the top-right quarter is cut out
+    const lShape = [[0, 0], [10, 0], [10, 5], [5, 5], [5, 10], [0, 10]] as const;
+
+    test('should find points inside a square', () => {
+      expect(isPointInRing(5, 5, square)).toBe(true);
+      expect(isPointInRing(0.1, 9.9, square)).toBe(true);
+    });
+
+    test('should reject points outside a square', () => {
+      expect(isPointInRing(-1, 5, square)).toBe(false);
+      expect(isPointInRing(5, 11, square)).toBe(false);
+      expect(isPointInRing(15, 15, square)).toBe(false);
+    });
+
+    test('should handle concave rings', () => {
+      expect(isPointInRing(2, 8, lShape)).toBe(true);
+      expect(isPointInRing(8, 2, lShape)).toBe(true);
+      expect(isPointInRing(8, 8, lShape)).toBe(false);
+    });
+  });
+
+  describe('isPointInPolygon', () => {
+    const outer = [[0, 0], [10, 0], [10, 10], [0, 10]] as const;
+    const hole = [[4, 4], [6, 4], [6, 6], [4, 6]] as const;
+    const island = [[20, 20], [22, 20], [22, 22], [20, 22]] as const;
+
+    test('should treat a nested ring as a hole', () => {
+      expect(isPointInPolygon(2, 2, [outer, hole])).toBe(true);
+      expect(isPointInPolygon(5, 5, [outer, hole])).toBe(false);
+    });
+
+    test('should match any of several separate rings', () => {
+      expect(isPointInPolygon(21, 21, [outer, island])).toBe(true);
+      expect(isPointInPolygon(15, 15, [outer, island])).toBe(false);
+    });
+  });
+
+  describe('bundled boundaries', () => {
+    test('should cover every state', () => {
+      expect(Object.keys(STATE_BOUNDARIES).sort()).toEqual(US_STATES.map(state => state.code).sort());
+    });
+
+    test('should only contain valid coordinates', () => {
+      Object.values(STATE_BOUNDARIES).forEach(rings => {
+        rings.forEach(ring => {
+          expect(ring.length).toBeGreaterThanOrEqual(3);
+          ring.forEach(([longitude, latitude]) => {
+            expect(longitude).toBeGreaterThanOrEqual(-180);
+            expect(longitude).toBeLessThan(-60);
+            expect(latitude).toBeGreaterThan(18);
+            expect(latitude).toBeLessThan(72);
+          });
+        });
+      });
+    });
+  });
+
+  describe('findStateAt', () => {
+    test.each([
+      ['Nebraska', 'North Platte', 41.12, -100.77],
+      ['Nebraska', 'Lincoln', 40.81, -96.7],
+      ['Colorado', 'Denver', 39.74, -104.99],
+      ['Texas', 'Austin', 30.27, -97.74],
+      ['Texas', 'Dallas', 32.78, -96.8],
+      ['California', 'Sacramento', 38.58, -121.49],
+      ['California', 'Los Angeles', 34.05, -118.24],
+      ['Nevada', 'Las Vegas', 36.17, -115.14],
+      ['Arizona', 'Phoenix', 33.45, -112.07],
+      ['Utah', 'Salt Lake City', 40.76, -111.89],
+      ['Washington', 'Seattle', 47.61, -122.33],
+      ['Oregon', 'Portland', 45.52, -122.68],
+      ['Idaho', 'Boise', 43.62, -116.2],
+      ['Montana', 'Helena', 46.59, -112.04],
+      ['Wyoming', 'Cheyenne', 41.14, -104.82],
+      ['North Dakota', 'Bismarck', 46.81, -100.78],
+      ['South Dakota', 'Pierre', 44.37, -100.35],
+      ['Kansas', 'Wichita', 37.69, -97.34],
+      ['Oklahoma', 'Oklahoma City', 35.47, -97.52],
+      ['New Mexico', 'Albuquerque', 35.08, -106.65],
+      ['Minnesota', 'Minneapolis', 44.98, -93.27],
+      ['Minnesota', 'Duluth', 46.79, -92.1],
+      ['Iowa', 'Des Moines', 41.59, -93.62],
+      ['Missouri', 'Jefferson City', 38.58, -92.17],
+      ['Arkansas', 'Little Rock', 34.75, -92.29],
+      ['Louisiana', 'Baton Rouge', 30.45, -91.19],
+      ['Louisiana', 'New Orleans', 29.95, -90.07],
+      ['Wisconsin', 'Madison', 43.07, -89.4],
+      ['Illinois', 'Springfield', 39.78, -89.65],
+      ['Michigan', 'Lansing', 42.73, -84.56],
+      ['Michigan', 'Detroit', 42.33, -83.05],
+      ['Michigan', 'Marquette', 46.54, -87.4],
+      ['Indiana', 'Indianapolis', 39.77, -86.16],
+      ['Ohio', 'Columbus', 39.96, -82.99],
+      ['Kentucky', 'Louisville', 38.25, -85.76],
+      ['Tennessee', 'Nashville', 36.16, -86.78],
+      ['Mississippi', 'Jackson', 32.3, -90.18],
+      ['Alabama', 'Montgomery', 32.38, -86.3],
+      ['Georgia', 'Atlanta', 33.75, -84.39],
+      ['Florida', 'Orlando', 28.54, -81.38],
+      ['Florida', 'Tallahassee', 30.44, -84.28],
+      ['South Carolina', 'Columbia', 34.0, -81.03],
+      ['North Carolina', 'Raleigh', 35.78, -78.64],
+      ['Virginia', 'Richmond', 37.54, -77.44],
+      ['West Virginia', 'Charleston', 38.35, -81.63],
+      ['Maryland', 'Baltimore', 39.29, -76.61],
+      ['Delaware', 'Dover', 39.16, -75.52],
+      ['Pennsylvania', 'Harrisburg', 40.27, -76.88],
+      ['Pennsylvania', 'Pittsburgh', 40.44, -80.0],
+      ['New Jersey', 'Trenton', 40.22, -74.76],
+      ['New York', 'Albany', 42.65, -73.75],
+      ['New York', 'Syracuse', 43.05, -76.15],
+      ['Connecticut', 'Hartford', 41.76, -72.67],
+      ['Rhode Island', 'Providence', 41.82, -71.41],
+      ['Massachusetts', 'Boston', 42.36, -71.06],
+      ['Vermont', 'Montpelier', 44.26, -72.58],
+      ['New Hampshire', 'Concord', 43.21, -71.54],
+      ['Maine', 'Augusta', 44.31, -69.78],
+      ['Alaska', 'Anchorage', 61.22, -149.9],
+      ['Alaska', 'Fairbanks', 64.84, -147.72],
+      ['Alaska', 'Juneau', 58.3, -134.42],
+      ['Hawaii', 'Honolulu', 21.31, -157.86],
+      ['Hawaii', 'Hilo', 19.71, -155.08],
+    ])('should place %s (%s)', (stateName, _city, latitude, longitude) => {
+      expect(stateLocator.findStateAt({ latitude, longitude })?.name).toBe(stateName);
+    });
+
+    test.each([
+      ['the Pacific Ocean', 40.0, -130.0],
+      ['the Gulf of Mexico', 26.0, -90.0],
+      ['Toronto', 43.65, -79.38],
+      ['Vancouver', 49.28, -123.12],
+      ['Mexico City', 19.43, -99.13],
+      ['Washington, DC', 38.9, -77.03],
+    ])('should return null in %s', (_place, latitude, longitude) => {
+      expect(stateLocator.findStateAt({ latitude, longitude })).toBeNull();
+    });
+
+    test('should not claim a point for two states', () => {
+      const locator = new StateLocatorImpl();
+      const overlaps: string[] = [];
+
+      // Sample the lower 48 on a coarse grid
+      for (let latitude = 25; latitude <= 49; latitude += 0.5) {
+        for (let longitude = -124; longitude <= -67; longitude += 0.5) {
+          const matches = Object.entries(STATE_BOUNDARIES).filter(([, rings]) =>
+            isPointInPolygon(longitude, latitude, rings),
+          );
+          if (matches.length > 1) {
+            overlaps.push(`${latitude},${longitude}: ${matches.map(([code]) => code).join('/')}`);
+          }
+        }
+      }
+
+      expect(overlaps).toEqual([]);
+      expect(locator.findStateAt({ latitude: 41.12, longitude: -100.77 })?.code).toBe('NE');
+    });
+
+    test('should accept custom boundaries', () => {
+      const locator = new StateLocatorImpl({ CO: [[[-110, 36], [-100, 36], [-100, 42], [-110, 42]]] });
+
+      expect(locator.findStateAt({ latitude: 38, longitude: -105 })?.code).toBe('CO');
+      expect(locator.findStateAt({ latitude: 30, longitude: -97 })).toBeNull();
+    });
+  });
+});
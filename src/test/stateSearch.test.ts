@@ -0,0 +1,110 @@
+import { getStateListManager, jurisdictionCatalog, stateListManager } from '../utils/StateListManager';
+import { editDistance, normalizeSearchText, StateSearchIndex } from '../utils/stateSearch';
+
+const topCode = (query: string) => stateListManager.searchStates(query)[0]?.code;
+
+describe('State search', () => {
+  describe('ranking', () => {
+    test('should put the named state first', () => {
+      expect(topCode('Tex')).toBe('TX');
+      expect(topCode('texas')).toBe('TX');
+      expect(topCode('new')).toBe('NH');
+    });
+
+    test('should put an exact code ahead of names that contain it', () => {
+      expect(topCode('mo')).toBe('MO');
+      expect(topCode('in')).toBe('IN');
+      expect(stateListManager.searchStates('ok').map(state => state.code)).toEqual(['OK']);
+    });
+
+    test('should find states by nickname and slogan', () => {
+      expect(topCode('Lone Star')).toBe('TX');
+      expect(topCode('the Buckeye State')).toBe('OH');
+      expect(topCode('Empire State')).toBe('NY');
+      expect(topCode('live free or die')).toBe('NH');
+      expect(topCode('Land of Lincoln')).toBe('IL');
+      expect(topCode('10,000 lakes')).toBe('MN');
+    });
+
+    test('should find states by traditional and old postal abbreviations', () => {
+      expect(topCode('Calif.')).toBe('CA');
+      expect(topCode('Miss')).toBe('MS');
+      expect(topCode('N Dak')).toBe('ND');
+      expect(topCode('nebr')).toBe('NE');
+    });
+
+    test('should match abbreviated words in spoken order', () => {
+      expect(topCode('N Carolina')).toBe('NC');
+      expect(topCode('so carolina')).toBe('SC');
+      expect(topCode('N Mexico')).toBe('NM');
+      expect(topCode('w virginia')).toBe('WV');
+    });
+
+    test('should ignore filler words', () => {
+      expect(topCode('the state of Ohio')).toBe('OH');
+      expect(topCode('Vermont plates')).toBe('VT');
+    });
+
+    test('should tolerate typos and doubled letters', () => {
+      expect(topCode('Misisipi')).toBe('MS');
+      expect(topCode('Tenesee')).toBe('TN');
+      expect(topCode('Conneticut')).toBe('CT');
+      expect(topCode('Pensylvania')).toBe('PA');
+      expect(topCode('Oregno')).toBe('OR');
+      expect(topCode('califronia')).toBe('CA');
+    });
+
+    test('should rank a clean match above a fuzzy one', () => {
+      const codes = stateListManager.searchStates('virgina').map(state => state.code);
+
+      expect(codes.slice(0, 2)).toEqual(['VA', 'WV']);
+    });
+
+    test('should not guess wildly from short or unrelated input', () => {
+      expect(stateListManager.searchStates('zz')).toEqual([]);
+      expect(stateListManager.searchStates('banana')).toEqual([]);
+    });
+
+    test('should list every state for an empty query', () => {
+      expect(stateListManager.searchStates('')).toHaveLength(50);
+      expect(stateListManager.searchStates('  the ')).toHaveLength(50);
+    });
+  });
+
+  test('should say what a state matched on', () => {
+    const [match] = stateListManager.rankStates('lone star');
+
+    expect(match).toMatchObject({ matchedKind: 'nickname', matchedText: 'Lone Star State' });
+    expect(match.state.code).toBe('TX');
+  });
+
+  test('should only search the states in the list', () => {
+    const borderTrip = getStateListManager(['us-states', 'canada']);
+
+    expect(topCode('NB')).toBe('NE');
+    expect(borderTrip.searchStates('NB').map(state => state.code)).toEqual(['NB', 'NE']);
+    expect(borderTrip.searchStates('la belle province')[0].code).toBe('QC');
+    expect(stateListManager.searchStates('la belle province')).toEqual([]);
+    expect(jurisdictionCatalog.searchStates('nuevo leon')[0].code).toBe('NLE');
+  });
+
+  test('should search any list of states', () => {
+    const index = new StateSearchIndex([{ code: 'TX', name: 'Texas' }]);
+
+    expect(index.search('lone star')).toEqual([{ code: 'TX', name: 'Texas' }]);
+    expect(index.search('ohio')).toEqual([]);
+  });
+
+  describe('helpers', () => {
+    test('should normalize case, accents, punctuation and filler', () => {
+      expect(normalizeSearchText('  The State of NUEVO LEÓN! ')).toBe('nuevo leon');
+      expect(normalizeSearchText("N. Carolina's plates")).toBe('n carolinas');
+    });
+
+    test('should count a swap of neighbouring letters as one edit', () => {
+      expect(editDistance('oregno', 'oregon')).toBe(1);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+  });
+});
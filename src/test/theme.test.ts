@@ -0,0 +1,67 @@
+import { COLORS } from '../utils/constants';
+import {
+  DARK_COLORS,
+  HIGH_CONTRAST_COLORS,
+  isThemePreference,
+  resolveTheme,
+  THEMES,
+  ThemeColors,
+} from '../utils/theme';
+
+// WCAG relative luminance of a #RRGGBB color
+const luminance = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => {
+    const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const contrast = (a: string, b: string) => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+describe('Themes', () => {
+  test('should follow the system appearance by default', () => {
+    expect(resolveTheme('system', 'dark')).toBe(THEMES.dark);
+    expect(resolveTheme('system', 'light')).toBe(THEMES.light);
+    expect(resolveTheme('system', null)).toBe(THEMES.light);
+  });
+
+  test('should use the chosen theme regardless of the system', () => {
+    expect(resolveTheme('light', 'dark')).toBe(THEMES.light);
+    expect(resolveTheme('dark', 'light')).toBe(THEMES.dark);
+    expect(resolveTheme('high-contrast', 'dark')).toBe(THEMES['high-contrast']);
+  });
+
+  test('should only accept known theme preferences', () => {
+    ['system', 'light', 'dark', 'high-contrast'].forEach(value => expect(isThemePreference(value)).toBe(true));
+    ['sepia', 'toString', '', null, true].forEach(value => expect(isThemePreference(value)).toBe(false));
+  });
+
+  test('should give every palette the same colors', () => {
+    [DARK_COLORS, HIGH_CONTRAST_COLORS].forEach(colors => {
+      expect(Object.keys(colors).sort()).toEqual(Object.keys(COLORS).sort());
+    });
+  });
+
+  test('should keep button text readable in every theme', () => {
+    Object.values(THEMES).forEach(({ colors }) => {
+      expect(contrast(colors.onPrimary, colors.primary)).toBeGreaterThanOrEqual(3);
+    });
+  });
+
+  test('should keep text readable at night', () => {
+    const colors: ThemeColors = DARK_COLORS;
+    expect(contrast(colors.text, colors.background)).toBeGreaterThanOrEqual(7);
+    expect(contrast(colors.textSecondary, colors.surface)).toBeGreaterThanOrEqual(4.5);
+  });
+
+  test('should meet the strictest contrast level in high contrast', () => {
+    const colors = HIGH_CONTRAST_COLORS;
+    (['text', 'textSecondary', 'primary', 'error', 'success'] as const).forEach(key => {
+      expect(contrast(colors[key], colors.background)).toBeGreaterThanOrEqual(7);
+    });
+  });
+});
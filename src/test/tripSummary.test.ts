@@ -0,0 +1,98 @@
+import { buildTripSummary, formatTripDuration, formatTripSummary } from '../utils/tripSummary';
+import { Game, SpottedState } from '../models/types';
+
+const makeGame = (overrides: Partial<Game> = {}): Game => ({
+  id: 'game_1',
+  name: 'Summer Trip',
+  startDate: '2024-06-01T08:00:00.000Z',
+  startLocation: 'Austin',
+  destination: 'Denver',
+  isComplete: false,
+  createdAt: '2024-06-01T08:00:00.000Z',
+  ...overrides,
+});
+
+const spot = (stateCode: string, spottedAt: string): SpottedState => ({
+  id: `sighting_${stateCode}`,
+  gameId: 'game_1',
+  stateCode,
+  spottedAt,
+});
+
+describe('Trip summary', () => {
+  const states = [
+    spot('NM', '2024-06-01T12:00:00.000Z'),
+    spot('TX', '2024-06-01T09:00:00.000Z'),
+    spot('CO', '2024-06-03T18:00:00.000Z'),
+  ];
+
+  describe('buildTripSummary', () => {
+    test('should count states against the full list', () => {
+      const summary = buildTripSummary(makeGame(), states, {});
+
+      expect(summary.found).toBe(3);
+      expect(summary.total).toBe(50);
+      expect(summary.percentage).toBe(6);
+    });
+
+    test('should pick the first and last states by time spotted', () => {
+      const summary = buildTripSummary(makeGame(), states, {});
+
+      expect(summary.firstState).toEqual({ stateCode: 'TX', name: 'Texas', spottedAt: '2024-06-01T09:00:00.000Z' });
+      expect(summary.lastState?.name).toBe('Colorado');
+    });
+
+    test('should pick the state seen in the fewest games as the rarest find', () => {
+      const summary = buildTripSummary(makeGame(), states, { TX: 9, NM: 2, CO: 2 });
+
+      // NM and CO tie; NM was spotted first
+      expect(summary.rarestFind?.stateCode).toBe('NM');
+    });
+
+    test('should time a finished game to its end and an open one to its latest state', () => {
+      expect(buildTripSummary(makeGame(), states, {}).duration).toBe(58 * 60 * 60 * 1000);
+      expect(buildTripSummary(makeGame({ endDate: '2024-06-05T08:00:00.000Z' }), states, {}).duration).toBe(
+        4 * 24 * 60 * 60 * 1000,
+      );
+    });
+
+    test('should leave out state details for a game with nothing spotted', () => {
+      const summary = buildTripSummary(makeGame(), [], {});
+
+      expect(summary.found).toBe(0);
+      expect(summary.duration).toBeNull();
+      expect(summary.firstState).toBeNull();
+      expect(summary.rarestFind).toBeNull();
+    });
+  });
+
+  describe('formatTripSummary', () => {
+    test('should include every part of the summary', () => {
+      const text = formatTripSummary(
+        buildTripSummary(makeGame({ endDate: '2024-06-05T20:00:00.000Z' }), states, { TX: 9, NM: 2, CO: 3 }),
+      );
+
+      expect(text).toContain('Summer Trip');
+      expect(text).toContain('3/50 states found (6%)');
+      expect(text).toContain('5 days');
+      expect(text).toContain('First: Texas');
+      expect(text).toContain('Last: Colorado');
+      expect(text).toContain('Rarest find: New Mexico');
+    });
+
+    test('should skip details that are not known yet', () => {
+      const text = formatTripSummary(buildTripSummary(makeGame(), [], {}));
+
+      expect(text).toContain('0/50 states found');
+      expect(text).toContain('Started');
+      expect(text).not.toContain('Rarest');
+    });
+  });
+
+  test('should format durations in hours, then days', () => {
+    expect(formatTripDuration(10 * 60 * 1000)).toBe('under an hour');
+    expect(formatTripDuration(60 * 60 * 1000)).toBe('1 hour');
+    expect(formatTripDuration(30 * 60 * 60 * 1000)).toBe('30 hours');
+    expect(formatTripDuration(72 * 60 * 60 * 1000)).toBe('3 days');
+  });
+});
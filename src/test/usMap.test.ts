@@ -0,0 +1,87 @@
+import { isPointInPolygon } from '../utils/StateLocator';
+import { stateListManager } from '../utils/StateListManager';
+import { isOnUsMap, projectAlbers, US_MAP_SHAPES, US_MAP_SIZE } from '../utils/usMap';
+
+type MapPoint = [number, number];
+
+const parsePath = (path: string): MapPoint[][] =>
+  path
+    .split('Z')
+    .filter(ring => ring.length > 0)
+    .map(ring =>
+      ring
+        .slice(1)
+        .split('L')
+        .map(point => point.split(',').map(Number) as MapPoint),
+    );
+
+const getShape = (code: string) => US_MAP_SHAPES.find(shape => shape.code === code)!;
+
+describe('US map', () => {
+  test('should draw every state once', () => {
+    const codes = US_MAP_SHAPES.map(shape => shape.code);
+
+    expect([...codes].sort()).toEqual(stateListManager.getAllStates().map(state => state.code).sort());
+    expect(isOnUsMap('TX')).toBe(true);
+    expect(isOnUsMap('DC')).toBe(false);
+    expect(isOnUsMap('ON')).toBe(false);
+  });
+
+  test('should keep every outline and label inside the map', () => {
+    US_MAP_SHAPES.forEach(shape => {
+      expect(shape.path).toMatch(/^M[\d.]+,[\d.]+(L[\d.]+,[\d.]+)+Z/);
+      parsePath(shape.path)
+        .flat()
+        .concat([[shape.labelX, shape.labelY]])
+        .forEach(([x, y]) => {
+          expect(x).toBeGreaterThanOrEqual(0);
+          expect(x).toBeLessThanOrEqual(US_MAP_SIZE.width);
+          expect(y).toBeGreaterThanOrEqual(0);
+          expect(y).toBeLessThanOrEqual(US_MAP_SIZE.height);
+        });
+    });
+  });
+
+  test('should put north at the top and west on the left', () => {
+    expect(getShape('ND').labelY).toBeLessThan(getShape('TX').labelY);
+    expect(getShape('CA').labelX).toBeLessThan(getShape('NY').labelX);
+  });
+
+  test('should inset Alaska and Hawaii without covering the other states', () => {
+    const insets = ['AK', 'HI'].map(getShape);
+    const lower48 = US_MAP_SHAPES.filter(shape => !['AK', 'HI'].includes(shape.code));
+
+    insets.forEach(inset => {
+      expect(inset.labelX).toBeLessThan(getShape('TX').labelX);
+      expect(inset.labelY).toBeGreaterThan(getShape('CA').labelY);
+
+      const insetRings = parsePath(inset.path);
+      lower48.forEach(shape => {
+        const rings = parsePath(shape.path);
+        insetRings.flat().forEach(([x, y]) => expect(isPointInPolygon(x, y, rings)).toBe(false));
+        rings.flat().forEach(([x, y]) => expect(isPointInPolygon(x, y, insetRings)).toBe(false));
+      });
+    });
+  });
+
+  test('should label each state inside its own outline', () => {
+    ['MI', 'FL', 'MD', 'OK', 'HI'].forEach(code => {
+      const shape = getShape(code);
+      expect(isPointInPolygon(shape.labelX, shape.labelY, parsePath(shape.path))).toBe(true);
+    });
+  });
+
+  test('should leave labels off states too small to hold them', () => {
+    expect(getShape('RI').showLabel).toBe(false);
+    expect(getShape('TX').showLabel).toBe(true);
+  });
+
+  test('should project the central meridian straight up', () => {
+    const parallels = { standardParallels: [29.5, 45.5] as [number, number], originLatitude: 37.5, centralMeridian: -96 };
+    const [x, y] = projectAlbers([-96, 37.5], parallels);
+
+    expect(x).toBeCloseTo(0);
+    expect(y).toBeCloseTo(0);
+    expect(projectAlbers([-96, 45], parallels)[1]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,170 @@
+import { Achievement, Game, SpottedState } from '../models/types';
+import { US_STATES } from './constants';
+
+export const STATES_IN_A_DAY_TARGET = 10;
+export const FASTEST_FULL_GAME_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NEW_ENGLAND_STATES = ['CT', 'ME', 'MA', 'NH', 'RI', 'VT'];
+const ATLANTIC_STATES = ['ME', 'NH', 'MA', 'RI', 'CT', 'NY', 'NJ', 'DE', 'MD', 'VA', 'NC', 'SC', 'GA', 'FL'];
+const PACIFIC_STATES = ['WA', 'OR', 'CA'];
+
+export interface AchievementRule extends Achievement {
+  isEarned(game: Game, spottedStates: SpottedState[]): boolean;
+}
+
+/**
+ * Local calendar day of a timestamp, as YYYY-MM-DD
+ */
+export function toLocalDateKey(timestamp: string): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Most states first spotted on any one day of a game
+ */
+export function getBestDay(spottedStates: SpottedState[]): { date: string; count: number } | null {
+  const counts: Record<string, number> = {};
+  spottedStates.forEach(state => {
+    const date = toLocalDateKey(state.spottedAt);
+    counts[date] = (counts[date] || 0) + 1;
+  });
+
+  return Object.entries(counts).reduce<{ date: string; count: number } | null>(
+    (best, [date, count]) => (!best || count > best.count ? { date, count } : best),
+    null,
+  );
+}
+
+/**
+ * Milliseconds from the start of a game to its last new state, or null until
+ * every state has been found
+ */
+export function getFullGameDuration(game: Game, spottedStates: SpottedState[]): number | null {
+  const codes = new Set(spottedStates.map(state => state.stateCode));
+  if (!US_STATES.every(state => codes.has(state.code))) {
+    return null;
+  }
+
+  const times = spottedStates.map(state => new Date(state.spottedAt).getTime());
+  const started = new Date(game.startDate).getTime();
+  const start = Number.isNaN(started) ? Math.min(...times) : started;
+  return Math.max(Math.max(...times) - start, 0);
+}
+
+const toAchievement = ({ id, title, description, icon }: AchievementRule): Achievement => ({
+  id,
+  title,
+  description,
+  icon,
+});
+
+const hasAll = (spottedStates: SpottedState[], codes: string[]) =>
+  codes.every(code => spottedStates.some(state => state.stateCode === code));
+
+const hasAny = (spottedStates: SpottedState[], codes: string[]) =>
+  spottedStates.some(state => codes.includes(state.stateCode));
+
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  {
+    id: 'first_plate',
+    title: 'First Plate',
+    description: 'Spot your first state',
+    icon: '🚗',
+    isEarned: (_game, spottedStates) => spottedStates.length > 0,
+  },
+  {
+    id: 'coast_to_coast',
+    title: 'Coast to Coast',
+    description: 'Spot an Atlantic and a Pacific coast state in the same game',
+    icon: '🌊',
+    isEarned: (_game, spottedStates) =>
+      hasAny(spottedStates, ATLANTIC_STATES) && hasAny(spottedStates, PACIFIC_STATES),
+  },
+  {
+    id: 'new_england',
+    title: 'All of New England',
+    description: 'Spot all six New England states in one game',
+    icon: '🦞',
+    isEarned: (_game, spottedStates) => hasAll(spottedStates, NEW_ENGLAND_STATES),
+  },
+  {
+    id: 'hawaii',
+    title: 'Aloha',
+    description: 'Spot a Hawaii plate',
+    icon: '🌺',
+    isEarned: (_game, spottedStates) => hasAll(spottedStates, ['HI']),
+  },
+  {
+    id: 'alaska',
+    title: 'North to Alaska',
+    description: 'Spot an Alaska plate',
+    icon: '🐻',
+    isEarned: (_game, spottedStates) => hasAll(spottedStates, ['AK']),
+  },
+  {
+    id: 'states_in_a_day',
+    title: 'Big Day',
+    description: `Spot ${STATES_IN_A_DAY_TARGET} new states in a single day`,
+    icon: '📅',
+    isEarned: (_game, spottedStates) => (getBestDay(spottedStates)?.count ?? 0) >= STATES_IN_A_DAY_TARGET,
+  },
+  {
+    id: 'all_states',
+    title: 'The Full 50',
+    description: 'Spot all 50 states in one game',
+    icon: '🇺🇸',
+    isEarned: (game, spottedStates) => getFullGameDuration(game, spottedStates) !== null,
+  },
+  {
+    id: 'fastest_full_game',
+    title: 'Speed Run',
+    description: `Spot all 50 states within ${FASTEST_FULL_GAME_DAYS} days of starting`,
+    icon: '⚡',
+    isEarned: (game, spottedStates) => {
+      const duration = getFullGameDuration(game, spottedStates);
+      return duration !== null && duration <= FASTEST_FULL_GAME_DAYS * DAY_MS;
+    },
+  },
+];
+
+/**
+ * Checks a game's spotted states against the achievement rules. Unlocks are
+ * lifetime, so anything already unlocked is never reported again.
+ */
+export class AchievementEngine {
+  private rules: AchievementRule[];
+
+  constructor(rules: AchievementRule[] = ACHIEVEMENT_RULES) {
+    this.rules = rules;
+  }
+
+  /**
+   * Every achievement, in display order
+   */
+  public getAchievements(): Achievement[] {
+    return this.rules.map(toAchievement);
+  }
+
+  /**
+   * Look up an achievement by id
+   */
+  public getAchievement(id: string): Achievement | undefined {
+    return this.getAchievements().find(achievement => achievement.id === id);
+  }
+
+  /**
+   * Get the achievements a game has earned that are not yet unlocked
+   */
+  public evaluate(game: Game, spottedStates: SpottedState[], unlockedIds: string[] = []): Achievement[] {
+    return this.rules
+      .filter(rule => !unlockedIds.includes(rule.id) && rule.isEarned(game, spottedStates))
+      .map(toAchievement);
+  }
+}
+
+export const achievementEngine = new AchievementEngine();
@@ -0,0 +1,176 @@
+import { Game, GameScore, ScoreBonus } from '../models/types';
+import { JURISDICTIONS, StateRegion } from './jurisdictions';
+import { getGameStateList, REGION_NAMES, StateListManagerImpl, stateListManager } from './StateListManager';
+
+export enum RarityTier {
+  COMMON = 'common',
+  UNCOMMON = 'uncommon',
+  RARE = 'rare',
+}
+
+export const RARITY_POINTS: Record<RarityTier, number> = {
+  [RarityTier.COMMON]: 1,
+  [RarityTier.UNCOMMON]: 3,
+  [RarityTier.RARE]: 5,
+};
+
+export const REGION_SWEEP_MULTIPLIER = 1.25;
+export const ALL_STATES_MULTIPLIER = 2;
+
+// Play history only replaces the default tiers once there is enough of it
+export const MIN_GAMES_FOR_HISTORY = 3;
+
+// Outside the 50 states, plates from these regions are a long way from most trips
+const DEFAULT_RARE_REGIONS = [
+  StateRegion.US_TERRITORIES,
+  StateRegion.NORTHERN_CANADA,
+  StateRegion.CENTRAL_MEXICO,
+  StateRegion.SOUTHERN_MEXICO,
+];
+
+// What a game's bonuses are scored against: its jurisdiction sets and target
+export type ScoredGame = Pick<Game, 'jurisdictionSets' | 'targetName' | 'targetStateCodes'>;
+
+export interface SpottingHistory {
+  totalGames: number;
+  stateSpottedCounts: Record<string, number>; // Games each state was spotted in
+}
+
+/**
+ * Default tiers: the usual suspects are common; remote and small states,
+ * territories and far-off provinces and Mexican states are rare; everything
+ * else, DC and the rest of Canada and Mexico included, is uncommon
+ */
+function getDefaultTiers(): Record<string, RarityTier> {
+  const common = stateListManager.getCommonlySpottedStates().map(state => state.code);
+  const rare = stateListManager.getRarelySpottedStates().map(state => state.code);
+
+  const tiers: Record<string, RarityTier> = {};
+  JURISDICTIONS.forEach(jurisdiction => {
+    if (common.includes(jurisdiction.code)) {
+      tiers[jurisdiction.code] = RarityTier.COMMON;
+    } else if (rare.includes(jurisdiction.code) || DEFAULT_RARE_REGIONS.includes(jurisdiction.region)) {
+      tiers[jurisdiction.code] = RarityTier.RARE;
+    } else {
+      tiers[jurisdiction.code] = RarityTier.UNCOMMON;
+    }
+  });
+  return tiers;
+}
+
+/**
+ * Turns spotted states into points. Each state is worth the points of its
+ * rarity tier; sweeping a region or finding every state multiplies the total.
+ */
+export class ScoringEngine {
+  private tiers: Record<string, RarityTier>;
+
+  constructor(tiers: Record<string, RarityTier> = getDefaultTiers()) {
+    this.tiers = tiers;
+  }
+
+  /**
+   * Build an engine whose tiers reflect how often each state has turned up in
+   * past games. States seen in at least two thirds of games are common, those
+   * seen in at most a third are rare. Falls back to the default tiers until
+   * there are enough games to go on.
+   */
+  public static fromHistory(history: SpottingHistory): ScoringEngine {
+    if (history.totalGames < MIN_GAMES_FOR_HISTORY) {
+      return new ScoringEngine();
+    }
+
+    const tiers: Record<string, RarityTier> = {};
+    JURISDICTIONS.forEach(({ code }) => {
+      const frequency = (history.stateSpottedCounts[code] || 0) / history.totalGames;
+      if (frequency >= 2 / 3) {
+        tiers[code] = RarityTier.COMMON;
+      } else if (frequency <= 1 / 3) {
+        tiers[code] = RarityTier.RARE;
+      } else {
+        tiers[code] = RarityTier.UNCOMMON;
+      }
+    });
+
+    return new ScoringEngine(tiers);
+  }
+
+  /**
+   * Get the rarity tier of a state
+   */
+  public getTier(stateCode: string): RarityTier {
+    return this.tiers[stateCode] || RarityTier.UNCOMMON;
+  }
+
+  /**
+   * Get how many points spotting a state is worth
+   */
+  public getStatePoints(stateCode: string): number {
+    return RARITY_POINTS[this.getTier(stateCode)];
+  }
+
+  /**
+   * Score a set of spotted states against the game's own list, applying every
+   * bonus they earn; without a game, against the 50 states. States that are
+   * not on the list score nothing.
+   */
+  public scoreStates(stateCodes: string[], game?: ScoredGame | null): GameScore {
+    const stateList = getGameStateList(game);
+    const spotted = new Set(stateCodes.filter(code => stateList.isValidStateCode(code)));
+    const basePoints = [...spotted].reduce((sum, code) => sum + this.getStatePoints(code), 0);
+    const bonuses = this.getBonuses(spotted, stateList, game);
+    const multiplier = bonuses.reduce((product, bonus) => product * bonus.multiplier, 1);
+
+    return {
+      basePoints,
+      bonuses,
+      multiplier,
+      total: Math.round(basePoints * multiplier),
+    };
+  }
+
+  private getBonuses(spotted: Set<string>, stateList: StateListManagerImpl, game?: ScoredGame | null): ScoreBonus[] {
+    const bonuses: ScoreBonus[] = [];
+    const states = stateList.getAllStates();
+    const regions = stateList.getRegions();
+
+    // Only the part of each region on the game's list has to be found. A list
+    // inside one region is swept by finishing the game, so that earns no sweep.
+    if (regions.length > 1) {
+      regions.forEach(region => {
+        const regionStates = stateList.getStatesByRegion(region);
+        if (regionStates.every(state => spotted.has(state.code))) {
+          bonuses.push({
+            id: `region_${region}`,
+            label: `Swept the ${REGION_NAMES[region]}`,
+            multiplier: REGION_SWEEP_MULTIPLIER,
+          });
+        }
+      });
+    }
+
+    if (states.length > 0 && states.every(state => spotted.has(state.code))) {
+      bonuses.push({
+        id: 'all_states',
+        label: this.getCompletionLabel(stateList, game),
+        multiplier: ALL_STATES_MULTIPLIER,
+      });
+    }
+
+    return bonuses;
+  }
+
+  private getCompletionLabel(stateList: StateListManagerImpl, game?: ScoredGame | null): string {
+    if (game?.targetName) {
+      return `All of ${game.targetName}`;
+    }
+    const fiftyStates = stateListManager.getAllStates();
+    const isFiftyStates =
+      stateList.getAllStates().length === fiftyStates.length &&
+      fiftyStates.every(state => stateList.isValidStateCode(state.code));
+    return isFiftyStates ? 'All 50 states' : `All ${stateList.getAllStates().length} plates`;
+  }
+}
+
+// Export default engine instance
+export const scoringEngine = new ScoringEngine();
@@ -1,5 +1,15 @@
-import { StateInfo } from '../models/types';
-import { US_STATES } from '../utils/constants';
+import { Game, JurisdictionSet, StateInfo, StateSortOrder } from '../models/types';
+import {
+  ALL_JURISDICTION_SETS,
+  DEFAULT_JURISDICTION_SETS,
+  Jurisdiction,
+  JURISDICTIONS,
+  normalizeJurisdictionSets,
+  StateRegion,
+} from './jurisdictions';
+import { StateSearchIndex, StateSearchMatch } from './stateSearch';
+
+export { StateRegion, REGION_NAMES } from './jurisdictions';
 
 export interface StateListManager {
   getAllStates(): StateInfo[];
@@ -21,25 +31,52 @@ export interface StateStatistics {
   remainingStates: StateInfo[];
 }
 
-export enum StateRegion {
-  NORTHEAST = 'northeast',
-  SOUTHEAST = 'southeast',
-  MIDWEST = 'midwest',
-  SOUTHWEST = 'southwest',
-  WEST = 'west',
-  PACIFIC = 'pacific',
-}
-
+/**
+ * The states a game tracks: every catalog entry in its jurisdiction sets,
+ * narrowed to its target list when it has one
+ */
 export class StateListManagerImpl implements StateListManager {
+  private jurisdictionSets: JurisdictionSet[];
+  private jurisdictions: Jurisdiction[];
   private states: StateInfo[];
+  private searchIndex: StateSearchIndex | null = null;
 
-  constructor() {
-    this.states = US_STATES.map(state => ({
-      code: state.code,
-      name: state.name,
+  constructor(jurisdictionSets: JurisdictionSet[] = DEFAULT_JURISDICTION_SETS, targetStateCodes?: string[]) {
+    this.jurisdictionSets = normalizeJurisdictionSets(jurisdictionSets);
+    this.jurisdictions = JURISDICTIONS.filter(
+      jurisdiction =>
+        this.jurisdictionSets.includes(jurisdiction.set) &&
+        (!targetStateCodes?.length || targetStateCodes.includes(jurisdiction.code)),
+    );
+    this.states = this.jurisdictions.map(jurisdiction => ({
+      code: jurisdiction.code,
+      name: jurisdiction.name,
     }));
   }
 
+  /**
+   * Get the jurisdiction sets this list is made of
+   */
+  public getJurisdictionSets(): JurisdictionSet[] {
+    return [...this.jurisdictionSets];
+  }
+
+  /**
+   * Get the catalog entry, with country and region, for a state in this list
+   */
+  public getJurisdiction(code: string): Jurisdiction | null {
+    return this.jurisdictions.find(jurisdiction => jurisdiction.code === code) || null;
+  }
+
+  /**
+   * Get the regions that have at least one state in this list
+   */
+  public getRegions(): StateRegion[] {
+    return Object.values(StateRegion).filter(region =>
+      this.jurisdictions.some(jurisdiction => jurisdiction.region === region),
+    );
+  }
+
   /**
    * Get all states
    */
@@ -74,17 +111,7 @@ export class StateListManagerImpl implements StateListManager {
    * Get states by region
    */
   public getStatesByRegion(region: StateRegion): StateInfo[] {
-    const regionMap: Record<StateRegion, string[]> = {
-      [StateRegion.NORTHEAST]: ['CT', 'ME', 'MA', 'NH', 'RI', 'VT', 'NJ', 'NY', 'PA'],
-      [StateRegion.SOUTHEAST]: ['AL', 'AR', 'DE', 'FL', 'GA', 'KY', 'LA', 'MD', 'MS', 'NC', 'SC', 'TN', 'VA', 'WV'],
-      [StateRegion.MIDWEST]: ['IL', 'IN', 'IA', 'KS', 'MI', 'MN', 'MO', 'NE', 'ND', 'OH', 'SD', 'WI'],
-      [StateRegion.SOUTHWEST]: ['AZ', 'NM', 'OK', 'TX'],
-      [StateRegion.WEST]: ['CO', 'ID', 'MT', 'NV', 'UT', 'WY'],
-      [StateRegion.PACIFIC]: ['AK', 'CA', 'HI', 'OR', 'WA'],
-    };
-
-    const regionCodes = regionMap[region] || [];
-    return this.states.filter(state => regionCodes.includes(state.code));
+    return this.states.filter(state => this.getJurisdiction(state.code)?.region === region);
   }
 
   /**
@@ -96,14 +123,17 @@ export class StateListManagerImpl implements StateListManager {
   }
 
   /**
-   * Search states by name or code
+   * Search states by name, code, abbreviation, nickname or plate slogan, best match first
    */
   public searchStates(query: string): StateInfo[] {
-    const lowerQuery = query.toLowerCase();
-    return this.states.filter(state => 
-      state.name.toLowerCase().includes(lowerQuery) ||
-      state.code.toLowerCase().includes(lowerQuery)
-    );
+    return this.getSearchIndex().search(query);
+  }
+
+  /**
+   * Search states, keeping each match's score and what it matched on
+   */
+  public rankStates(query: string): StateSearchMatch[] {
+    return this.getSearchIndex().rank(query);
   }
 
   /**
@@ -128,7 +158,7 @@ export class StateListManagerImpl implements StateListManager {
   /**
    * Sort states by various criteria
    */
-  public sortStates(states: StateInfo[], sortBy: 'name' | 'code' | 'spotted' | 'spottedAt'): StateInfo[] {
+  public sortStates<T extends StateInfo>(states: T[], sortBy: StateSortOrder): T[] {
     return [...states].sort((a, b) => {
       switch (sortBy) {
         case 'name':
@@ -150,12 +180,12 @@ export class StateListManagerImpl implements StateListManager {
   }
 
   /**
-   * Get states grouped by region
+   * Get states grouped by region, leaving out regions with none in this list
    */
-  public getStatesGroupedByRegion(): Record<StateRegion, StateInfo[]> {
-    const grouped: Record<StateRegion, StateInfo[]> = {} as Record<StateRegion, StateInfo[]>;
+  public getStatesGroupedByRegion(): Partial<Record<StateRegion, StateInfo[]>> {
+    const grouped: Partial<Record<StateRegion, StateInfo[]>> = {};
     
-    Object.values(StateRegion).forEach(region => {
+    this.getRegions().forEach(region => {
       grouped[region] = this.getStatesByRegion(region);
     });
 
@@ -204,7 +234,47 @@ export class StateListManagerImpl implements StateListManager {
     const rareCodes = ['AK', 'HI', 'VT', 'RI', 'DE', 'ND', 'SD', 'MT', 'WY', 'NH'];
     return this.states.filter(state => rareCodes.includes(state.code));
   }
+
+  /**
+   * Build the search index on first use; most lists are never searched
+   */
+  private getSearchIndex(): StateSearchIndex {
+    if (!this.searchIndex) {
+      this.searchIndex = new StateSearchIndex(this.states);
+    }
+    return this.searchIndex;
+  }
 }
 
-// Export singleton instance
+// Export singleton instance: the 50 states
 export const stateListManager = new StateListManagerImpl();
+
+// Every jurisdiction in the catalog, for naming and validating codes from any game
+export const jurisdictionCatalog = new StateListManagerImpl(ALL_JURISDICTION_SETS);
+
+const managersBySets = new Map<string, StateListManagerImpl>();
+
+/**
+ * Get the state list for some jurisdiction sets and an optional target list;
+ * lists are shared between games that track the same states
+ */
+export function getStateListManager(
+  jurisdictionSets?: JurisdictionSet[],
+  targetStateCodes?: string[],
+): StateListManagerImpl {
+  const sets = normalizeJurisdictionSets(jurisdictionSets);
+  const key = `${sets.join(',')}|${[...(targetStateCodes ?? [])].sort().join(',')}`;
+  let manager = managersBySets.get(key);
+  if (!manager) {
+    manager = new StateListManagerImpl(sets, targetStateCodes);
+    managersBySets.set(key, manager);
+  }
+  return manager;
+}
+
+/**
+ * Get the states a game is played for; the 50 states when there is no game
+ */
+export function getGameStateList(game?: Pick<Game, 'jurisdictionSets' | 'targetStateCodes'> | null): StateListManagerImpl {
+  return getStateListManager(game?.jurisdictionSets, game?.targetStateCodes);
+}
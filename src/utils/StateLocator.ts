@@ -0,0 +1,104 @@
+import { GeoLocation, StateInfo } from '../models/types';
+import { BoundaryRing, STATE_BOUNDARIES } from './stateBoundaries';
+import { stateListManager } from './StateListManager';
+
+export interface StateLocator {
+  findStateAt(location: Pick<GeoLocation, 'latitude' | 'longitude'>): StateInfo | null;
+}
+
+interface BoundingBox {
+  minLongitude: number;
+  minLatitude: number;
+  maxLongitude: number;
+  maxLatitude: number;
+}
+
+interface StateOutline {
+  stateCode: string;
+  rings: readonly BoundaryRing[];
+  bounds: BoundingBox;
+}
+
+/**
+ * Even-odd ray casting test of a [longitude, latitude] point against a ring.
+ * Points exactly on an edge may fall on either side.
+ */
+export function isPointInRing(longitude: number, latitude: number, ring: BoundaryRing): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    const crossesLatitude = (yi > latitude) !== (yj > latitude);
+    if (crossesLatitude && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Check whether a point lies inside a shape made of one or more rings.
+ * Rings are combined with the even-odd rule, so a ring inside another is a hole.
+ */
+export function isPointInPolygon(longitude: number, latitude: number, rings: readonly BoundaryRing[]): boolean {
+  return rings.reduce((inside, ring) => (isPointInRing(longitude, latitude, ring) ? !inside : inside), false);
+}
+
+/**
+ * Offline lookup of the state containing a coordinate, using the simplified
+ * boundaries bundled with the app
+ */
+export class StateLocatorImpl implements StateLocator {
+  private outlines: StateOutline[];
+
+  constructor(boundaries: Record<string, readonly BoundaryRing[]> = STATE_BOUNDARIES) {
+    this.outlines = Object.entries(boundaries).map(([stateCode, rings]) => ({
+      stateCode,
+      rings,
+      bounds: this.getBounds(rings),
+    }));
+  }
+
+  /**
+   * Get the state containing a location, or null outside every state
+   */
+  public findStateAt(location: Pick<GeoLocation, 'latitude' | 'longitude'>): StateInfo | null {
+    const { latitude, longitude } = location;
+
+    const outline = this.outlines.find(
+      candidate =>
+        this.isWithinBounds(longitude, latitude, candidate.bounds) &&
+        isPointInPolygon(longitude, latitude, candidate.rings),
+    );
+
+    return outline ? stateListManager.getStateByCode(outline.stateCode) : null;
+  }
+
+  private isWithinBounds(longitude: number, latitude: number, bounds: BoundingBox): boolean {
+    return (
+      longitude >= bounds.minLongitude &&
+      longitude <= bounds.maxLongitude &&
+      latitude >= bounds.minLatitude &&
+      latitude <= bounds.maxLatitude
+    );
+  }
+
+  private getBounds(rings: readonly BoundaryRing[]): BoundingBox {
+    const points = rings.flat();
+    const longitudes = points.map(([longitude]) => longitude);
+    const latitudes = points.map(([, latitude]) => latitude);
+
+    return {
+      minLongitude: Math.min(...longitudes),
+      minLatitude: Math.min(...latitudes),
+      maxLongitude: Math.max(...longitudes),
+      maxLatitude: Math.max(...latitudes),
+    };
+  }
+}
+
+// Export singleton instance
+export const stateLocator = new StateLocatorImpl();
@@ -10,7 +10,7 @@ export const APP_CONFIG = {
 
 export const DATABASE_CONFIG = {
   name: 'StateGameApp.db',
-  version: 1,
+  version: 12,
 } as const;
 
 export const US_STATES = [
@@ -66,8 +66,10 @@ export const US_STATES = [
   { code: 'WY', name: 'Wyoming' },
 ] as const;
 
+// Light palette; screens read the active one from useTheme()
 export const COLORS = {
   primary: '#007AFF',
+  onPrimary: '#FFFFFF', // Text on primary, success and error fills
   secondary: '#5856D6',
   success: '#34C759',
   warning: '#FF9500',
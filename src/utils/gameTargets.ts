@@ -0,0 +1,54 @@
+import { JurisdictionSet, TargetTemplate } from '../models/types';
+import { JURISDICTIONS, normalizeJurisdictionSets, REGION_NAMES, StateRegion } from './jurisdictions';
+import { getStateListManager, stateListManager } from './StateListManager';
+
+export interface GameTarget {
+  name: string;
+  stateCodes: string[];
+}
+
+export const LOWER_48_NAME = 'Lower 48';
+
+// The two states you can't drive to from the other 48
+const NON_CONTIGUOUS_STATES = ['AK', 'HI'];
+
+/**
+ * The contiguous states
+ */
+export function getLower48Target(): GameTarget {
+  return {
+    name: LOWER_48_NAME,
+    stateCodes: stateListManager
+      .getAllStates()
+      .map(state => state.code)
+      .filter(code => !NON_CONTIGUOUS_STATES.includes(code)),
+  };
+}
+
+/**
+ * One region's states, out of those in the given jurisdiction sets
+ */
+export function getRegionTarget(region: StateRegion, jurisdictionSets: JurisdictionSet[]): GameTarget {
+  return {
+    name: REGION_NAMES[region],
+    stateCodes: getStateListManager(jurisdictionSets)
+      .getStatesByRegion(region)
+      .map(state => state.code),
+  };
+}
+
+/**
+ * A saved template's list
+ */
+export function getTemplateTarget(template: TargetTemplate): GameTarget {
+  return { name: template.name, stateCodes: [...template.stateCodes] };
+}
+
+/**
+ * The jurisdiction sets a game needs to track every state in a list
+ */
+export function getJurisdictionSetsFor(stateCodes: string[]): JurisdictionSet[] {
+  return normalizeJurisdictionSets(
+    JURISDICTIONS.filter(jurisdiction => stateCodes.includes(jurisdiction.code)).map(jurisdiction => jurisdiction.set),
+  );
+}
@@ -0,0 +1,168 @@
+import { Country, JurisdictionSet } from '../models/types';
+import { US_STATES } from './constants';
+
+export enum StateRegion {
+  NORTHEAST = 'northeast',
+  SOUTHEAST = 'southeast',
+  MIDWEST = 'midwest',
+  SOUTHWEST = 'southwest',
+  WEST = 'west',
+  PACIFIC = 'pacific',
+  US_TERRITORIES = 'us_territories',
+  ATLANTIC_CANADA = 'atlantic_canada',
+  CENTRAL_CANADA = 'central_canada',
+  WESTERN_CANADA = 'western_canada',
+  NORTHERN_CANADA = 'northern_canada',
+  NORTHERN_MEXICO = 'northern_mexico',
+  CENTRAL_MEXICO = 'central_mexico',
+  SOUTHERN_MEXICO = 'southern_mexico',
+}
+
+export const REGION_NAMES: Record<StateRegion, string> = {
+  [StateRegion.NORTHEAST]: 'Northeast',
+  [StateRegion.SOUTHEAST]: 'Southeast',
+  [StateRegion.MIDWEST]: 'Midwest',
+  [StateRegion.SOUTHWEST]: 'Southwest',
+  [StateRegion.WEST]: 'West',
+  [StateRegion.PACIFIC]: 'Pacific',
+  [StateRegion.US_TERRITORIES]: 'US Territories',
+  [StateRegion.ATLANTIC_CANADA]: 'Atlantic Canada',
+  [StateRegion.CENTRAL_CANADA]: 'Central Canada',
+  [StateRegion.WESTERN_CANADA]: 'Western Canada',
+  [StateRegion.NORTHERN_CANADA]: 'Northern Canada',
+  [StateRegion.NORTHERN_MEXICO]: 'Northern Mexico',
+  [StateRegion.CENTRAL_MEXICO]: 'Central Mexico',
+  [StateRegion.SOUTHERN_MEXICO]: 'Southern Mexico',
+};
+
+export interface Jurisdiction {
+  code: string;
+  name: string;
+  country: Country;
+  region: StateRegion;
+  set: JurisdictionSet;
+}
+
+export interface JurisdictionSetInfo {
+  id: JurisdictionSet;
+  name: string;
+  description: string;
+}
+
+// In the order they are offered when creating a game
+export const JURISDICTION_SETS: JurisdictionSetInfo[] = [
+  { id: 'us-states', name: 'US States', description: 'All 50 states' },
+  { id: 'dc', name: 'Washington, DC', description: 'The District of Columbia' },
+  { id: 'us-territories', name: 'US Territories', description: 'Puerto Rico, Guam and the other territories' },
+  { id: 'canada', name: 'Canada', description: '10 provinces and 3 territories' },
+  { id: 'mexico', name: 'Mexico', description: '31 states and Mexico City' },
+];
+
+export const DEFAULT_JURISDICTION_SETS: JurisdictionSet[] = ['us-states'];
+
+export const ALL_JURISDICTION_SETS: JurisdictionSet[] = JURISDICTION_SETS.map(set => set.id);
+
+const US_STATE_REGIONS: Array<[StateRegion, string[]]> = [
+  [StateRegion.NORTHEAST, ['CT', 'ME', 'MA', 'NH', 'RI', 'VT', 'NJ', 'NY', 'PA']],
+  [StateRegion.SOUTHEAST, ['AL', 'AR', 'DE', 'FL', 'GA', 'KY', 'LA', 'MD', 'MS', 'NC', 'SC', 'TN', 'VA', 'WV']],
+  [StateRegion.MIDWEST, ['IL', 'IN', 'IA', 'KS', 'MI', 'MN', 'MO', 'NE', 'ND', 'OH', 'SD', 'WI']],
+  [StateRegion.SOUTHWEST, ['AZ', 'NM', 'OK', 'TX']],
+  [StateRegion.WEST, ['CO', 'ID', 'MT', 'NV', 'UT', 'WY']],
+  [StateRegion.PACIFIC, ['AK', 'CA', 'HI', 'OR', 'WA']],
+];
+
+const getUsStateRegion = (code: string): StateRegion =>
+  US_STATE_REGIONS.find(([, codes]) => codes.includes(code))![0];
+
+const mexicanState = (code: string, name: string, region: StateRegion): Jurisdiction => ({
+  code,
+  name,
+  country: 'MX',
+  region,
+  set: 'mexico',
+});
+
+/**
+ * Every plate-issuing jurisdiction the game knows about. US and Canadian codes
+ * are postal abbreviations; Mexican states use their three-letter ISO 3166-2
+ * codes because their two-letter abbreviations clash with US states (MI, MO, CO).
+ */
+export const JURISDICTIONS: Jurisdiction[] = [
+  ...US_STATES.map(state => ({
+    code: state.code,
+    name: state.name,
+    country: 'US' as const,
+    region: getUsStateRegion(state.code),
+    set: 'us-states' as const,
+  })),
+
+  { code: 'DC', name: 'District of Columbia', country: 'US', region: StateRegion.SOUTHEAST, set: 'dc' },
+
+  { code: 'PR', name: 'Puerto Rico', country: 'US', region: StateRegion.US_TERRITORIES, set: 'us-territories' },
+  { code: 'VI', name: 'US Virgin Islands', country: 'US', region: StateRegion.US_TERRITORIES, set: 'us-territories' },
+  { code: 'GU', name: 'Guam', country: 'US', region: StateRegion.US_TERRITORIES, set: 'us-territories' },
+  { code: 'MP', name: 'Northern Mariana Islands', country: 'US', region: StateRegion.US_TERRITORIES, set: 'us-territories' },
+  { code: 'AS', name: 'American Samoa', country: 'US', region: StateRegion.US_TERRITORIES, set: 'us-territories' },
+
+  { code: 'NB', name: 'New Brunswick', country: 'CA', region: StateRegion.ATLANTIC_CANADA, set: 'canada' },
+  { code: 'NL', name: 'Newfoundland and Labrador', country: 'CA', region: StateRegion.ATLANTIC_CANADA, set: 'canada' },
+  { code: 'NS', name: 'Nova Scotia', country: 'CA', region: StateRegion.ATLANTIC_CANADA, set: 'canada' },
+  { code: 'PE', name: 'Prince Edward Island', country: 'CA', region: StateRegion.ATLANTIC_CANADA, set: 'canada' },
+  { code: 'ON', name: 'Ontario', country: 'CA', region: StateRegion.CENTRAL_CANADA, set: 'canada' },
+  { code: 'QC', name: 'Quebec', country: 'CA', region: StateRegion.CENTRAL_CANADA, set: 'canada' },
+  { code: 'AB', name: 'Alberta', country: 'CA', region: StateRegion.WESTERN_CANADA, set: 'canada' },
+  { code: 'BC', name: 'British Columbia', country: 'CA', region: StateRegion.WESTERN_CANADA, set: 'canada' },
+  { code: 'MB', name: 'Manitoba', country: 'CA', region: StateRegion.WESTERN_CANADA, set: 'canada' },
+  { code: 'SK', name: 'Saskatchewan', country: 'CA', region: StateRegion.WESTERN_CANADA, set: 'canada' },
+  { code: 'NT', name: 'Northwest Territories', country: 'CA', region: StateRegion.NORTHERN_CANADA, set: 'canada' },
+  { code: 'NU', name: 'Nunavut', country: 'CA', region: StateRegion.NORTHERN_CANADA, set: 'canada' },
+  { code: 'YT', name: 'Yukon', country: 'CA', region: StateRegion.NORTHERN_CANADA, set: 'canada' },
+
+  mexicanState('BCN', 'Baja California', StateRegion.NORTHERN_MEXICO),
+  mexicanState('BCS', 'Baja California Sur', StateRegion.NORTHERN_MEXICO),
+  mexicanState('CHH', 'Chihuahua', StateRegion.NORTHERN_MEXICO),
+  mexicanState('COA', 'Coahuila', StateRegion.NORTHERN_MEXICO),
+  mexicanState('DUR', 'Durango', StateRegion.NORTHERN_MEXICO),
+  mexicanState('NLE', 'Nuevo León', StateRegion.NORTHERN_MEXICO),
+  mexicanState('SIN', 'Sinaloa', StateRegion.NORTHERN_MEXICO),
+  mexicanState('SON', 'Sonora', StateRegion.NORTHERN_MEXICO),
+  mexicanState('TAM', 'Tamaulipas', StateRegion.NORTHERN_MEXICO),
+  mexicanState('AGU', 'Aguascalientes', StateRegion.CENTRAL_MEXICO),
+  mexicanState('CMX', 'Mexico City', StateRegion.CENTRAL_MEXICO),
+  mexicanState('COL', 'Colima', StateRegion.CENTRAL_MEXICO),
+  mexicanState('GUA', 'Guanajuato', StateRegion.CENTRAL_MEXICO),
+  mexicanState('HID', 'Hidalgo', StateRegion.CENTRAL_MEXICO),
+  mexicanState('JAL', 'Jalisco', StateRegion.CENTRAL_MEXICO),
+  mexicanState('MEX', 'State of Mexico', StateRegion.CENTRAL_MEXICO),
+  mexicanState('MIC', 'Michoacán', StateRegion.CENTRAL_MEXICO),
+  mexicanState('MOR', 'Morelos', StateRegion.CENTRAL_MEXICO),
+  mexicanState('NAY', 'Nayarit', StateRegion.CENTRAL_MEXICO),
+  mexicanState('PUE', 'Puebla', StateRegion.CENTRAL_MEXICO),
+  mexicanState('QUE', 'Querétaro', StateRegion.CENTRAL_MEXICO),
+  mexicanState('SLP', 'San Luis Potosí', StateRegion.CENTRAL_MEXICO),
+  mexicanState('TLA', 'Tlaxcala', StateRegion.CENTRAL_MEXICO),
+  mexicanState('ZAC', 'Zacatecas', StateRegion.CENTRAL_MEXICO),
+  mexicanState('CAM', 'Campeche', StateRegion.SOUTHERN_MEXICO),
+  mexicanState('CHP', 'Chiapas', StateRegion.SOUTHERN_MEXICO),
+  mexicanState('GRO', 'Guerrero', StateRegion.SOUTHERN_MEXICO),
+  mexicanState('OAX', 'Oaxaca', StateRegion.SOUTHERN_MEXICO),
+  mexicanState('ROO', 'Quintana Roo', StateRegion.SOUTHERN_MEXICO),
+  mexicanState('TAB', 'Tabasco', StateRegion.SOUTHERN_MEXICO),
+  mexicanState('VER', 'Veracruz', StateRegion.SOUTHERN_MEXICO),
+  mexicanState('YUC', 'Yucatán', StateRegion.SOUTHERN_MEXICO),
+];
+
+/**
+ * Check whether a value names a known jurisdiction set
+ */
+export function isJurisdictionSet(value: unknown): value is JurisdictionSet {
+  return ALL_JURISDICTION_SETS.includes(value as JurisdictionSet);
+}
+
+/**
+ * Known sets in catalog order, without duplicates; the default if none are left
+ */
+export function normalizeJurisdictionSets(sets: readonly unknown[] | undefined): JurisdictionSet[] {
+  const known = ALL_JURISDICTION_SETS.filter(set => sets?.includes(set));
+  return known.length > 0 ? known : [...DEFAULT_JURISDICTION_SETS];
+}
@@ -0,0 +1,57 @@
+import { Game, GameRecord, PersonalRecords, SpottedState } from '../models/types';
+import { getBestDay, getFullGameDuration } from './AchievementEngine';
+
+/**
+ * Keep whichever record is better; ties go to the one set first
+ */
+function pickRecord(
+  current: GameRecord | null,
+  candidate: GameRecord | null,
+  isBetter: (a: number, b: number) => boolean,
+): GameRecord | null {
+  if (!candidate) {
+    return current;
+  }
+  return !current || isBetter(candidate.value, current.value) ? candidate : current;
+}
+
+/**
+ * Derive personal bests from the sighting history of every game
+ */
+export function calculatePersonalRecords(games: Game[], spottedStates: SpottedState[]): PersonalRecords {
+  const records: PersonalRecords = {
+    fastestCompletion: null,
+    mostStatesInADay: null,
+    mostStatesInAGame: null,
+  };
+
+  const byStartDate = [...games].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  byStartDate.forEach(game => {
+    const gameStates = spottedStates.filter(state => state.gameId === game.id);
+    if (gameStates.length === 0) {
+      return;
+    }
+
+    const duration = getFullGameDuration(game, gameStates);
+    const bestDay = getBestDay(gameStates);
+    const base = { gameId: game.id, gameName: game.name };
+
+    records.fastestCompletion = pickRecord(
+      records.fastestCompletion,
+      duration === null ? null : { ...base, value: duration },
+      (a, b) => a < b,
+    );
+    records.mostStatesInADay = pickRecord(
+      records.mostStatesInADay,
+      bestDay && { ...base, value: bestDay.count, date: bestDay.date },
+      (a, b) => a > b,
+    );
+    records.mostStatesInAGame = pickRecord(
+      records.mostStatesInAGame,
+      { ...base, value: gameStates.length },
+      (a, b) => a > b,
+    );
+  });
+
+  return records;
+}
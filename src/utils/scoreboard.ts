@@ -0,0 +1,59 @@
+import { Player, PlayerScore, Sighting, SpottedState } from '../models/types';
+import { ScoredGame, scoringEngine, ScoringEngine } from './ScoringEngine';
+
+/**
+ * Tally each player's totals from a game's spotted states and sightings.
+ * A state counts, and scores its points, for whoever saw it first; every
+ * sighting counts for its caller. Bonuses are scored against the game's list.
+ */
+export function calculatePlayerScores(
+  players: Player[],
+  spottedStates: SpottedState[],
+  sightings: Sighting[],
+  engine: ScoringEngine = scoringEngine,
+  game?: ScoredGame | null,
+): PlayerScore[] {
+  return players.map(player => {
+    const playerStates = spottedStates.filter(state => state.playerId === player.id);
+    return {
+      player,
+      statesSpotted: playerStates.length,
+      sightings: sightings.filter(sighting => sighting.playerId === player.id).length,
+      points: engine.scoreStates(
+        playerStates.map(state => state.stateCode),
+        game,
+      ).total,
+    };
+  });
+}
+
+/**
+ * Order scores from first to last place: points, then states, then sightings
+ */
+export function rankPlayerScores(scores: PlayerScore[]): PlayerScore[] {
+  return [...scores].sort(
+    (a, b) =>
+      b.points - a.points ||
+      b.statesSpotted - a.statesSpotted ||
+      b.sightings - a.sightings ||
+      a.player.position - b.player.position,
+  );
+}
+
+/**
+ * Get the players in first place; more than one means a tie.
+ * Nobody leads until someone has spotted a state.
+ */
+export function getLeaders(scores: PlayerScore[]): PlayerScore[] {
+  const [first] = rankPlayerScores(scores);
+  if (!first || first.statesSpotted === 0) {
+    return [];
+  }
+
+  return scores.filter(
+    score =>
+      score.points === first.points &&
+      score.statesSpotted === first.statesSpotted &&
+      score.sightings === first.sightings,
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Other names people use for a jurisdiction, for search.
+ *
+ * Abbreviations cover the traditional ones ("Calif."), the 1963 postal
+ * abbreviations ("Nebr", "N Dak") and retired two-letter codes (Nebraska was NB
+ * until 1969, Quebec PQ, Newfoundland NF). Slogans are ones that have appeared
+ * on plates; nicknames that double as a slogan are only listed as nicknames.
+ */
+
+export interface StateAliases {
+  abbreviations?: string[];
+  nicknames?: string[];
+  slogans?: string[];
+}
+
+export const STATE_ALIASES: Record<string, StateAliases> = {
+  AL: {
+    abbreviations: ['Ala'],
+    nicknames: ['Yellowhammer State', 'Heart of Dixie', 'Cotton State'],
+    slogans: ['Sweet Home Alabama', 'Stars Fell on Alabama'],
+  },
+  AK: { abbreviations: ['Alas'], nicknames: ['Last Frontier'], slogans: ['North to the Future'] },
+  AZ: { abbreviations: ['Ariz'], nicknames: ['Grand Canyon State'] },
+  AR: { abbreviations: ['Ark'], nicknames: ['Natural State', 'Land of Opportunity'] },
+  CA: { abbreviations: ['Calif', 'Cal', 'Cali'], nicknames: ['Golden State'] },
+  CO: { abbreviations: ['Colo', 'Col'], nicknames: ['Centennial State'], slogans: ['Colorful Colorado'] },
+  CT: { abbreviations: ['Conn'], nicknames: ['Constitution State', 'Nutmeg State'] },
+  DE: { abbreviations: ['Del'], nicknames: ['First State', 'Diamond State', 'Small Wonder'] },
+  FL: { abbreviations: ['Fla'], nicknames: ['Sunshine State'] },
+  GA: { nicknames: ['Peach State', 'Empire State of the South'] },
+  HI: { nicknames: ['Aloha State'] },
+  ID: { abbreviations: ['Ida'], nicknames: ['Gem State'], slogans: ['Famous Potatoes'] },
+  IL: { abbreviations: ['Ill'], nicknames: ['Prairie State'], slogans: ['Land of Lincoln'] },
+  IN: { abbreviations: ['Ind'], nicknames: ['Hoosier State'], slogans: ['Crossroads of America'] },
+  IA: { nicknames: ['Hawkeye State'] },
+  KS: { abbreviations: ['Kans', 'Kan'], nicknames: ['Sunflower State', 'Jayhawker State'] },
+  KY: { nicknames: ['Bluegrass State'], slogans: ['Unbridled Spirit'] },
+  LA: { nicknames: ['Pelican State', 'Bayou State'], slogans: ["Sportsman's Paradise"] },
+  ME: { nicknames: ['Pine Tree State'], slogans: ['Vacationland'] },
+  MD: { nicknames: ['Old Line State', 'Free State'] },
+  MA: { abbreviations: ['Mass'], nicknames: ['Bay State', 'Old Colony State'], slogans: ['The Spirit of America'] },
+  MI: {
+    abbreviations: ['Mich'],
+    nicknames: ['Great Lakes State', 'Wolverine State'],
+    slogans: ['Pure Michigan', 'Water Wonderland'],
+  },
+  MN: {
+    abbreviations: ['Minn'],
+    nicknames: ['North Star State', 'Gopher State', 'Land of 10,000 Lakes'],
+    slogans: ['10,000 Lakes', 'Explore Minnesota'],
+  },
+  MS: { abbreviations: ['Miss'], nicknames: ['Magnolia State'] },
+  MO: { nicknames: ['Show-Me State'] },
+  MT: { abbreviations: ['Mont'], nicknames: ['Treasure State', 'Big Sky Country'], slogans: ['Big Sky'] },
+  NE: { abbreviations: ['Nebr', 'Neb', 'NB'], nicknames: ['Cornhusker State'] },
+  NV: { abbreviations: ['Nev'], nicknames: ['Silver State', 'Battle Born State'], slogans: ['Home Means Nevada'] },
+  NH: { nicknames: ['Granite State'], slogans: ['Live Free or Die'] },
+  NJ: { nicknames: ['Garden State'] },
+  NM: { abbreviations: ['N Mex'], nicknames: ['Land of Enchantment'] },
+  NY: { nicknames: ['Empire State'], slogans: ['Excelsior'] },
+  NC: { nicknames: ['Tar Heel State', 'Old North State'], slogans: ['First in Flight', 'First in Freedom'] },
+  ND: { abbreviations: ['N Dak'], nicknames: ['Peace Garden State', 'Roughrider State'], slogans: ['Legendary'] },
+  OH: { nicknames: ['Buckeye State'], slogans: ['Birthplace of Aviation'] },
+  OK: { abbreviations: ['Okla'], nicknames: ['Sooner State'], slogans: ['Native America', 'Explore Oklahoma'] },
+  OR: { abbreviations: ['Ore', 'Oreg'], nicknames: ['Beaver State'], slogans: ['Pacific Wonderland'] },
+  PA: { abbreviations: ['Penn', 'Penna'], nicknames: ['Keystone State'] },
+  RI: { nicknames: ['Ocean State', 'Little Rhody'] },
+  SC: { nicknames: ['Palmetto State'], slogans: ['While I Breathe, I Hope'] },
+  SD: {
+    abbreviations: ['S Dak'],
+    nicknames: ['Mount Rushmore State', 'Coyote State'],
+    slogans: ['Great Faces. Great Places.'],
+  },
+  TN: { abbreviations: ['Tenn'], nicknames: ['Volunteer State'] },
+  TX: { abbreviations: ['Tex'], nicknames: ['Lone Star State'] },
+  UT: { nicknames: ['Beehive State'], slogans: ['Life Elevated', 'Greatest Snow on Earth'] },
+  VT: { nicknames: ['Green Mountain State'] },
+  VA: { nicknames: ['Old Dominion', 'Mother of Presidents'], slogans: ['Virginia Is for Lovers'] },
+  WA: { abbreviations: ['Wash'], nicknames: ['Evergreen State'] },
+  WV: { abbreviations: ['W Va'], nicknames: ['Mountain State'], slogans: ['Wild, Wonderful'] },
+  WI: { abbreviations: ['Wis', 'Wisc'], nicknames: ['Badger State'], slogans: ["America's Dairyland"] },
+  WY: { abbreviations: ['Wyo'], nicknames: ['Equality State', 'Cowboy State'] },
+
+  DC: {
+    abbreviations: ['Washington DC', 'D.C.'],
+    nicknames: ['The District'],
+    slogans: ['Taxation Without Representation'],
+  },
+  PR: { nicknames: ['Island of Enchantment', 'Isla del Encanto'] },
+  VI: { abbreviations: ['USVI'], slogans: ["America's Caribbean"] },
+  GU: { slogans: ["Where America's Day Begins"] },
+  MP: { abbreviations: ['CNMI'], nicknames: ['Saipan'] },
+
+  AB: { abbreviations: ['Alta'], nicknames: ['Wild Rose Country'] },
+  BC: { abbreviations: ['B.C.'], slogans: ['Beautiful British Columbia'] },
+  MB: { abbreviations: ['Man'], slogans: ['Friendly Manitoba'] },
+  NB: { nicknames: ['Picture Province'] },
+  NL: { abbreviations: ['Nfld', 'NF'], nicknames: ['The Rock'] },
+  NS: { slogans: ["Canada's Ocean Playground"] },
+  NT: { abbreviations: ['NWT'], slogans: ['Spectacular'] },
+  ON: { abbreviations: ['Ont'], slogans: ['Yours to Discover'] },
+  PE: { abbreviations: ['PEI'], nicknames: ['Garden of the Gulf'] },
+  QC: { abbreviations: ['Que', 'PQ'], nicknames: ['La Belle Province'], slogans: ['Je me souviens'] },
+  SK: { abbreviations: ['Sask'], nicknames: ['Land of Living Skies'] },
+
+  BCN: { abbreviations: ['Baja'] },
+  BCS: { abbreviations: ['Baja Sur'] },
+  CMX: { abbreviations: ['CDMX', 'DF'], nicknames: ['Distrito Federal'] },
+};
@@ -0,0 +1,398 @@
+/**
+ * Simplified state boundaries, used for offline location lookup and to draw
+ * the US map of spotted states (usMap.ts).
+ *
+ * Each state is a list of rings of [longitude, latitude] points (GeoJSON
+ * order). The outlines are hand-simplified to a few dozen points per state,
+ * so edges can be miles off near borders and coasts. That is good enough to
+ * tell which state a car is in away from the border, and for a map where
+ * every state is recognisable and tappable, but coastlines, rivers and small
+ * islands are rough. Neighbouring states share their border vertices, so no
+ * point is claimed by two states and the map has no gaps or overlaps between
+ * them. Washington, DC is left as a gap between Maryland and Virginia.
+ */
+
+export type BoundaryPoint = readonly [number, number];
+export type BoundaryRing = readonly BoundaryPoint[];
+
+export const STATE_BOUNDARIES: Record<string, readonly BoundaryRing[]> = {
+  AL: [
+    [
+      [-88.2, 35.0], [-85.6, 35.0], [-85.18, 32.87], [-85.0, 32.0], [-85.0, 31.0],
+      [-87.6, 31.0], [-87.5, 30.3], [-88.4, 30.4], [-88.47, 31.9],
+    ],
+  ],
+  AK: [
+    [
+      [-141.0, 69.65], [-141.0, 60.3], [-139.05, 60.0], [-137.5, 59.0], [-135.5, 59.8],
+      [-133.4, 58.4], [-132.0, 57.0], [-130.0, 56.0], [-130.0, 55.3], [-130.6, 54.7],
+      [-132.0, 54.7], [-133.6, 55.5], [-134.5, 56.5], [-136.0, 57.8], [-137.5, 58.5],
+      [-139.5, 59.6], [-142.0, 60.0], [-145.0, 60.3], [-148.5, 59.9], [-151.8, 59.2],
+      [-153.5, 58.0], [-156.0, 56.0], [-161.0, 55.0], [-164.8, 54.4], [-163.0, 55.2],
+      [-158.0, 57.5], [-157.0, 58.8], [-162.0, 58.6], [-164.8, 60.3], [-165.5, 61.8],
+      [-166.0, 63.0], [-162.0, 63.5], [-161.0, 64.5], [-166.0, 64.6], [-168.1, 65.6],
+      [-164.5, 66.6], [-163.8, 67.1], [-166.2, 68.3], [-163.0, 69.5], [-161.0, 70.3],
+      [-156.8, 71.3], [-152.0, 70.8], [-148.0, 70.3], [-145.0, 70.1],
+    ],
+  ],
+  AZ: [
+    [
+      [-114.05, 37.0], [-109.05, 37.0], [-109.05, 31.33], [-111.07, 31.33], [-114.82, 32.5],
+      [-114.72, 32.72], [-114.5, 33.0], [-114.72, 33.4], [-114.13, 34.27], [-114.57, 34.8],
+      [-114.63, 35.0], [-114.74, 36.0], [-114.05, 36.2],
+    ],
+  ],
+  AR: [
+    [
+      [-94.62, 36.5], [-90.15, 36.5], [-90.37, 36.0], [-89.7, 36.0], [-90.0, 35.5],
+      [-90.1, 35.0], [-90.6, 34.4], [-91.0, 33.6], [-91.2, 33.0], [-94.04, 33.02],
+      [-94.04, 33.55], [-94.48, 33.64], [-94.43, 35.4],
+    ],
+  ],
+  CA: [
+    [
+      [-124.21, 42.0], [-120.0, 42.0], [-120.0, 39.0], [-114.63, 35.0], [-114.57, 34.8],
+      [-114.13, 34.27], [-114.72, 33.4], [-114.5, 33.0], [-114.72, 32.72], [-117.12, 32.53],
+      [-117.25, 32.7], [-117.6, 33.4], [-118.3, 33.7], [-118.8, 34.0], [-119.6, 34.4],
+      [-120.6, 34.55], [-120.65, 35.2], [-121.9, 36.3], [-122.0, 36.95], [-122.4, 37.2],
+      [-122.52, 37.8], [-123.0, 38.0], [-123.7, 38.9], [-123.8, 39.8], [-124.4, 40.4],
+      [-124.1, 41.0],
+    ],
+  ],
+  CO: [
+    [[-109.05, 41.0], [-102.05, 41.0], [-102.05, 37.0], [-109.05, 37.0]],
+  ],
+  CT: [
+    [
+      [-73.5, 42.05], [-71.8, 42.02], [-71.8, 41.33], [-72.9, 41.25], [-73.66, 41.0],
+      [-73.55, 41.3],
+    ],
+  ],
+  DE: [
+    [
+      [-75.79, 39.72], [-75.6, 39.84], [-75.42, 39.8], [-75.55, 39.6], [-75.4, 39.3],
+      [-75.05, 38.8], [-75.05, 38.45], [-75.79, 38.46],
+    ],
+  ],
+  FL: [
+    [
+      [-87.6, 31.0], [-85.0, 31.0], [-84.86, 30.7], [-82.2, 30.57], [-81.9, 30.8],
+      [-81.45, 30.71], [-81.25, 29.8], [-80.6, 28.4], [-80.0, 26.7], [-80.1, 25.8],
+      [-80.4, 25.2], [-81.1, 25.1], [-81.7, 25.9], [-82.2, 26.7], [-82.8, 27.9],
+      [-82.7, 28.8], [-83.1, 29.2], [-83.7, 29.9], [-84.4, 30.0], [-85.3, 29.7],
+      [-86.3, 30.4], [-87.5, 30.3],
+    ],
+  ],
+  GA: [
+    [
+      [-85.6, 35.0], [-83.1, 35.0], [-82.6, 34.2], [-82.0, 33.5], [-81.4, 32.6],
+      [-80.85, 32.05], [-81.1, 31.5], [-81.45, 30.71], [-81.9, 30.8], [-82.2, 30.57],
+      [-84.86, 30.7], [-85.0, 31.0], [-85.0, 32.0], [-85.18, 32.87],
+    ],
+  ],
+  HI: [
+    // Hawaii, Maui, Molokai, Oahu, Kauai
+    [
+      [-155.87, 20.27], [-155.0, 19.75], [-154.8, 19.5], [-155.6, 18.9], [-155.95, 19.1],
+      [-156.05, 19.75],
+    ],
+    [[-156.7, 20.95], [-156.0, 20.8], [-156.0, 20.6], [-156.4, 20.58], [-156.7, 20.75]],
+    [[-157.3, 21.2], [-156.7, 21.15], [-156.7, 21.05], [-157.3, 21.08]],
+    [[-158.28, 21.58], [-157.95, 21.72], [-157.65, 21.25], [-158.1, 21.25]],
+    [[-159.8, 22.2], [-159.3, 22.2], [-159.3, 21.9], [-159.8, 21.95]],
+  ],
+  ID: [
+    [
+      [-117.04, 49.0], [-116.05, 49.0], [-116.05, 47.98], [-115.7, 47.4], [-114.6, 46.6],
+      [-114.4, 45.6], [-113.8, 45.6], [-113.0, 44.5], [-111.5, 44.55], [-111.05, 44.48],
+      [-111.05, 42.0], [-117.03, 42.0], [-117.03, 43.6], [-116.9, 43.8], [-117.2, 44.3],
+      [-116.9, 44.8], [-116.47, 45.6], [-116.92, 46.0], [-117.04, 46.43],
+    ],
+  ],
+  IL: [
+    [
+      [-87.52, 41.7], [-87.8, 42.49], [-90.64, 42.5], [-90.2, 42.1], [-90.15, 41.8],
+      [-90.6, 41.5], [-91.0, 41.2], [-91.1, 40.7], [-91.42, 40.38], [-91.0, 39.7],
+      [-90.6, 39.3], [-90.2, 38.9], [-90.2, 38.6], [-90.1, 38.1], [-89.5, 37.3],
+      [-89.15, 37.0], [-88.5, 37.1], [-88.1, 37.5], [-88.03, 37.8], [-87.9, 38.3],
+      [-87.5, 38.7], [-87.6, 39.0], [-87.52, 39.35],
+    ],
+  ],
+  IN: [
+    [
+      [-84.81, 41.7], [-84.81, 41.76], [-86.82, 41.76], [-87.52, 41.7], [-87.52, 39.35],
+      [-87.6, 39.0], [-87.5, 38.7], [-87.9, 38.3], [-88.03, 37.8], [-87.6, 37.9],
+      [-87.0, 37.9], [-86.3, 38.15], [-85.9, 38.0], [-85.8, 38.3], [-85.4, 38.7],
+      [-84.82, 39.1],
+    ],
+  ],
+  IA: [
+    [
+      [-96.45, 43.5], [-91.22, 43.5], [-91.1, 42.75], [-90.64, 42.5], [-90.2, 42.1],
+      [-90.15, 41.8], [-90.6, 41.5], [-91.0, 41.2], [-91.1, 40.7], [-91.42, 40.38],
+      [-91.73, 40.6], [-95.77, 40.6], [-95.9, 41.3], [-96.1, 42.0], [-96.45, 42.49],
+      [-96.6, 43.0],
+    ],
+  ],
+  KS: [
+    [
+      [-102.05, 40.0], [-95.31, 40.0], [-94.9, 39.55], [-94.61, 39.1], [-94.61, 37.0],
+      [-102.05, 37.0],
+    ],
+  ],
+  KY: [
+    [
+      [-89.5, 36.5], [-88.05, 36.5], [-88.05, 36.6], [-83.68, 36.6], [-81.97, 37.54],
+      [-82.6, 38.17], [-83.0, 38.7], [-84.0, 38.8], [-84.82, 39.1], [-85.4, 38.7],
+      [-85.8, 38.3], [-85.9, 38.0], [-86.3, 38.15], [-87.0, 37.9], [-87.6, 37.9],
+      [-88.03, 37.8], [-88.1, 37.5], [-88.5, 37.1], [-89.15, 37.0],
+    ],
+  ],
+  LA: [
+    [
+      [-94.04, 33.02], [-91.2, 33.0], [-91.0, 32.2], [-91.6, 31.0], [-89.73, 31.0],
+      [-89.6, 30.18], [-89.4, 29.9], [-89.0, 29.2], [-90.3, 29.1], [-91.3, 29.3],
+      [-92.3, 29.55], [-93.84, 29.7], [-93.72, 30.3], [-93.6, 31.2], [-94.04, 32.0],
+    ],
+  ],
+  ME: [
+    [
+      [-71.08, 45.3], [-70.3, 45.9], [-70.0, 46.7], [-69.23, 47.45], [-68.3, 47.35],
+      [-67.8, 47.06], [-67.78, 45.7], [-67.4, 45.2], [-67.0, 44.8], [-68.0, 44.4],
+      [-69.0, 44.1], [-70.2, 43.6], [-70.7, 43.05], [-70.8, 43.1], [-70.98, 44.0],
+    ],
+  ],
+  MD: [
+    [
+      [-79.48, 39.72], [-75.79, 39.72], [-75.79, 38.46], [-75.05, 38.45], [-75.24, 38.03],
+      [-76.0, 37.95], [-76.3, 37.9], [-76.9, 38.2], [-77.25, 38.5], [-77.04, 38.79],
+      [-76.91, 38.89], [-77.04, 38.995], [-77.12, 38.93], [-77.46, 39.1], [-77.73, 39.32],
+      [-78.2, 39.68], [-78.8, 39.6], [-79.48, 39.2],
+    ],
+  ],
+  MA: [
+    [
+      [-73.5, 42.05], [-73.28, 42.74], [-72.46, 42.73], [-71.25, 42.74], [-70.9, 42.88],
+      [-70.6, 42.65], [-71.0, 42.3], [-70.6, 41.95], [-70.55, 41.77], [-70.0, 41.8],
+      [-70.0, 41.6], [-70.5, 41.55], [-70.95, 41.5], [-71.12, 41.48], [-71.12, 41.65],
+      [-71.33, 41.78], [-71.38, 42.02], [-71.8, 42.02],
+    ],
+  ],
+  MI: [
+    // Lower and Upper Peninsulas
+    [
+      [-83.45, 41.73], [-84.81, 41.7], [-84.81, 41.76], [-86.82, 41.76], [-86.5, 42.1],
+      [-86.2, 42.8], [-86.5, 43.6], [-86.3, 44.2], [-85.6, 45.0], [-85.0, 45.8],
+      [-84.7, 45.8], [-84.0, 45.5], [-83.4, 45.0], [-83.3, 44.3], [-83.9, 43.9],
+      [-83.0, 44.0], [-82.6, 43.9], [-82.4, 43.0], [-82.5, 42.6], [-83.1, 42.0],
+    ],
+    [
+      [-83.6, 46.1], [-84.6, 46.5], [-85.0, 46.75], [-86.5, 46.5], [-87.7, 46.9],
+      [-88.0, 47.45], [-88.4, 47.0], [-89.5, 46.8], [-90.4, 46.57], [-90.1, 46.3],
+      [-88.7, 46.0], [-88.1, 45.8], [-87.6, 45.1], [-87.2, 45.7], [-86.5, 45.8],
+      [-85.5, 46.1], [-84.7, 45.9],
+    ],
+  ],
+  MN: [
+    [
+      [-97.23, 49.0], [-95.15, 49.0], [-95.15, 49.38], [-94.8, 49.38], [-94.6, 48.72],
+      [-93.0, 48.6], [-91.5, 48.05], [-89.6, 48.0], [-91.0, 47.25], [-92.0, 46.7],
+      [-92.29, 46.66], [-92.29, 46.1], [-92.9, 45.6], [-92.75, 45.0], [-92.8, 44.75],
+      [-92.0, 44.4], [-91.3, 43.9], [-91.22, 43.5], [-96.45, 43.5], [-96.45, 45.3],
+      [-96.56, 45.94], [-96.8, 46.63], [-97.0, 48.0],
+    ],
+  ],
+  MS: [
+    [
+      [-90.1, 35.0], [-88.2, 35.0], [-88.47, 31.9], [-88.4, 30.4], [-89.6, 30.18],
+      [-89.73, 31.0], [-91.6, 31.0], [-91.0, 32.2], [-91.2, 33.0], [-91.0, 33.6],
+      [-90.6, 34.4],
+    ],
+  ],
+  MO: [
+    [
+      [-95.77, 40.6], [-91.73, 40.6], [-91.42, 40.38], [-91.0, 39.7], [-90.6, 39.3],
+      [-90.2, 38.9], [-90.2, 38.6], [-90.1, 38.1], [-89.5, 37.3], [-89.15, 37.0],
+      [-89.5, 36.5], [-89.7, 36.0], [-90.37, 36.0], [-90.15, 36.5], [-94.62, 36.5],
+      [-94.62, 37.0], [-94.61, 39.1], [-94.9, 39.55], [-95.31, 40.0],
+    ],
+  ],
+  MT: [
+    [
+      [-116.05, 49.0], [-104.05, 49.0], [-104.05, 45.0], [-111.05, 45.0], [-111.05, 44.48],
+      [-111.5, 44.55], [-113.0, 44.5], [-113.8, 45.6], [-114.4, 45.6], [-114.6, 46.6],
+      [-115.7, 47.4], [-116.05, 47.98],
+    ],
+  ],
+  NE: [
+    [
+      [-104.05, 43.0], [-98.5, 43.0], [-97.2, 42.8], [-96.45, 42.49], [-96.1, 42.0],
+      [-95.9, 41.3], [-95.77, 40.6], [-95.31, 40.0], [-102.05, 40.0], [-102.05, 41.0],
+      [-104.05, 41.0],
+    ],
+  ],
+  NV: [
+    [
+      [-120.0, 42.0], [-114.05, 42.0], [-114.05, 36.2], [-114.74, 36.0], [-114.63, 35.0],
+      [-120.0, 39.0],
+    ],
+  ],
+  NH: [
+    [
+      [-71.5, 45.01], [-71.08, 45.3], [-70.98, 44.0], [-70.8, 43.1], [-70.7, 43.05],
+      [-70.9, 42.88], [-71.25, 42.74], [-72.46, 42.73], [-72.46, 43.0], [-72.3, 43.7],
+      [-72.0, 44.3], [-71.6, 44.5],
+    ],
+  ],
+  NJ: [
+    [
+      [-74.7, 41.36], [-73.9, 41.0], [-74.02, 40.7], [-74.25, 40.64], [-74.25, 40.5],
+      [-74.0, 40.45], [-74.0, 40.2], [-74.1, 39.8], [-74.4, 39.4], [-74.95, 38.93],
+      [-75.2, 39.3], [-75.55, 39.6], [-75.42, 39.8], [-75.13, 39.95], [-74.72, 40.15],
+      [-74.95, 40.4], [-75.2, 40.6], [-75.1, 40.85],
+    ],
+  ],
+  NM: [
+    [
+      [-109.05, 37.0], [-103.0, 37.0], [-103.0, 32.0], [-106.62, 32.0], [-106.53, 31.78],
+      [-108.2, 31.78], [-108.2, 31.33], [-109.05, 31.33],
+    ],
+  ],
+  NY: [
+    [
+      [-79.76, 42.0], [-79.76, 42.27], [-78.9, 42.9], [-79.05, 43.27], [-78.0, 43.37],
+      [-76.8, 43.3], [-76.2, 43.5], [-76.3, 44.2], [-75.3, 44.85], [-74.73, 45.0],
+      [-73.34, 45.01], [-73.4, 44.0], [-73.25, 43.57], [-73.28, 42.74], [-73.5, 42.05],
+      [-73.55, 41.3], [-73.66, 41.0], [-71.86, 41.07], [-73.5, 40.6], [-74.0, 40.55],
+      [-74.25, 40.5], [-74.25, 40.64], [-74.02, 40.7], [-73.9, 41.0], [-74.7, 41.36],
+      [-75.35, 42.0],
+    ],
+  ],
+  NC: [
+    [
+      [-84.32, 35.0], [-83.1, 35.0], [-82.4, 35.2], [-81.04, 35.15], [-80.78, 34.82],
+      [-79.68, 34.8], [-78.55, 33.86], [-77.9, 33.9], [-77.0, 34.6], [-76.5, 34.6],
+      [-75.5, 35.25], [-75.9, 36.55], [-81.68, 36.59], [-82.0, 36.1], [-82.6, 35.95],
+      [-83.5, 35.55], [-84.3, 35.2],
+    ],
+  ],
+  ND: [
+    [
+      [-104.05, 49.0], [-97.23, 49.0], [-97.0, 48.0], [-96.8, 46.63], [-96.56, 45.94],
+      [-104.05, 45.94],
+    ],
+  ],
+  OH: [
+    [
+      [-80.52, 40.64], [-80.52, 41.98], [-81.5, 41.7], [-82.5, 41.4], [-83.45, 41.73],
+      [-84.81, 41.7], [-84.82, 39.1], [-84.0, 38.8], [-83.0, 38.7], [-82.6, 38.17],
+      [-82.2, 38.6], [-81.75, 39.2], [-81.3, 39.4], [-80.75, 39.9], [-80.6, 40.62],
+    ],
+  ],
+  OK: [
+    [
+      [-103.0, 37.0], [-94.62, 37.0], [-94.62, 36.5], [-94.43, 35.4], [-94.48, 33.64],
+      [-95.5, 33.9], [-96.5, 33.8], [-97.2, 33.8], [-97.9, 33.9], [-98.5, 34.1],
+      [-99.4, 34.4], [-100.0, 34.56], [-100.0, 36.5], [-103.0, 36.5],
+    ],
+  ],
+  OR: [
+    [
+      [-124.0, 46.26], [-123.0, 46.1], [-122.76, 45.65], [-122.25, 45.55], [-121.2, 45.6],
+      [-119.6, 45.92], [-118.98, 46.0], [-116.92, 46.0], [-116.47, 45.6], [-116.9, 44.8],
+      [-117.2, 44.3], [-116.9, 43.8], [-117.03, 43.6], [-117.03, 42.0], [-120.0, 42.0],
+      [-124.21, 42.0], [-124.55, 42.84],
+    ],
+  ],
+  PA: [
+    [
+      [-80.52, 39.72], [-80.52, 41.98], [-79.76, 42.27], [-79.76, 42.0], [-75.35, 42.0],
+      [-74.7, 41.36], [-75.1, 40.85], [-75.2, 40.6], [-74.95, 40.4], [-74.72, 40.15],
+      [-75.13, 39.95], [-75.42, 39.8], [-75.6, 39.84], [-75.79, 39.72],
+    ],
+  ],
+  RI: [
+    [
+      [-71.8, 42.02], [-71.38, 42.02], [-71.33, 41.78], [-71.12, 41.65], [-71.12, 41.48],
+      [-71.5, 41.37], [-71.8, 41.33],
+    ],
+  ],
+  SC: [
+    [
+      [-83.1, 35.0], [-82.4, 35.2], [-81.04, 35.15], [-80.78, 34.82], [-79.68, 34.8],
+      [-78.55, 33.86], [-79.2, 33.2], [-80.0, 32.6], [-80.85, 32.05], [-81.4, 32.6],
+      [-82.0, 33.5], [-82.6, 34.2],
+    ],
+  ],
+  SD: [
+    [
+      [-104.05, 45.94], [-96.56, 45.94], [-96.45, 45.3], [-96.45, 43.5], [-96.6, 43.0],
+      [-96.45, 42.49], [-97.2, 42.8], [-98.5, 43.0], [-104.05, 43.0],
+    ],
+  ],
+  TN: [
+    [
+      [-89.5, 36.5], [-88.05, 36.5], [-88.05, 36.6], [-83.68, 36.6], [-81.68, 36.59],
+      [-82.0, 36.1], [-82.6, 35.95], [-83.5, 35.55], [-84.3, 35.2], [-84.32, 35.0],
+      [-85.6, 35.0], [-88.2, 35.0], [-90.1, 35.0], [-90.0, 35.5], [-89.7, 36.0],
+    ],
+  ],
+  TX: [
+    [
+      [-103.0, 36.5], [-100.0, 36.5], [-100.0, 34.56], [-99.4, 34.4], [-98.5, 34.1],
+      [-97.9, 33.9], [-97.2, 33.8], [-96.5, 33.8], [-95.5, 33.9], [-94.48, 33.64],
+      [-94.04, 33.55], [-94.04, 33.02], [-94.04, 32.0], [-93.6, 31.2], [-93.72, 30.3],
+      [-93.84, 29.7], [-94.7, 29.35], [-95.3, 28.9], [-96.5, 28.3], [-97.2, 27.6],
+      [-97.4, 26.8], [-97.15, 25.95], [-97.4, 25.85], [-99.1, 26.4], [-99.5, 27.5],
+      [-100.3, 28.2], [-101.4, 29.77], [-102.4, 29.8], [-103.1, 29.0], [-104.0, 29.3],
+      [-104.7, 30.1], [-106.53, 31.78], [-106.62, 32.0], [-103.0, 32.0],
+    ],
+  ],
+  UT: [
+    [
+      [-114.05, 42.0], [-111.05, 42.0], [-111.05, 41.0], [-109.05, 41.0], [-109.05, 37.0],
+      [-114.05, 37.0],
+    ],
+  ],
+  VT: [
+    [
+      [-73.34, 45.01], [-71.5, 45.01], [-71.6, 44.5], [-72.0, 44.3], [-72.3, 43.7],
+      [-72.46, 43.0], [-72.46, 42.73], [-73.28, 42.74], [-73.25, 43.57], [-73.4, 44.0],
+    ],
+  ],
+  VA: [
+    [
+      [-75.9, 36.55], [-81.68, 36.59], [-83.68, 36.6], [-81.97, 37.54], [-81.2, 37.25],
+      [-80.3, 37.5], [-79.9, 38.2], [-79.5, 38.5], [-79.0, 38.85], [-78.4, 39.2],
+      [-77.73, 39.32], [-77.46, 39.1], [-77.12, 38.93], [-77.04, 38.79], [-77.25, 38.5],
+      [-76.9, 38.2], [-76.3, 37.9], [-76.3, 37.0], [-76.0, 36.9],
+    ],
+  ],
+  WA: [
+    [
+      [-124.7, 48.4], [-123.3, 49.0], [-117.04, 49.0], [-117.04, 46.43], [-116.92, 46.0],
+      [-118.98, 46.0], [-119.6, 45.92], [-121.2, 45.6], [-122.25, 45.55], [-122.76, 45.65],
+      [-123.0, 46.1], [-124.0, 46.26], [-124.1, 47.0],
+    ],
+  ],
+  WV: [
+    [
+      [-77.73, 39.32], [-78.2, 39.68], [-78.8, 39.6], [-79.48, 39.2], [-79.48, 39.72],
+      [-80.52, 39.72], [-80.52, 40.64], [-80.6, 40.62], [-80.75, 39.9], [-81.3, 39.4],
+      [-81.75, 39.2], [-82.2, 38.6], [-82.6, 38.17], [-81.97, 37.54], [-81.2, 37.25],
+      [-80.3, 37.5], [-79.9, 38.2], [-79.5, 38.5], [-79.0, 38.85], [-78.4, 39.2],
+    ],
+  ],
+  WI: [
+    [
+      [-90.64, 42.5], [-87.8, 42.49], [-87.9, 43.2], [-87.7, 43.9], [-87.3, 44.8],
+      [-87.0, 45.3], [-87.6, 45.1], [-88.1, 45.8], [-88.7, 46.0], [-90.1, 46.3],
+      [-90.4, 46.57], [-91.0, 46.9], [-92.0, 46.7], [-92.29, 46.66], [-92.29, 46.1],
+      [-92.9, 45.6], [-92.75, 45.0], [-92.8, 44.75], [-92.0, 44.4], [-91.3, 43.9],
+      [-91.22, 43.5], [-91.1, 42.75],
+    ],
+  ],
+  WY: [
+    [[-111.05, 45.0], [-104.05, 45.0], [-104.05, 41.0], [-111.05, 41.0]],
+  ],
+};
@@ -0,0 +1,159 @@
+import { StateGrouping, StateInfo, StateListView, StateSortOrder } from '../models/types';
+import { REGION_NAMES } from './jurisdictions';
+import { StateListManagerImpl } from './StateListManager';
+
+export interface StateSection<T extends StateInfo> {
+  key: string;
+  title: string;
+  spottedCount: number; // Across the whole section, whatever is filtered out
+  totalCount: number;
+  isCollapsed: boolean;
+  data: T[]; // Empty while collapsed
+}
+
+export const DEFAULT_STATE_LIST_VIEW: StateListView = {
+  groupBy: 'none',
+  sortBy: 'name',
+  remainingOnly: false,
+  collapsedSections: [],
+};
+
+export const STATE_GROUPINGS: Array<{ id: StateGrouping; label: string }> = [
+  { id: 'none', label: 'None' },
+  { id: 'region', label: 'Region' },
+  { id: 'letter', label: 'A–Z' },
+];
+
+export const STATE_SORT_ORDERS: Array<{ id: StateSortOrder; label: string }> = [
+  { id: 'name', label: 'Name' },
+  { id: 'code', label: 'Code' },
+  { id: 'spotted', label: 'Spotted first' },
+  { id: 'spottedAt', label: 'Most recent' },
+];
+
+// The single section used when the list isn't grouped
+const ALL_SECTION_KEY = 'all';
+
+const SEARCH_SECTION_KEY = 'search';
+
+const isOneOf = <T extends string>(options: Array<{ id: T }>, value: unknown): value is T =>
+  options.some(option => option.id === value);
+
+/**
+ * Read a stored view, falling back to the default for anything missing or unknown
+ */
+export function parseStateListView(json: string | null): StateListView {
+  if (!json) {
+    return { ...DEFAULT_STATE_LIST_VIEW };
+  }
+
+  let stored: any;
+  try {
+    stored = JSON.parse(json);
+  } catch {
+    return { ...DEFAULT_STATE_LIST_VIEW };
+  }
+  if (typeof stored !== 'object' || stored === null) {
+    return { ...DEFAULT_STATE_LIST_VIEW };
+  }
+
+  return {
+    groupBy: isOneOf(STATE_GROUPINGS, stored.groupBy) ? stored.groupBy : DEFAULT_STATE_LIST_VIEW.groupBy,
+    sortBy: isOneOf(STATE_SORT_ORDERS, stored.sortBy) ? stored.sortBy : DEFAULT_STATE_LIST_VIEW.sortBy,
+    remainingOnly: stored.remainingOnly === true,
+    collapsedSections: Array.isArray(stored.collapsedSections)
+      ? stored.collapsedSections.filter((key: unknown) => typeof key === 'string')
+      : [],
+  };
+}
+
+/**
+ * Fold a section away, or open it back up
+ */
+export function toggleSectionCollapsed(view: StateListView, sectionKey: string): StateListView {
+  const collapsedSections = view.collapsedSections.includes(sectionKey)
+    ? view.collapsedSections.filter(key => key !== sectionKey)
+    : [...view.collapsedSections, sectionKey];
+  return { ...view, collapsedSections };
+}
+
+/**
+ * Split a game's states into the sections the list shows. Counts cover every
+ * state in a section; the remaining-only filter only decides which rows are
+ * listed, and sections with no rows left are dropped.
+ */
+export function buildStateSections<T extends StateInfo>(
+  states: T[],
+  stateList: StateListManagerImpl,
+  view: StateListView,
+): StateSection<T>[] {
+  const byCode = new Map(states.map(state => [state.code, state]));
+  const pick = (infos: StateInfo[] = []): T[] =>
+    infos.map(info => byCode.get(info.code)).filter((state): state is T => state !== undefined);
+
+  const groups: Array<{ key: string; title: string; states: T[] }> = [];
+  if (view.groupBy === 'region') {
+    const byRegion = stateList.getStatesGroupedByRegion();
+    stateList.getRegions().forEach(region => {
+      groups.push({ key: region, title: REGION_NAMES[region], states: pick(byRegion[region]) });
+    });
+  } else if (view.groupBy === 'letter') {
+    const byLetter = stateList.getStatesGroupedByFirstLetter();
+    Object.keys(byLetter)
+      .sort()
+      .forEach(letter => {
+        groups.push({ key: letter, title: letter, states: pick(byLetter[letter]) });
+      });
+  } else {
+    groups.push({ key: ALL_SECTION_KEY, title: '', states });
+  }
+
+  const sections: StateSection<T>[] = [];
+  groups.forEach(group => {
+    const visible = group.states.filter(state => !(view.remainingOnly && state.isSpotted));
+    if (visible.length === 0) {
+      return;
+    }
+
+    const isCollapsed = view.groupBy !== 'none' && view.collapsedSections.includes(group.key);
+    sections.push({
+      key: group.key,
+      title: group.title,
+      spottedCount: group.states.filter(state => state.isSpotted).length,
+      totalCount: group.states.length,
+      isCollapsed,
+      data: isCollapsed ? [] : stateList.sortStates(visible, view.sortBy),
+    });
+  });
+
+  return sections;
+}
+
+/**
+ * Search results as one untitled section in match order, best first, so
+ * grouping and sorting never push the best match down the list
+ */
+export function buildSearchSection<T extends StateInfo>(
+  states: T[],
+  matches: StateInfo[],
+  view: StateListView,
+): StateSection<T>[] {
+  const byCode = new Map(states.map(state => [state.code, state]));
+  const data = matches
+    .map(match => byCode.get(match.code))
+    .filter((state): state is T => state !== undefined && !(view.remainingOnly && state.isSpotted));
+  if (data.length === 0) {
+    return [];
+  }
+
+  return [
+    {
+      key: SEARCH_SECTION_KEY,
+      title: '',
+      spottedCount: data.filter(state => state.isSpotted).length,
+      totalCount: data.length,
+      isCollapsed: false,
+      data,
+    },
+  ];
+}
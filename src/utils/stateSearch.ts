@@ -0,0 +1,212 @@
+import { StateInfo } from '../models/types';
+import { STATE_ALIASES } from './stateAliases';
+
+export type SearchTermKind = 'code' | 'name' | 'abbreviation' | 'nickname' | 'slogan';
+
+export interface StateSearchMatch {
+  state: StateInfo;
+  score: number;
+  matchedKind: SearchTermKind;
+  matchedText: string; // The name, code or alias that matched, as written
+}
+
+interface IndexedTerm {
+  state: StateInfo;
+  kind: SearchTermKind;
+  text: string;
+  normalized: string;
+  squashedWords: string[];
+}
+
+// How good each kind of match is; the best one decides a state's rank
+const MATCH_SCORES = {
+  exact: 100,
+  prefix: 80,
+  wordPrefix: 75, // Every word typed starts a word of the term, in order: "n carolina"
+  laterWord: 60, // The same, from a later word: "star" in "Lone Star State"
+  fuzzy: 50, // Less 10 per typo
+  substring: 30,
+};
+
+// Breaks ties between equally good matches, e.g. the code "NB" over Nebraska's old "NB"
+const KIND_BONUSES: Record<SearchTermKind, number> = {
+  code: 4,
+  name: 3,
+  abbreviation: 2,
+  nickname: 1,
+  slogan: 0,
+};
+
+// Words that add nothing when said or typed: "the state of Texas", "Ohio plates"
+const FILLER_WORDS = ['the', 'state', 'of', 'plate', 'plates', 'license', 'licence', 'tag', 'tags', 'from'];
+
+/**
+ * Lower-case words without accents, punctuation or filler
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.,]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word.length > 0 && !FILLER_WORDS.includes(word))
+    .join(' ');
+}
+
+// "Misisipi" and "Mississippi" only differ in doubled letters
+const squash = (word: string) => word.replace(/(.)\1+/g, '$1');
+
+/**
+ * Optimal string alignment distance: edits, plus swapped neighbours, to turn one word into another
+ */
+export function editDistance(a: string, b: string): number {
+  const distances: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    distances.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    distances[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return distances[a.length][b.length];
+}
+
+// Short words have to be spelled right, or "ok" would match half the list
+const allowedTypos = (word: string) => (word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2);
+
+/**
+ * Typos between a typed word and the start of a term word, so a half-typed
+ * word with a mistake still matches
+ */
+function prefixDistance(typed: string, word: string): number {
+  if (word.startsWith(typed)) {
+    return 0;
+  }
+  let best = editDistance(typed, word);
+  for (let length = Math.max(1, typed.length - 1); length <= Math.min(word.length, typed.length + 1); length++) {
+    best = Math.min(best, editDistance(typed, word.slice(0, length)));
+  }
+  return best;
+}
+
+/**
+ * Line the typed words up against consecutive words of a term, starting at each
+ * word in turn, and keep the placement with the fewest typos
+ */
+function matchWords(typedWords: string[], term: IndexedTerm): { typos: number; firstWord: number } | null {
+  let best: { typos: number; firstWord: number } | null = null;
+
+  for (let first = 0; first + typedWords.length <= term.squashedWords.length; first++) {
+    let typos = 0;
+    const fits = typedWords.every((typed, index) => {
+      const distance = prefixDistance(typed, term.squashedWords[first + index]);
+      typos += distance;
+      return distance <= allowedTypos(typed);
+    });
+    if (fits && (!best || typos < best.typos)) {
+      best = { typos, firstWord: first };
+    }
+  }
+
+  return best;
+}
+
+function scoreTerm(query: string, typedWords: string[], term: IndexedTerm): number | null {
+  const bonus = KIND_BONUSES[term.kind];
+
+  if (term.normalized === query) {
+    return MATCH_SCORES.exact + bonus;
+  }
+  if (term.normalized.startsWith(query)) {
+    return MATCH_SCORES.prefix + bonus;
+  }
+
+  const words = matchWords(typedWords, term);
+  if (words && words.typos === 0) {
+    return (words.firstWord === 0 ? MATCH_SCORES.wordPrefix : MATCH_SCORES.laterWord) + bonus;
+  }
+  if (words) {
+    return MATCH_SCORES.fuzzy - 10 * words.typos - (words.firstWord === 0 ? 0 : 5) + bonus;
+  }
+
+  // Letters from the middle of a name or code still count, but not single
+  // letters, which match nearly everything, or aliases, which match by chance
+  const isNameOrCode = term.kind === 'name' || term.kind === 'code';
+  if (isNameOrCode && query.length > 1 && term.normalized.includes(query)) {
+    return MATCH_SCORES.substring + bonus;
+  }
+
+  return null;
+}
+
+/**
+ * Ranked search over a list of states by code, name, old and traditional
+ * abbreviations, nicknames and plate slogans, tolerating typos
+ */
+export class StateSearchIndex {
+  private states: StateInfo[];
+  private terms: IndexedTerm[] = [];
+
+  constructor(states: StateInfo[]) {
+    this.states = states;
+    states.forEach(state => {
+      const aliases = STATE_ALIASES[state.code] ?? {};
+      this.addTerm(state, 'code', state.code);
+      this.addTerm(state, 'name', state.name);
+      aliases.abbreviations?.forEach(text => this.addTerm(state, 'abbreviation', text));
+      aliases.nicknames?.forEach(text => this.addTerm(state, 'nickname', text));
+      aliases.slogans?.forEach(text => this.addTerm(state, 'slogan', text));
+    });
+  }
+
+  /**
+   * Matching states, best first, with what each one matched on. An empty
+   * query matches every state, in list order.
+   */
+  public rank(query: string): StateSearchMatch[] {
+    const normalized = normalizeSearchText(query);
+    if (normalized.length === 0) {
+      return this.states.map(state => ({ state, score: 0, matchedKind: 'name', matchedText: state.name }));
+    }
+
+    const typedWords = normalized.split(' ').map(squash);
+    const best = new Map<string, StateSearchMatch>();
+    this.terms.forEach(term => {
+      const score = scoreTerm(normalized, typedWords, term);
+      const current = best.get(term.state.code);
+      if (score !== null && (!current || score > current.score)) {
+        best.set(term.state.code, { state: term.state, score, matchedKind: term.kind, matchedText: term.text });
+      }
+    });
+
+    return [...best.values()].sort((a, b) => b.score - a.score || a.state.name.localeCompare(b.state.name));
+  }
+
+  /**
+   * Matching states, best first
+   */
+  public search(query: string): StateInfo[] {
+    return this.rank(query).map(match => match.state);
+  }
+
+  private addTerm(state: StateInfo, kind: SearchTermKind, text: string): void {
+    const normalized = normalizeSearchText(text);
+    if (normalized.length === 0) {
+      return;
+    }
+
+    this.terms.push({ state, kind, text, normalized, squashedWords: normalized.split(' ').map(squash) });
+  }
+}
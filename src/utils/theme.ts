@@ -0,0 +1,62 @@
+import { ThemeName, ThemePreference } from '../models/types';
+import { COLORS } from './constants';
+
+export type ThemeColors = { [K in keyof typeof COLORS]: string };
+
+export interface Theme {
+  name: ThemeName;
+  colors: ThemeColors;
+  statusBarStyle: 'dark-content' | 'light-content';
+}
+
+export const DARK_COLORS: ThemeColors = {
+  primary: '#0A84FF',
+  onPrimary: '#FFFFFF',
+  secondary: '#5E5CE6',
+  success: '#30D158',
+  warning: '#FF9F0A',
+  error: '#FF453A',
+  background: '#000000',
+  surface: '#1C1C1E',
+  text: '#FFFFFF',
+  textSecondary: '#98989F',
+  border: '#38383A',
+};
+
+// For reading in direct sun: pure black on white, darker accents and borders
+export const HIGH_CONTRAST_COLORS: ThemeColors = {
+  primary: '#0040DD',
+  onPrimary: '#FFFFFF',
+  secondary: '#3634A3',
+  success: '#005C1A',
+  warning: '#A04100',
+  error: '#A30010',
+  background: '#FFFFFF',
+  surface: '#FFFFFF',
+  text: '#000000',
+  textSecondary: '#1C1C1E',
+  border: '#000000',
+};
+
+export const THEMES: Record<ThemeName, Theme> = {
+  light: { name: 'light', colors: COLORS, statusBarStyle: 'dark-content' },
+  dark: { name: 'dark', colors: DARK_COLORS, statusBarStyle: 'light-content' },
+  'high-contrast': { name: 'high-contrast', colors: HIGH_CONTRAST_COLORS, statusBarStyle: 'dark-content' },
+};
+
+/**
+ * Check a stored value is a theme preference this version knows about
+ */
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return value === 'system' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(THEMES, value));
+}
+
+/**
+ * Pick the theme for a saved preference; 'system' follows the OS appearance
+ */
+export function resolveTheme(preference: ThemePreference, systemScheme?: string | null): Theme {
+  if (preference === 'system') {
+    return systemScheme === 'dark' ? THEMES.dark : THEMES.light;
+  }
+  return THEMES[preference] || THEMES.light;
+}
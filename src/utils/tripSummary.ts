@@ -0,0 +1,107 @@
+import { Game, SpottedState, SummaryState, TripSummary } from '../models/types';
+import { getGameStateList, jurisdictionCatalog } from './StateListManager';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const toSummaryState = (state: SpottedState): SummaryState => ({
+  stateCode: state.stateCode,
+  name: jurisdictionCatalog.getStateByCode(state.stateCode)?.name ?? state.stateCode,
+  spottedAt: state.spottedAt,
+});
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+/**
+ * Human-readable length of a trip, e.g. "5 hours" or "3 days"
+ */
+export function formatTripDuration(ms: number): string {
+  const hours = Math.round(ms / HOUR_MS);
+  if (hours < 1) {
+    return 'under an hour';
+  }
+  if (hours < 48) {
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Summarize a game for sharing, counting against the game's target list.
+ * stateSpottedCounts is the number of games each
+ * state has turned up in, used to pick the rarest find; ties go to the state
+ * spotted first.
+ */
+export function buildTripSummary(
+  game: Game,
+  spottedStates: SpottedState[],
+  stateSpottedCounts: Record<string, number>,
+): TripSummary {
+  const spottedCodes = new Set(spottedStates.map(state => state.stateCode));
+  const stateList = getGameStateList(game);
+  const statistics = stateList.getStateStatistics(
+    stateList.getAllStates().map(state => ({ ...state, isSpotted: spottedCodes.has(state.code) })),
+  );
+
+  const inOrder = [...spottedStates].sort((a, b) => a.spottedAt.localeCompare(b.spottedAt));
+  const first = inOrder[0];
+  const last = inOrder[inOrder.length - 1];
+
+  let rarest: SpottedState | undefined;
+  for (const state of inOrder) {
+    const count = stateSpottedCounts[state.stateCode] ?? 0;
+    if (!rarest || count < (stateSpottedCounts[rarest.stateCode] ?? 0)) {
+      rarest = state;
+    }
+  }
+
+  let duration: number | null = null;
+  const end = game.endDate ?? last?.spottedAt;
+  if (end) {
+    const started = new Date(game.startDate).getTime();
+    const start = Number.isNaN(started) ? new Date(first?.spottedAt ?? end).getTime() : started;
+    duration = Math.max(new Date(end).getTime() - start, 0);
+  }
+
+  return {
+    gameName: game.name,
+    startDate: game.startDate,
+    endDate: game.endDate,
+    found: statistics.spotted,
+    total: statistics.total,
+    percentage: statistics.percentage,
+    duration,
+    firstState: first ? toSummaryState(first) : null,
+    lastState: last ? toSummaryState(last) : null,
+    rarestFind: rarest ? toSummaryState(rarest) : null,
+  };
+}
+
+/**
+ * Plain-text version of a summary for messages and social posts
+ */
+export function formatTripSummary(summary: TripSummary): string {
+  const dates = summary.endDate
+    ? `${formatDate(summary.startDate)} – ${formatDate(summary.endDate)}`
+    : `Started ${formatDate(summary.startDate)}`;
+
+  const lines = [
+    `🚗 ${summary.gameName}`,
+    `📅 ${dates}`,
+    `🗺️ ${summary.found}/${summary.total} states found (${summary.percentage}%)`,
+  ];
+  if (summary.duration !== null) {
+    lines.push(`⏱️ ${formatTripDuration(summary.duration)}`);
+  }
+  if (summary.firstState && summary.lastState) {
+    lines.push(`🥇 First: ${summary.firstState.name} · 🏁 Last: ${summary.lastState.name}`);
+  }
+  if (summary.rarestFind) {
+    lines.push(`💎 Rarest find: ${summary.rarestFind.name}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,165 @@
+import { BoundaryPoint, BoundaryRing, STATE_BOUNDARIES } from './stateBoundaries';
+
+export interface MapShape {
+  code: string;
+  path: string; // SVG path data in US_MAP_SIZE coordinates
+  labelX: number;
+  labelY: number;
+  showLabel: boolean; // False where the code would not fit inside the state
+}
+
+interface AlbersParallels {
+  standardParallels: [number, number];
+  originLatitude: number;
+  centralMeridian: number;
+}
+
+interface MapBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type MapPoint = [number, number];
+
+export const US_MAP_SIZE = { width: 960, height: 600 };
+
+// The usual USA Albers projection for the contiguous states, and one tuned to
+// each of the insets so Alaska and Hawaii are not drawn sheared
+const LOWER_48_PROJECTION: AlbersParallels = { standardParallels: [29.5, 45.5], originLatitude: 37.5, centralMeridian: -96 };
+const ALASKA_PROJECTION: AlbersParallels = { standardParallels: [55, 65], originLatitude: 50, centralMeridian: -154 };
+const HAWAII_PROJECTION: AlbersParallels = { standardParallels: [8, 18], originLatitude: 3, centralMeridian: -157 };
+
+// Alaska and Hawaii sit in the empty corner below California and Arizona
+const LOWER_48_BOX: MapBox = { x: 10, y: 10, width: 940, height: 580 };
+const ALASKA_BOX: MapBox = { x: 10, y: 460, width: 170, height: 130 };
+const HAWAII_BOX: MapBox = { x: 190, y: 530, width: 100, height: 60 };
+
+const INSETS: Record<string, { projection: AlbersParallels; box: MapBox }> = {
+  AK: { projection: ALASKA_PROJECTION, box: ALASKA_BOX },
+  HI: { projection: HAWAII_PROJECTION, box: HAWAII_BOX },
+};
+
+// Smallest projected width and height, in map units, that fits a two-letter label
+const MIN_LABEL_SIZE = 28;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Albers equal-area conic projection; y grows northwards
+ */
+export function projectAlbers([longitude, latitude]: BoundaryPoint, parallels: AlbersParallels): MapPoint {
+  const [phi1, phi2] = parallels.standardParallels.map(toRadians);
+  const n = (Math.sin(phi1) + Math.sin(phi2)) / 2;
+  const c = Math.cos(phi1) ** 2 + 2 * n * Math.sin(phi1);
+  const rho0 = Math.sqrt(c - 2 * n * Math.sin(toRadians(parallels.originLatitude))) / n;
+  const rho = Math.sqrt(c - 2 * n * Math.sin(toRadians(latitude))) / n;
+  const theta = n * toRadians(longitude - parallels.centralMeridian);
+
+  return [rho * Math.sin(theta), rho0 - rho * Math.cos(theta)];
+}
+
+const getBounds = (rings: MapPoint[][]) => {
+  const points = rings.flat();
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+};
+
+/**
+ * Scale projected rings into a box, centred and keeping their proportions.
+ * Flips y so north is up in screen coordinates.
+ */
+function fitToBox(rings: MapPoint[][], box: MapBox): MapPoint[][] {
+  const bounds = getBounds(rings);
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const scale = Math.min(box.width / width, box.height / height);
+  const offsetX = box.x + (box.width - width * scale) / 2;
+  const offsetY = box.y + (box.height - height * scale) / 2;
+
+  return rings.map(ring =>
+    ring.map(([x, y]): MapPoint => [offsetX + (x - bounds.minX) * scale, offsetY + (bounds.maxY - y) * scale]),
+  );
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toPathData = (rings: MapPoint[][]) =>
+  rings
+    .map(ring => ring.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${round(x)},${round(y)}`).join('') + 'Z')
+    .join('');
+
+/**
+ * Area-weighted centre of a ring, so labels sit inside L-shaped states
+ */
+function getRingCentroid(ring: MapPoint[]): { x: number; y: number; area: number } {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  ring.forEach(([x0, y0], index) => {
+    const [x1, y1] = ring[(index + 1) % ring.length];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    x += (x0 + x1) * cross;
+    y += (y0 + y1) * cross;
+  });
+  area /= 2;
+
+  return { x: x / (6 * area), y: y / (6 * area), area: Math.abs(area) };
+}
+
+function buildShape(code: string, rings: MapPoint[][]): MapShape {
+  // Label the biggest piece, so Michigan's code lands on the mitten
+  const centroids = rings.map(getRingCentroid);
+  const largest = centroids.reduce((best, centroid) => (centroid.area > best.area ? centroid : best));
+  const bounds = getBounds(rings);
+
+  return {
+    code,
+    path: toPathData(rings),
+    labelX: round(largest.x),
+    labelY: round(largest.y),
+    showLabel: bounds.maxX - bounds.minX >= MIN_LABEL_SIZE && bounds.maxY - bounds.minY >= MIN_LABEL_SIZE,
+  };
+}
+
+const project = (rings: readonly BoundaryRing[], projection: AlbersParallels) =>
+  rings.map(ring => ring.map(point => projectAlbers(point, projection)));
+
+function buildUsMapShapes(): MapShape[] {
+  const boundaries = Object.entries(STATE_BOUNDARIES);
+  const lower48 = boundaries.filter(([code]) => !INSETS[code]);
+
+  // The contiguous states share one scale so their sizes stay comparable
+  const lower48Rings = lower48.map(([, rings]) => project(rings, LOWER_48_PROJECTION));
+  const fitted = fitToBox(lower48Rings.flat(), LOWER_48_BOX);
+  let next = 0;
+  const shapes = new Map<string, MapShape>();
+  lower48.forEach(([code], index) => {
+    const ringCount = lower48Rings[index].length;
+    shapes.set(code, buildShape(code, fitted.slice(next, next + ringCount)));
+    next += ringCount;
+  });
+
+  Object.entries(INSETS).forEach(([code, inset]) => {
+    shapes.set(code, buildShape(code, fitToBox(project(STATE_BOUNDARIES[code], inset.projection), inset.box)));
+  });
+
+  // Same order as the boundaries, which is alphabetical by name
+  return boundaries.map(([code]) => shapes.get(code)!);
+}
+
+/**
+ * Outlines of the 50 states, with Alaska and Hawaii inset below the West
+ */
+export const US_MAP_SHAPES: MapShape[] = buildUsMapShapes();
+
+/**
+ * Whether a jurisdiction is drawn on the map; DC, territories, Canada and
+ * Mexico are only in the list
+ */
+export function isOnUsMap(stateCode: string): boolean {
+  return stateCode in STATE_BOUNDARIES;
+}